@@ -1,11 +1,23 @@
 import React from 'react';
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Navigate, Link as RouterLink } from 'react-router-dom';
 import { ThemeProvider, createTheme } from '@mui/material/styles';
 import CssBaseline from '@mui/material/CssBaseline';
-import { Container, AppBar, Toolbar, Typography, Box } from '@mui/material';
+import { Container, AppBar, Toolbar, Typography, Box, Button, Chip } from '@mui/material';
 import PlayerManagement from './components/PlayerManagement';
+import PlayerProfile from './components/PlayerProfile';
 import TournamentDashboard from './components/TournamentDashboard';
 import TournamentResults from './components/TournamentResults';
+import TournamentHistory from './components/TournamentHistory';
+import UmpireScoring from './components/UmpireScoring';
+import PrintSheets from './components/PrintSheets';
+import ConnectionIndicator from './components/ConnectionIndicator';
+import Login from './components/Login';
+import ClubMembers from './components/ClubMembers';
+import ClubSelector from './components/ClubSelector';
+import { AuthProvider, useAuth } from './hooks/useAuth';
+import { ClubProvider, useClub } from './hooks/useClub';
+import { UserRole } from './types';
+import { getClubRole } from './utils/permissions';
 
 const theme = createTheme({
   palette: {
@@ -18,30 +30,91 @@ const theme = createTheme({
   },
 });
 
+// Sends anyone who is signed out, or lacks one of the roles in the chosen
+// club, to the sign-in page
+const RequireRole: React.FC<{ roles?: UserRole[]; children: React.ReactElement }> = ({ roles, children }) => {
+  const { user, loading } = useAuth();
+  const { club, loading: clubsLoading } = useClub();
+  if (loading || clubsLoading) return null;
+  const role = getClubRole(user, club?.id);
+  const allowed = user && (!roles || (role && roles.includes(role)));
+  return allowed ? children : <Navigate to="/login" replace />;
+};
+
+const AccountMenu: React.FC = () => {
+  const { user, logout } = useAuth();
+  const { club } = useClub();
+  const role = getClubRole(user, club?.id);
+
+  if (!user) {
+    return (
+      <Button color="inherit" component={RouterLink} to="/login">
+        Sign In
+      </Button>
+    );
+  }
+
+  return (
+    <>
+      {role === 'organiser' && (
+        <Button color="inherit" component={RouterLink} to="/members">
+          Members
+        </Button>
+      )}
+      <Chip label={role ? `${user.username} · ${role}` : user.username} size="small" sx={{ mx: 1, bgcolor: 'background.paper' }} />
+      <Button color="inherit" onClick={logout}>
+        Sign Out
+      </Button>
+    </>
+  );
+};
+
 function App() {
   return (
     <ThemeProvider theme={theme}>
       <CssBaseline />
-      <Router basename={process.env.PUBLIC_URL}>
-        <Box sx={{ flexGrow: 1 }}>
-          <AppBar position="static">
-            <Toolbar>
-              <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
-                🏸 Badminton Tournament Manager
-              </Typography>
-            </Toolbar>
-          </AppBar>
+      <AuthProvider>
+        <ClubProvider>
+          <Router basename={process.env.PUBLIC_URL}>
+            <Box sx={{ flexGrow: 1 }}>
+              <AppBar position="static" sx={{ displayPrint: 'none' }}>
+                <Toolbar>
+                  <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
+                    🏸 Badminton Tournament Manager
+                  </Typography>
+                  <ClubSelector />
+                  <ConnectionIndicator />
+                  <Button color="inherit" component={RouterLink} to="/players">
+                    Players
+                  </Button>
+                  <Button color="inherit" component={RouterLink} to="/history">
+                    History
+                  </Button>
+                  <AccountMenu />
+                </Toolbar>
+              </AppBar>
           
-          <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
-            <Routes>
-              <Route path="/" element={<Navigate to="/players" replace />} />
-              <Route path="/players" element={<PlayerManagement />} />
-              <Route path="/tournament" element={<TournamentDashboard />} />
-              <Route path="/results" element={<TournamentResults />} />
-            </Routes>
-          </Container>
-        </Box>
-      </Router>
+              <Container maxWidth="lg" sx={{ mt: 4, mb: 4, '@media print': { m: 0, maxWidth: 'none' } }}>
+                <Routes>
+                  <Route path="/" element={<Navigate to="/players" replace />} />
+                  <Route path="/players" element={<PlayerManagement />} />
+                  <Route path="/players/:playerId" element={<PlayerProfile />} />
+                  <Route path="/tournaments/:tournamentId" element={<TournamentDashboard />} />
+                  <Route
+                    path="/tournaments/:tournamentId/umpire/:fixtureId"
+                    element={<RequireRole><UmpireScoring /></RequireRole>}
+                  />
+                  <Route path="/tournaments/:tournamentId/results" element={<TournamentResults />} />
+                  <Route path="/tournaments/:tournamentId/print" element={<PrintSheets />} />
+                  <Route path="/history" element={<TournamentHistory />} />
+                  <Route path="/login" element={<Login />} />
+                  <Route path="/members" element={<RequireRole roles={['organiser']}><ClubMembers /></RequireRole>} />
+                </Routes>
+              </Container>
+            </Box>
+          </Router>
+        </ClubProvider>
+      </AuthProvider>
     </ThemeProvider>
   );
 }
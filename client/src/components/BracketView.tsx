@@ -0,0 +1,177 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+} from '@mui/material';
+import { Bracket, BracketEntry, BracketSlot, Fixture, GroupStandings, Player } from '../types';
+
+interface BracketViewProps {
+  bracket?: Bracket | null;
+  groupStandings?: GroupStandings[] | null;
+  advancePerGroup?: number;
+  fixtures: Fixture[];
+  players: Player[];
+}
+
+const SECTION_TITLES: Record<BracketSlot['section'], string> = {
+  winners: 'Winners bracket',
+  losers: 'Losers bracket',
+  final: 'Grand final',
+};
+
+// Names rounds from the end of the winners bracket: Final, Semi-finals, ...
+const getRoundTitle = (section: BracketSlot['section'], round: number, lastRound: number) => {
+  if (section === 'final') return round === 1 ? 'Grand final' : 'Reset (if needed)';
+  if (section === 'losers') return `Round ${round}`;
+  const fromEnd = lastRound - round;
+  if (fromEnd === 0) return 'Final';
+  if (fromEnd === 1) return 'Semi-finals';
+  if (fromEnd === 2) return 'Quarter-finals';
+  return `Round ${round}`;
+};
+
+const BracketView: React.FC<BracketViewProps> = ({ bracket, groupStandings, advancePerGroup, fixtures, players }) => {
+  const getPairName = (pair: string[]) =>
+    pair.map(id => players.find(p => p.id === id)?.name || 'Unknown').join(' & ');
+
+  const getEntryName = (entry: BracketEntry) => {
+    if (entry === 'bye') return 'Bye';
+    if (entry === null) return 'TBD';
+    return getPairName(entry);
+  };
+
+  // The reset is not needed once the unbeaten pair wins the grand final
+  const isSkippedReset = (slot: BracketSlot) =>
+    !!bracket?.slots.some(other => other.resetSlotId === slot.id && other.winner === 'team1');
+
+  const renderSlot = (slot: BracketSlot) => {
+    if (isSkippedReset(slot)) {
+      return (
+        <Paper key={slot.id} variant="outlined" sx={{ p: 1, minWidth: 200 }}>
+          <Typography variant="body2" color="text.secondary">
+            Not needed
+          </Typography>
+        </Paper>
+      );
+    }
+
+    const fixture = slot.fixtureId ? fixtures.find(f => f.id === slot.fixtureId) : undefined;
+    const renderSide = (side: 'team1' | 'team2') => (
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 1 }}>
+        <Typography
+          variant="body2"
+          color={slot[side] === null || slot[side] === 'bye' ? 'text.secondary' : 'text.primary'}
+          sx={{ fontWeight: slot.winner === side ? 'bold' : 'normal' }}
+        >
+          {getEntryName(slot[side])}
+        </Typography>
+        {fixture?.status === 'completed' && (
+          <Typography variant="body2" sx={{ fontWeight: slot.winner === side ? 'bold' : 'normal' }}>
+            {fixture[`${side}Score`]}
+          </Typography>
+        )}
+      </Box>
+    );
+
+    return (
+      <Paper
+        key={slot.id}
+        variant="outlined"
+        sx={{ p: 1, minWidth: 200, borderColor: slot.winner ? 'success.main' : 'divider' }}
+      >
+        {renderSide('team1')}
+        {renderSide('team2')}
+      </Paper>
+    );
+  };
+
+  const renderSection = (section: BracketSlot['section']) => {
+    if (!bracket) return null;
+    const slots = bracket.slots.filter(slot => slot.section === section);
+    if (slots.length === 0) return null;
+
+    const lastRound = Math.max(...slots.map(slot => slot.round));
+    const rounds = Array.from(new Set(slots.map(slot => slot.round))).sort((a, b) => a - b);
+
+    return (
+      <Box key={section} sx={{ mb: 3 }}>
+        {bracket.type === 'double' && (
+          <Typography variant="subtitle1" gutterBottom>
+            {SECTION_TITLES[section]}
+          </Typography>
+        )}
+        <Box sx={{ display: 'flex', gap: 2, overflowX: 'auto', pb: 1 }}>
+          {rounds.map(round => (
+            <Box
+              key={round}
+              sx={{ display: 'flex', flexDirection: 'column', justifyContent: 'space-around', gap: 1 }}
+            >
+              <Typography variant="caption" color="text.secondary">
+                {getRoundTitle(section, round, lastRound)}
+              </Typography>
+              {slots.filter(slot => slot.round === round).map(renderSlot)}
+            </Box>
+          ))}
+        </Box>
+      </Box>
+    );
+  };
+
+  return (
+    <Box>
+      {groupStandings && (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 3 }}>
+          {groupStandings.map(group => (
+            <Paper key={group.name} variant="outlined" sx={{ p: 1, flex: '1 1 300px' }}>
+              <Typography variant="subtitle1" gutterBottom>
+                Group {group.name}
+              </Typography>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Pair</TableCell>
+                    <TableCell align="right">P</TableCell>
+                    <TableCell align="right">W</TableCell>
+                    <TableCell align="right">+/-</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {group.standings.map((row, index) => (
+                    <TableRow key={row.pair.join(',')}>
+                      <TableCell sx={{ fontWeight: advancePerGroup && index < advancePerGroup ? 'bold' : 'normal' }}>
+                        {getPairName(row.pair)}
+                      </TableCell>
+                      <TableCell align="right">{row.played}</TableCell>
+                      <TableCell align="right">{row.wins}</TableCell>
+                      <TableCell align="right">
+                        {row.pointDifference > 0 ? `+${row.pointDifference}` : row.pointDifference}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Paper>
+          ))}
+        </Box>
+      )}
+
+      {bracket ? (
+        (['winners', 'losers', 'final'] as const).map(renderSection)
+      ) : (
+        groupStandings && (
+          <Typography variant="body2" color="text.secondary">
+            The knockout bracket is drawn once every group match has been played.
+          </Typography>
+        )
+      )}
+    </Box>
+  );
+};
+
+export default BracketView;
@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  List,
+  ListItem,
+  ListItemText,
+  ListItemSecondaryAction,
+  IconButton,
+  Chip,
+} from '@mui/material';
+import { ManageAccounts, Delete } from '@mui/icons-material';
+import { ClubMember, UserRole } from '../types';
+import { clubService } from '../services/api';
+import { useAuth } from '../hooks/useAuth';
+import { useClub } from '../hooks/useClub';
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  organiser: 'Full control of players, tournaments and results',
+  scorer: 'Enters scores for the matches assigned to them',
+  viewer: 'Can sign in and follow along, but change nothing',
+};
+
+// Organisers add the scorers and viewers who help run the club's day. An
+// existing username joins the club with the chosen role; a new one needs a
+// password and gets an account.
+const ClubMembers: React.FC = () => {
+  const { user: currentUser } = useAuth();
+  const { club } = useClub();
+  const [members, setMembers] = useState<ClubMember[]>([]);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<UserRole>('scorer');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadMembers();
+  }, [club?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const loadMembers = async () => {
+    if (!club) return;
+    try {
+      setLoading(true);
+      setMembers(await clubService.getMembers(club.id));
+    } catch (err) {
+      setError('Failed to load members');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!club) return;
+    try {
+      setLoading(true);
+      setError(null);
+      await clubService.saveMember(club.id, username.trim(), role, password || undefined);
+      setUsername('');
+      setPassword('');
+      await loadMembers();
+    } catch (err) {
+      setError('Failed to save member');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemoveMember = async (id: string) => {
+    if (!club) return;
+    try {
+      setLoading(true);
+      setError(null);
+      await clubService.removeMember(club.id, id);
+      await loadMembers();
+    } catch (err) {
+      setError('Failed to remove member');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="h4" gutterBottom>
+        <ManageAccounts sx={{ mr: 1, verticalAlign: 'middle' }} />
+        {club ? `${club.name} Members` : 'Members'}
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Typography variant="h6" gutterBottom>
+            Add or Change Member
+          </Typography>
+          <Box component="form" onSubmit={handleSaveMember} sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'flex-start' }}>
+            <TextField
+              label="Username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              helperText="3-32 letters, digits, dots, dashes or underscores"
+              required
+            />
+            <TextField
+              label="Password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="new-password"
+              helperText="New accounts only, at least 8 characters"
+            />
+            <FormControl sx={{ minWidth: 160 }}>
+              <InputLabel>Role</InputLabel>
+              <Select value={role} onChange={(e) => setRole(e.target.value as UserRole)} label="Role">
+                {(Object.keys(ROLE_DESCRIPTIONS) as UserRole[]).map(key => (
+                  <MenuItem key={key} value={key}>{key}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Button type="submit" variant="contained" sx={{ mt: 1 }} disabled={loading || !username}>
+              Save
+            </Button>
+          </Box>
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            {ROLE_DESCRIPTIONS[role]}
+          </Typography>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent>
+          <Typography variant="h6" gutterBottom>
+            Members ({members.length})
+          </Typography>
+          <List>
+            {members.map(account => (
+              <ListItem key={account.id}>
+                <ListItemText
+                  primary={account.username}
+                  secondary={<Chip label={account.role} size="small" sx={{ mt: 0.5 }} />}
+                />
+                <ListItemSecondaryAction>
+                  <IconButton
+                    edge="end"
+                    onClick={() => handleRemoveMember(account.id)}
+                    disabled={loading || account.id === currentUser?.id}
+                    title={account.id === currentUser?.id ? 'You cannot remove yourself from the club' : 'Remove from the club'}
+                  >
+                    <Delete />
+                  </IconButton>
+                </ListItemSecondaryAction>
+              </ListItem>
+            ))}
+          </List>
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default ClubMembers;
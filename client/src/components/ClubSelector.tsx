@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Select,
+  MenuItem,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Alert,
+} from '@mui/material';
+import { matchPath, useLocation, useNavigate } from 'react-router-dom';
+import { TournamentSummary } from '../types';
+import { historyService } from '../services/api';
+import { useAuth } from '../hooks/useAuth';
+import { useClub } from '../hooks/useClub';
+import { useLiveUpdates } from '../hooks/useLiveUpdates';
+
+const NEW_CLUB = '__new__';
+
+// Events that start or finish one of the club's tournaments
+const TOURNAMENT_LIST_EVENTS = ['resync', 'tournament.created', 'tournament.completed', 'score.reopened'];
+
+const selectSx = { bgcolor: 'background.paper', minWidth: 160, mr: 1 };
+
+// Top bar choice of the club being viewed and which of its active
+// tournaments is on screen
+const ClubSelector: React.FC = () => {
+  const { user } = useAuth();
+  const { clubs, club, selectClub, createClub } = useClub();
+  const [activeTournaments, setActiveTournaments] = useState<TournamentSummary[]>([]);
+  const [newClubDialog, setNewClubDialog] = useState(false);
+  const [newClubName, setNewClubName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const tournamentId = matchPath('/tournaments/:tournamentId/*', location.pathname)?.params.tournamentId;
+
+  useEffect(() => {
+    loadTournaments();
+  }, [club?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useLiveUpdates({ clubId: club?.id }, events => {
+    if (events.some(event => TOURNAMENT_LIST_EVENTS.includes(event.type))) {
+      loadTournaments();
+    }
+  });
+
+  const loadTournaments = async () => {
+    if (!club) return;
+    try {
+      const summaries = await historyService.getTournaments(club.id);
+      setActiveTournaments(summaries.filter(summary => summary.status === 'active'));
+    } catch (err) {
+      setActiveTournaments([]);
+    }
+  };
+
+  const handleClubChange = (value: string) => {
+    if (value === NEW_CLUB) {
+      setNewClubName('');
+      setError(null);
+      setNewClubDialog(true);
+      return;
+    }
+    selectClub(value);
+    navigate('/players');
+  };
+
+  const handleCreateClub = async () => {
+    try {
+      setError(null);
+      await createClub(newClubName.trim());
+      setNewClubDialog(false);
+      navigate('/players');
+    } catch (err) {
+      setError('Failed to create club');
+    }
+  };
+
+  const getTournamentLabel = (summary: TournamentSummary) =>
+    summary.name || new Date(summary.createdAt).toLocaleDateString();
+
+  // A tournament opened by link may not be in the list (it is finished, say)
+  const tournamentValue = activeTournaments.some(summary => summary.id === tournamentId) ? tournamentId : '';
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center' }}>
+      {(clubs.length > 0 || user) && (
+        <Select
+          size="small"
+          value={club?.id || ''}
+          onChange={(e) => handleClubChange(e.target.value)}
+          displayEmpty
+          sx={selectSx}
+        >
+          {!club && <MenuItem value="" disabled>Choose a club</MenuItem>}
+          {clubs.map(option => (
+            <MenuItem key={option.id} value={option.id}>{option.name}</MenuItem>
+          ))}
+          {user && <MenuItem value={NEW_CLUB}>New club…</MenuItem>}
+        </Select>
+      )}
+      {club && (
+        <Select
+          size="small"
+          value={tournamentValue}
+          onChange={(e) => navigate(`/tournaments/${e.target.value}`)}
+          displayEmpty
+          sx={selectSx}
+        >
+          <MenuItem value="" disabled>
+            {activeTournaments.length ? 'Active tournaments' : 'No active tournaments'}
+          </MenuItem>
+          {activeTournaments.map(summary => (
+            <MenuItem key={summary.id} value={summary.id}>{getTournamentLabel(summary)}</MenuItem>
+          ))}
+        </Select>
+      )}
+
+      <Dialog open={newClubDialog} onClose={() => setNewClubDialog(false)}>
+        <DialogTitle>New Club</DialogTitle>
+        <DialogContent>
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+          <TextField
+            label="Club Name"
+            value={newClubName}
+            onChange={(e) => setNewClubName(e.target.value)}
+            helperText="You will be the club's organiser"
+            fullWidth
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setNewClubDialog(false)}>Cancel</Button>
+          <Button onClick={handleCreateClub} variant="contained" disabled={!newClubName.trim()}>
+            Create Club
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default ClubSelector;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Chip } from '@mui/material';
+import { FiberManualRecord } from '@mui/icons-material';
+import { ConnectionStatus } from '../types';
+import { useConnectionStatus } from '../hooks/useLiveUpdates';
+
+const STATUS_DISPLAY: Record<ConnectionStatus, { label: string; color: 'success' | 'warning' | 'error' | 'default'; title: string }> = {
+  connecting: { label: 'Connecting', color: 'default', title: 'Connecting to live updates' },
+  live: { label: 'Live', color: 'success', title: 'Scores and changes from other devices appear automatically' },
+  reconnecting: { label: 'Reconnecting', color: 'warning', title: 'Connection lost; missed updates will be caught up on reconnect' },
+  offline: { label: 'Offline', color: 'error', title: 'Live updates are unavailable; retrying shortly' },
+};
+
+// Shows whether this device is receiving live updates from the server
+const ConnectionIndicator: React.FC = () => {
+  const display = STATUS_DISPLAY[useConnectionStatus()];
+
+  return (
+    <Chip
+      icon={<FiberManualRecord />}
+      label={display.label}
+      color={display.color}
+      title={display.title}
+      size="small"
+      variant="outlined"
+      sx={{ mr: 2, bgcolor: 'background.paper' }}
+    />
+  );
+};
+
+export default ConnectionIndicator;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Box, Table, TableHead, TableBody, TableRow, TableCell } from '@mui/material';
+import { TeamStats } from '../types';
+import { getLeagueTable, getTeamLabel } from '../utils/teams';
+
+interface LeagueTableProps {
+  teamStats: TeamStats;
+}
+
+const formatDifference = (value?: number) =>
+  value === undefined ? '-' : value > 0 ? `+${value}` : `${value}`;
+
+// Team league table: wins first, then point difference, then points scored
+const LeagueTable: React.FC<LeagueTableProps> = ({ teamStats }) => {
+  const rows = getLeagueTable(teamStats);
+
+  return (
+    <Box sx={{ overflowX: 'auto' }}>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>#</TableCell>
+            <TableCell>Team</TableCell>
+            <TableCell align="right">Players</TableCell>
+            <TableCell align="right">Played</TableCell>
+            <TableCell align="right">Won</TableCell>
+            <TableCell align="right">Lost</TableCell>
+            <TableCell align="right">Points</TableCell>
+            <TableCell align="right">+/-</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map((row, index) => (
+            <TableRow key={row.key} selected={index === 0 && row.wins > 0}>
+              <TableCell>{row.rank ?? index + 1}</TableCell>
+              <TableCell>{getTeamLabel(row.key)}</TableCell>
+              <TableCell align="right">{row.players.length}</TableCell>
+              <TableCell align="right">{row.played ?? '-'}</TableCell>
+              <TableCell align="right">{row.wins}</TableCell>
+              <TableCell align="right">{row.losses ?? '-'}</TableCell>
+              <TableCell align="right">
+                {row.pointsFor === undefined ? '-' : `${row.pointsFor}-${row.pointsAgainst}`}
+              </TableCell>
+              <TableCell align="right">{formatDifference(row.pointDifference)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Box>
+  );
+};
+
+export default LeagueTable;
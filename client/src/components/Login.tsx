@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Box, Card, CardContent, Typography, TextField, Button, Alert } from '@mui/material';
+import { Lock } from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+
+// Sign-in page. Before any account exists it creates the first organiser instead.
+const Login: React.FC = () => {
+  const { setupRequired, login, setup } = useAuth();
+  const navigate = useNavigate();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [clubName, setClubName] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setLoading(true);
+      setError(null);
+      if (setupRequired) {
+        await setup(username, password, clubName.trim());
+      } else {
+        await login(username, password);
+      }
+      navigate('/players');
+    } catch (err) {
+      setError(setupRequired ? 'Failed to create the organiser account' : 'Incorrect username or password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Box sx={{ maxWidth: 400, mx: 'auto' }}>
+      <Typography variant="h4" gutterBottom>
+        <Lock sx={{ mr: 1, verticalAlign: 'middle' }} />
+        {setupRequired ? 'Create Organiser' : 'Sign In'}
+      </Typography>
+
+      {setupRequired && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          There are no accounts yet. The account you create now organises the club and can add scorers and viewers.
+        </Alert>
+      )}
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      <Card>
+        <CardContent>
+          <Box component="form" onSubmit={handleSubmit} sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <TextField
+              label="Username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoComplete="username"
+              helperText={setupRequired ? '3-32 letters, digits, dots, dashes or underscores' : undefined}
+              required
+            />
+            <TextField
+              label="Password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={setupRequired ? 'new-password' : 'current-password'}
+              helperText={setupRequired ? 'At least 8 characters' : undefined}
+              required
+            />
+            {setupRequired && (
+              <TextField
+                label="Club Name"
+                value={clubName}
+                onChange={(e) => setClubName(e.target.value)}
+                helperText="Clubs keep their own players and tournaments"
+                required
+              />
+            )}
+            <Button type="submit" variant="contained" disabled={loading || !username || !password || (setupRequired && !clubName.trim())}>
+              {setupRequired ? 'Create Account' : 'Sign In'}
+            </Button>
+          </Box>
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default Login;
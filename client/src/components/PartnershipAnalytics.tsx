@@ -0,0 +1,210 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Alert,
+  Divider,
+  List,
+  ListItem,
+  ListItemText,
+  Chip,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+} from '@mui/material';
+import { PartnershipAnalytics as PartnershipAnalyticsType, PartnershipRecord } from '../types';
+import { analyticsService } from '../services/api';
+
+interface PartnershipAnalyticsProps {
+  tournamentId: string;
+  // The club whose tournaments make up the "all tournaments" view
+  clubId: string;
+}
+
+type Scope = 'tournament' | 'all';
+type MatrixMode = 'partners' | 'opponents';
+
+// Red at 0% through amber to green at 100%
+const getHeatColor = (winRate: number) => `hsl(${Math.round(winRate * 1.2)}, 70%, 80%)`;
+
+const PartnershipAnalytics: React.FC<PartnershipAnalyticsProps> = ({ tournamentId, clubId }) => {
+  const [analytics, setAnalytics] = useState<PartnershipAnalyticsType | null>(null);
+  const [scope, setScope] = useState<Scope>('tournament');
+  const [mode, setMode] = useState<MatrixMode>('partners');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [scope, tournamentId, clubId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const loadAnalytics = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = scope === 'all'
+        ? await analyticsService.getClubAnalytics(clubId)
+        : await analyticsService.getTournamentAnalytics(tournamentId);
+      setAnalytics(data);
+    } catch (err) {
+      setError('Failed to load partnership analytics');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getPlayerName = (playerId: string) =>
+    analytics?.players.find(p => p.id === playerId)?.name || 'Unknown Player';
+
+  const getCellRecord = (rowId: string, columnId: string) => {
+    if (!analytics) return undefined;
+    if (mode === 'partners') {
+      return analytics.partnerships.find(record =>
+        record.players.includes(rowId) && record.players.includes(columnId)
+      );
+    }
+    return analytics.rivalries.find(record =>
+      record.playerId === rowId && record.opponentId === columnId
+    );
+  };
+
+  const renderPartnershipList = (title: string, records: PartnershipRecord[]) => (
+    <Box sx={{ flex: 1, minWidth: 260 }}>
+      <Typography variant="subtitle1" gutterBottom>
+        {title}
+      </Typography>
+      {records.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No pair has played {analytics?.minPartnershipMatches} matches together yet.
+        </Typography>
+      ) : (
+        <List dense>
+          {records.map(record => (
+            <ListItem key={record.players.join('-')}>
+              <ListItemText
+                primary={`${getPlayerName(record.players[0])} & ${getPlayerName(record.players[1])}`}
+                secondary={`${record.wins}W ${record.losses}L`}
+              />
+              <Chip
+                label={`${record.winRate}%`}
+                size="small"
+                sx={{ bgcolor: getHeatColor(record.winRate) }}
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+    </Box>
+  );
+
+  const players = analytics
+    ? analytics.playerIds
+        .map(id => ({ id, name: getPlayerName(id) }))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    : [];
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 2, mb: 3, flexWrap: 'wrap' }}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={scope}
+          onChange={(_, value) => value && setScope(value)}
+        >
+          <ToggleButton value="tournament">This Tournament</ToggleButton>
+          <ToggleButton value="all">All Tournaments</ToggleButton>
+        </ToggleButtonGroup>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={mode}
+          onChange={(_, value) => value && setMode(value)}
+        >
+          <ToggleButton value="partners">Partners</ToggleButton>
+          <ToggleButton value="opponents">Opponents</ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      {loading ? (
+        <Alert severity="info">Loading partnership analytics...</Alert>
+      ) : analytics && players.length === 0 ? (
+        <Alert severity="info">No completed matches to analyse yet.</Alert>
+      ) : analytics && (
+        <>
+          <Card sx={{ mb: 3 }}>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>
+                {mode === 'partners' ? 'Win Rate Together' : 'Win Rate Against (row vs column)'}
+              </Typography>
+              <Divider sx={{ mb: 2 }} />
+              <Box sx={{ overflowX: 'auto' }}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell />
+                      {players.map(player => (
+                        <TableCell key={player.id} align="center">{player.name}</TableCell>
+                      ))}
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {players.map(row => (
+                      <TableRow key={row.id}>
+                        <TableCell component="th" scope="row">{row.name}</TableCell>
+                        {players.map(column => {
+                          const record = row.id === column.id ? undefined : getCellRecord(row.id, column.id);
+                          return (
+                            <Tooltip
+                              key={column.id}
+                              title={record ? `${record.wins}W ${record.losses}L` : ''}
+                            >
+                              <TableCell
+                                align="center"
+                                sx={{
+                                  bgcolor: record ? getHeatColor(record.winRate) : 'grey.100',
+                                  border: 1,
+                                  borderColor: 'background.paper',
+                                }}
+                              >
+                                {record ? `${record.winRate}%` : '–'}
+                              </TableCell>
+                            </Tooltip>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Box>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>
+                Partnerships
+              </Typography>
+              <Divider sx={{ mb: 2 }} />
+              <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap' }}>
+                {renderPartnershipList('Best Partnerships', analytics.bestPartnerships)}
+                {renderPartnershipList('Worst Partnerships', analytics.worstPartnerships)}
+              </Box>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default PartnershipAnalytics;
@@ -10,6 +10,7 @@ import {
   MenuItem,
   FormControl,
   InputLabel,
+  FormHelperText,
   Chip,
   IconButton,
   Alert,
@@ -24,32 +25,64 @@ import {
   ListItemIcon,
   Divider,
   Checkbox,
+  Link,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
-import { Add, Delete, Sports } from '@mui/icons-material';
-import { useNavigate } from 'react-router-dom';
-import { Player } from '../types';
+import { Add, Delete, Sports, Edit, Check, Close, UploadFile, Download } from '@mui/icons-material';
+import { Link as RouterLink, useNavigate } from 'react-router-dom';
+import { Player, TeamStrategy, TournamentFormat } from '../types';
 import { playerService, tournamentService } from '../services/api';
+import { SCORING_PRESETS } from '../utils/scoring';
+import RatingTrend from './RatingTrend';
+import RosterImportDialog from './RosterImportDialog';
+import { TIEBREAKER_PRESETS } from '../utils/standings';
+import { TOURNAMENT_FORMATS, MIN_MATCHES_PER_PLAYER, MAX_MATCHES_PER_PLAYER, clampMatchesPerPlayer } from '../utils/formats';
+import { MAX_TEAM_COUNT, getTeamLabel } from '../utils/teams';
+import { useAuth } from '../hooks/useAuth';
+import { useClub } from '../hooks/useClub';
+import { canManage } from '../utils/permissions';
 
 const PlayerManagement: React.FC = () => {
   const [players, setPlayers] = useState<Player[]>([]);
+  const [archivedPlayers, setArchivedPlayers] = useState<Player[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [newPlayer, setNewPlayer] = useState({ name: '', skillLevel: 'beginner' });
   const [selectedPlayers, setSelectedPlayers] = useState<string[]>([]);
+  // The player whose name and skill level are being edited in the list
+  const [editingPlayer, setEditingPlayer] = useState<{ id: string; name: string; skillLevel: string } | null>(null);
+  const [importDialog, setImportDialog] = useState(false);
   const [matchesPerPlayer, setMatchesPerPlayer] = useState(6);
+  const [courts, setCourts] = useState(2);
+  const [scoringPreset, setScoringPreset] = useState('bestOf1');
+  const [tiebreakerPreset, setTiebreakerPreset] = useState('headToHeadFirst');
+  const [format, setFormat] = useState<TournamentFormat>('teams');
+  const [teamStrategy, setTeamStrategy] = useState<TeamStrategy>('ai');
+  const [teamSeed, setTeamSeed] = useState('');
+  const [groupCount, setGroupCount] = useState('');
+  const [advancePerGroup, setAdvancePerGroup] = useState('2');
+  const [teamCount, setTeamCount] = useState(2);
+  const [manualAssignments, setManualAssignments] = useState<Record<string, string>>({});
   const [createTournamentDialog, setCreateTournamentDialog] = useState(false);
+  const [tournamentName, setTournamentName] = useState('');
   const navigate = useNavigate();
+  const { club } = useClub();
+  const canEdit = canManage(useAuth().user, club?.id);
 
   useEffect(() => {
+    setSelectedPlayers([]);
     loadPlayers();
-  }, []);
+  }, [club?.id]); // eslint-disable-line react-hooks/exhaustive-deps
 
   const loadPlayers = async () => {
+    if (!club) return;
     try {
       setLoading(true);
-      const data = await playerService.getPlayers();
-      setPlayers(data);
+      const data = await playerService.getPlayers(club.id, true);
+      setPlayers(data.filter(p => !p.archivedAt));
+      setArchivedPlayers(data.filter(p => p.archivedAt));
     } catch (err) {
       setError('Failed to load players');
     } finally {
@@ -58,6 +91,7 @@ const PlayerManagement: React.FC = () => {
   };
 
   const handleAddPlayer = async () => {
+    if (!club) return;
     if (!newPlayer.name.trim()) {
       setError('Player name is required');
       return;
@@ -66,7 +100,7 @@ const PlayerManagement: React.FC = () => {
     try {
       setLoading(true);
       setError(null);
-      const player = await playerService.addPlayer(newPlayer.name, newPlayer.skillLevel);
+      const player = await playerService.addPlayer(club.id, newPlayer.name, newPlayer.skillLevel);
       setPlayers([...players, player]);
       setSelectedPlayers([...selectedPlayers, player.id]); // Auto-select new player
       setNewPlayer({ name: '', skillLevel: 'beginner' });
@@ -79,16 +113,60 @@ const PlayerManagement: React.FC = () => {
     }
   };
 
+  const handleSavePlayer = async () => {
+    if (!editingPlayer) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const { id, name, skillLevel } = editingPlayer;
+      const updated = await playerService.updatePlayer(id, { name: name.trim(), skillLevel });
+      setPlayers(players.map(p => (p.id === id ? updated : p)));
+      setEditingPlayer(null);
+      setSuccess('Player updated successfully!');
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError('Failed to update player');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePlayersImported = (imported: Player[]) => {
+    setPlayers([...players, ...imported]);
+    setSuccess(`Imported ${imported.length} player${imported.length === 1 ? '' : 's'}`);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
   const handleDeletePlayer = async (id: string) => {
     try {
       setLoading(true);
-      await playerService.deletePlayer(id);
+      setError(null);
+      const result = await playerService.deletePlayer(id);
       setPlayers(players.filter(p => p.id !== id));
       setSelectedPlayers(selectedPlayers.filter(playerId => playerId !== id));
-      setSuccess('Player deleted successfully!');
+      if (result.archived && result.player) {
+        setArchivedPlayers([...archivedPlayers, result.player]);
+      }
+      setSuccess(result.archived ? 'Player archived: they keep their name in past results' : 'Player deleted successfully!');
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError('Failed to delete player. Players still in an active tournament must be withdrawn first.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestorePlayer = async (id: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const restored = await playerService.updatePlayer(id, { archived: false });
+      setArchivedPlayers(archivedPlayers.filter(p => p.id !== id));
+      setPlayers([...players, restored]);
+      setSuccess('Player restored successfully!');
       setTimeout(() => setSuccess(null), 3000);
     } catch (err) {
-      setError('Failed to delete player');
+      setError('Failed to restore player');
     } finally {
       setLoading(false);
     }
@@ -107,16 +185,51 @@ const PlayerManagement: React.FC = () => {
       setError('At least 4 players are required for a tournament');
       return;
     }
+    // Deal selected players out to the teams as a starting point for manual assignment
+    setManualAssignments(
+      Object.fromEntries(selectedPlayers.map((id, index) => [id, `team${(index % teamCount) + 1}`]))
+    );
     setCreateTournamentDialog(true);
   };
 
+  const usesManualTeams = format === 'teams' && teamStrategy === 'manual';
+  const isKnockout = TOURNAMENT_FORMATS[format].knockout;
+  // Knockout formats play fixed pairs, so every player needs a partner
+  const needsEvenPlayers = isKnockout && selectedPlayers.length % 2 === 1;
+  // Americano partners everyone with everyone once, which fixes the match count
+  const isAmericano = format === 'americano';
+  const matchesEach = isAmericano ? Math.max(selectedPlayers.length - 1, 0) : matchesPerPlayer;
+
+  const teamKeys = Array.from({ length: teamCount }, (_, index) => `team${index + 1}`);
+
+  const getManualTeams = () =>
+    Object.fromEntries(teamKeys.map(key => [key, selectedPlayers.filter(id => manualAssignments[id] === key)]));
+
+  const manualTeamsIncomplete = usesManualTeams && Object.values(getManualTeams()).some(team => team.length < 2);
+  // Every team needs at least one doubles pair
+  const tooManyTeams = format === 'teams' && teamCount * 2 > selectedPlayers.length;
+
   const confirmCreateTournament = async () => {
+    if (!club) return;
     try {
       setLoading(true);
       setError(null);
-      await tournamentService.createTournament(selectedPlayers, matchesPerPlayer);
+      const tournament = await tournamentService.createTournament(club.id, selectedPlayers, matchesPerPlayer, {
+        name: tournamentName.trim() || undefined,
+        courts,
+        format,
+        scoringRules: SCORING_PRESETS[scoringPreset].rules,
+        tiebreakers: TIEBREAKER_PRESETS[tiebreakerPreset].tiebreakers,
+        teamStrategy: format === 'teams' ? teamStrategy : undefined,
+        teamCount: format === 'teams' ? teamCount : undefined,
+        teamSeed: teamSeed.trim() && !isKnockout ? parseInt(teamSeed, 10) : undefined,
+        groupCount: format === 'groupsKnockout' && groupCount.trim() ? parseInt(groupCount, 10) : undefined,
+        advancePerGroup: format === 'groupsKnockout' && advancePerGroup.trim() ? parseInt(advancePerGroup, 10) : undefined,
+        manualTeams: usesManualTeams ? getManualTeams() : undefined,
+      });
       setCreateTournamentDialog(false);
-      navigate('/tournament');
+      setTournamentName('');
+      navigate(`/tournaments/${tournament.id}`);
     } catch (err) {
       setError('Failed to create tournament');
     } finally {
@@ -140,100 +253,183 @@ const PlayerManagement: React.FC = () => {
         Player Management
       </Typography>
 
+      {!club && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          There are no clubs yet. Sign in and create one from the club selector in the top bar.
+        </Alert>
+      )}
+
       {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
       {success && <Alert severity="success" sx={{ mb: 2 }}>{success}</Alert>}
 
       <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
         {/* Top Row - Forms */}
-        <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap' }}>
-          {/* Add Player Form */}
-          <Box sx={{ flex: 1, minWidth: 300 }}>
-            <Card>
-              <CardContent>
-                <Typography variant="h6" gutterBottom>
-                  Add New Player
-                </Typography>
-                <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+        {canEdit ? (
+          <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap' }}>
+            {/* Add Player Form */}
+            <Box sx={{ flex: 1, minWidth: 300 }}>
+              <Card>
+                <CardContent>
+                  <Typography variant="h6" gutterBottom>
+                    Add New Player
+                  </Typography>
+                  <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+                    <TextField
+                      label="Player Name"
+                      value={newPlayer.name}
+                      onChange={(e) => setNewPlayer({ ...newPlayer, name: e.target.value })}
+                      fullWidth
+                    />
+                    <FormControl sx={{ minWidth: 120 }}>
+                      <InputLabel>Skill Level</InputLabel>
+                      <Select
+                        value={newPlayer.skillLevel}
+                        onChange={(e) => setNewPlayer({ ...newPlayer, skillLevel: e.target.value })}
+                        label="Skill Level"
+                      >
+                        <MenuItem value="beginner">Beginner</MenuItem>
+                        <MenuItem value="intermediate">Intermediate</MenuItem>
+                        <MenuItem value="advanced">Advanced</MenuItem>
+                      </Select>
+                    </FormControl>
+                  </Box>
+                  <Button
+                    variant="contained"
+                    startIcon={<Add />}
+                    onClick={handleAddPlayer}
+                    disabled={loading || !newPlayer.name.trim()}
+                    fullWidth
+                  >
+                    Add Player
+                  </Button>
+                </CardContent>
+              </Card>
+            </Box>
+
+            {/* Tournament Creation */}
+            <Box sx={{ flex: 1, minWidth: 300 }}>
+              <Card>
+                <CardContent>
+                  <Typography variant="h6" gutterBottom>
+                    Create Tournament
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                    Select players for the next tournament (minimum 4 players required)
+                  </Typography>
                   <TextField
-                    label="Player Name"
-                    value={newPlayer.name}
-                    onChange={(e) => setNewPlayer({ ...newPlayer, name: e.target.value })}
+                    label="Tournament Name"
+                    value={tournamentName}
+                    onChange={(e) => setTournamentName(e.target.value)}
+                    placeholder="Named after the format and date when left empty"
                     fullWidth
+                    sx={{ mb: 2 }}
                   />
-                  <FormControl sx={{ minWidth: 120 }}>
-                    <InputLabel>Skill Level</InputLabel>
+                  <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+                    <TextField
+                      label="Matches per Player"
+                      type="number"
+                      value={matchesEach}
+                      onChange={(e) => setMatchesPerPlayer(clampMatchesPerPlayer(e.target.value))}
+                      inputProps={{ min: MIN_MATCHES_PER_PLAYER, max: MAX_MATCHES_PER_PLAYER, step: 1 }}
+                      disabled={isAmericano}
+                      helperText={isAmericano ? 'Set by Americano' : undefined}
+                      sx={{ width: 150 }}
+                    />
+                    <TextField
+                      label="Courts"
+                      type="number"
+                      value={courts}
+                      onChange={(e) => setCourts(parseInt(e.target.value) || 1)}
+                      inputProps={{ min: 1, max: 12 }}
+                      sx={{ width: 100 }}
+                    />
+                    <Typography variant="body2" color="text.secondary" sx={{ alignSelf: 'center' }}>
+                      Each player will play {isAmericano ? '' : 'approximately '}{matchesEach} matches, {courts} at a time
+                    </Typography>
+                  </Box>
+                  <FormControl fullWidth sx={{ mb: 2 }}>
+                    <InputLabel>Tournament Format</InputLabel>
                     <Select
-                      value={newPlayer.skillLevel}
-                      onChange={(e) => setNewPlayer({ ...newPlayer, skillLevel: e.target.value })}
-                      label="Skill Level"
+                      value={format}
+                      onChange={(e) => setFormat(e.target.value as TournamentFormat)}
+                      label="Tournament Format"
                     >
-                      <MenuItem value="beginner">Beginner</MenuItem>
-                      <MenuItem value="intermediate">Intermediate</MenuItem>
-                      <MenuItem value="advanced">Advanced</MenuItem>
+                      {Object.entries(TOURNAMENT_FORMATS).map(([key, option]) => (
+                        <MenuItem key={key} value={key}>{option.label}</MenuItem>
+                      ))}
                     </Select>
+                    <FormHelperText>{TOURNAMENT_FORMATS[format].description}</FormHelperText>
                   </FormControl>
-                </Box>
-                <Button
-                  variant="contained"
-                  startIcon={<Add />}
-                  onClick={handleAddPlayer}
-                  disabled={loading || !newPlayer.name.trim()}
-                  fullWidth
-                >
-                  Add Player
-                </Button>
-              </CardContent>
-            </Card>
-          </Box>
-
-          {/* Tournament Creation */}
-          <Box sx={{ flex: 1, minWidth: 300 }}>
-            <Card>
-              <CardContent>
-                <Typography variant="h6" gutterBottom>
-                  Create Tournament
-                </Typography>
-                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-                  Select players for the next tournament (minimum 4 players required)
-                </Typography>
-                <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
-                  <TextField
-                    label="Matches per Player"
-                    type="number"
-                    value={matchesPerPlayer}
-                    onChange={(e) => setMatchesPerPlayer(parseInt(e.target.value) || 6)}
-                    inputProps={{ min: 2, max: 12 }}
-                    sx={{ width: 150 }}
-                  />
-                  <Typography variant="body2" color="text.secondary" sx={{ alignSelf: 'center' }}>
-                    Each player will play approximately {matchesPerPlayer} matches
-                  </Typography>
-                </Box>
-                <Button
-                  variant="contained"
-                  color="secondary"
-                  onClick={handleCreateTournament}
-                  disabled={selectedPlayers.length < 4 || loading}
-                  fullWidth
-                >
-                  Create Tournament ({selectedPlayers.length} players selected)
-                </Button>
-                {selectedPlayers.length < 4 && selectedPlayers.length > 0 && (
-                  <Typography variant="caption" color="error" sx={{ mt: 1, display: 'block' }}>
-                    Need at least 4 players for a tournament
-                  </Typography>
-                )}
-              </CardContent>
-            </Card>
+                  <FormControl fullWidth sx={{ mb: 2 }}>
+                    <InputLabel>Match Format</InputLabel>
+                    <Select
+                      value={scoringPreset}
+                      onChange={(e) => setScoringPreset(e.target.value)}
+                      label="Match Format"
+                    >
+                      {Object.entries(SCORING_PRESETS).map(([key, preset]) => (
+                        <MenuItem key={key} value={key}>{preset.label}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  <FormControl fullWidth sx={{ mb: 2 }}>
+                    <InputLabel>Standings Tiebreakers</InputLabel>
+                    <Select
+                      value={tiebreakerPreset}
+                      onChange={(e) => setTiebreakerPreset(e.target.value)}
+                      label="Standings Tiebreakers"
+                    >
+                      {Object.entries(TIEBREAKER_PRESETS).map(([key, preset]) => (
+                        <MenuItem key={key} value={key}>{preset.label}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  <Button
+                    variant="contained"
+                    color="secondary"
+                    onClick={handleCreateTournament}
+                    disabled={selectedPlayers.length < 4 || loading}
+                    fullWidth
+                  >
+                    Create Tournament ({selectedPlayers.length} players selected)
+                  </Button>
+                  {selectedPlayers.length < 4 && selectedPlayers.length > 0 && (
+                    <Typography variant="caption" color="error" sx={{ mt: 1, display: 'block' }}>
+                      Need at least 4 players for a tournament
+                    </Typography>
+                  )}
+                </CardContent>
+              </Card>
+            </Box>
           </Box>
-        </Box>
+        ) : (
+          <Alert severity="info">Sign in as an organiser to add players or create a tournament.</Alert>
+        )}
 
         {/* Players List */}
         <Card>
           <CardContent>
-            <Typography variant="h6" gutterBottom>
-              Players ({players.length})
-            </Typography>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              <Typography variant="h6" sx={{ flexGrow: 1 }}>
+                Players ({players.length})
+              </Typography>
+              {canEdit && (
+                <Button size="small" startIcon={<UploadFile />} onClick={() => setImportDialog(true)}>
+                  Import
+                </Button>
+              )}
+              {club && (['csv', 'json'] as const).map(exportFormat => (
+                <Button
+                  key={exportFormat}
+                  size="small"
+                  startIcon={<Download />}
+                  href={playerService.getExportUrl(club.id, exportFormat)}
+                  disabled={players.length === 0}
+                >
+                  {exportFormat.toUpperCase()}
+                </Button>
+              ))}
+            </Box>
             <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
               <Button
                 variant="outlined"
@@ -270,6 +466,8 @@ const PlayerManagement: React.FC = () => {
                         backgroundColor: selectedPlayers.includes(player.id) ? 'action.selected' : 'transparent',
                         borderRadius: 1,
                         mb: 1,
+                        // Room for the edit and delete buttons
+                        pr: canEdit ? 12 : undefined,
                         cursor: 'pointer',
                         '&:hover': {
                           backgroundColor: 'action.hover',
@@ -285,7 +483,42 @@ const PlayerManagement: React.FC = () => {
                         />
                       </ListItemIcon>
                       <ListItemText
-                        primary={player.name}
+                        primary={
+                          editingPlayer?.id === player.id ? (
+                            <Box sx={{ display: 'flex', gap: 1 }} onClick={(e) => e.stopPropagation()}>
+                              <TextField
+                                size="small"
+                                label="Name"
+                                value={editingPlayer.name}
+                                onChange={(e) => setEditingPlayer({ ...editingPlayer, name: e.target.value })}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter' && editingPlayer.name.trim()) handleSavePlayer();
+                                  if (e.key === 'Escape') setEditingPlayer(null);
+                                }}
+                                autoFocus
+                              />
+                              <Select
+                                size="small"
+                                value={editingPlayer.skillLevel}
+                                onChange={(e) => setEditingPlayer({ ...editingPlayer, skillLevel: e.target.value })}
+                              >
+                                <MenuItem value="beginner">Beginner</MenuItem>
+                                <MenuItem value="intermediate">Intermediate</MenuItem>
+                                <MenuItem value="advanced">Advanced</MenuItem>
+                              </Select>
+                            </Box>
+                          ) : (
+                            <Link
+                              component={RouterLink}
+                              to={`/players/${player.id}`}
+                              onClick={(e: React.MouseEvent) => e.stopPropagation()}
+                              underline="hover"
+                              color="inherit"
+                            >
+                              {player.name}
+                            </Link>
+                          )
+                        }
                         secondary={
                           <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
                             <Chip
@@ -298,6 +531,7 @@ const PlayerManagement: React.FC = () => {
                               variant="outlined"
                               size="small"
                             />
+                            <RatingTrend rating={player.rating} history={player.ratingHistory} />
                             {selectedPlayers.includes(player.id) && (
                               <Chip
                                 label="Playing Tournament"
@@ -309,18 +543,57 @@ const PlayerManagement: React.FC = () => {
                           </Box>
                         }
                       />
-                      <ListItemSecondaryAction>
-                        <IconButton
-                          edge="end"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleDeletePlayer(player.id);
-                          }}
-                          color="error"
-                        >
-                          <Delete />
-                        </IconButton>
-                      </ListItemSecondaryAction>
+                      {canEdit && (
+                        <ListItemSecondaryAction>
+                          {editingPlayer?.id === player.id ? (
+                            <>
+                              <IconButton
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleSavePlayer();
+                                }}
+                                disabled={loading || !editingPlayer.name.trim()}
+                                color="primary"
+                                title="Save"
+                              >
+                                <Check />
+                              </IconButton>
+                              <IconButton
+                                edge="end"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setEditingPlayer(null);
+                                }}
+                                title="Cancel"
+                              >
+                                <Close />
+                              </IconButton>
+                            </>
+                          ) : (
+                            <>
+                              <IconButton
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setEditingPlayer({ id: player.id, name: player.name, skillLevel: player.skillLevel });
+                                }}
+                                title="Edit"
+                              >
+                                <Edit />
+                              </IconButton>
+                              <IconButton
+                                edge="end"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleDeletePlayer(player.id);
+                                }}
+                                color="error"
+                              >
+                                <Delete />
+                              </IconButton>
+                            </>
+                          )}
+                        </ListItemSecondaryAction>
+                      )}
                     </ListItem>
                     {index < players.length - 1 && <Divider />}
                   </React.Fragment>
@@ -329,21 +602,169 @@ const PlayerManagement: React.FC = () => {
             )}
           </CardContent>
         </Card>
+
+        {archivedPlayers.length > 0 && (
+          <Card>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>
+                Archived Players ({archivedPlayers.length})
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                Removed players who have played keep their name in past results but cannot join new tournaments.
+              </Typography>
+              <List dense>
+                {archivedPlayers.map(player => (
+                  <ListItem key={player.id}>
+                    <ListItemText
+                      primary={
+                        <Link component={RouterLink} to={`/players/${player.id}`} underline="hover" color="inherit">
+                          {player.name}
+                        </Link>
+                      }
+                      secondary={`${player.matchesWon}/${player.matchesPlayed} wins`}
+                    />
+                    {canEdit && (
+                      <Button size="small" onClick={() => handleRestorePlayer(player.id)} disabled={loading}>
+                        Restore
+                      </Button>
+                    )}
+                  </ListItem>
+                ))}
+              </List>
+            </CardContent>
+          </Card>
+        )}
       </Box>
 
+      {club && (
+        <RosterImportDialog
+          clubId={club.id}
+          open={importDialog}
+          onClose={() => setImportDialog(false)}
+          onImported={handlePlayersImported}
+        />
+      )}
+
       {/* Create Tournament Confirmation Dialog */}
       <Dialog open={createTournamentDialog} onClose={() => setCreateTournamentDialog(false)}>
         <DialogTitle>Create Tournament</DialogTitle>
         <DialogContent>
-          <Typography>
-            Are you sure you want to create a tournament with {selectedPlayers.length} players?
-            Each player will play approximately {matchesPerPlayer} matches.
-            The AI will automatically create balanced teams and generate fixtures.
+          <Typography sx={{ mb: 2 }}>
+            Are you sure you want to create a {TOURNAMENT_FORMATS[format].label.toLowerCase()} tournament with {selectedPlayers.length} players?
+            {isAmericano
+              ? ` Everyone partners everyone once, so each player plays ${matchesEach} matches`
+              : isKnockout
+              ? ` Players are paired by rating into ${Math.floor(selectedPlayers.length / 2)} pairs`
+              : ` Each player will play approximately ${matchesPerPlayer} matches`}
+            {' '}({SCORING_PRESETS[scoringPreset].label.toLowerCase()}).
           </Typography>
+          <Box sx={{ display: 'flex', gap: 2, mb: 2, pt: 1 }}>
+            {format === 'teams' && (
+              <TextField
+                label="Teams"
+                type="number"
+                value={teamCount}
+                onChange={(e) => {
+                  const count = Math.min(MAX_TEAM_COUNT, Math.max(2, parseInt(e.target.value) || 2));
+                  setTeamCount(count);
+                  setManualAssignments(
+                    Object.fromEntries(selectedPlayers.map((id, index) => [id, `team${(index % count) + 1}`]))
+                  );
+                }}
+                inputProps={{ min: 2, max: MAX_TEAM_COUNT }}
+                sx={{ width: 100 }}
+              />
+            )}
+            {format === 'teams' && (
+              <FormControl fullWidth>
+                <InputLabel>Team Formation</InputLabel>
+                <Select
+                  value={teamStrategy}
+                  onChange={(e) => setTeamStrategy(e.target.value as TeamStrategy)}
+                  label="Team Formation"
+                >
+                  <MenuItem value="ai">AI, skill balancer as fallback</MenuItem>
+                  <MenuItem value="balanced">Skill balancer (works offline)</MenuItem>
+                  <MenuItem value="random">Random draw</MenuItem>
+                  <MenuItem value="manual">Pick teams manually</MenuItem>
+                </Select>
+              </FormControl>
+            )}
+            {format === 'groupsKnockout' && (
+              <>
+                <TextField
+                  label="Groups"
+                  type="number"
+                  value={groupCount}
+                  onChange={(e) => setGroupCount(e.target.value)}
+                  helperText="Optional, about 4 pairs each"
+                  inputProps={{ min: 1 }}
+                  sx={{ width: 150 }}
+                />
+                <TextField
+                  label="Advancing per group"
+                  type="number"
+                  value={advancePerGroup}
+                  onChange={(e) => setAdvancePerGroup(e.target.value)}
+                  inputProps={{ min: 1 }}
+                  sx={{ width: 170 }}
+                />
+              </>
+            )}
+            {!usesManualTeams && !isKnockout && (
+              <TextField
+                label="Seed"
+                type="number"
+                value={teamSeed}
+                onChange={(e) => setTeamSeed(e.target.value)}
+                helperText={format === 'teams' ? 'Optional, repeats a split' : 'Optional, repeats a rotation'}
+                inputProps={{ min: 0 }}
+                sx={{ width: 150 }}
+              />
+            )}
+          </Box>
+          {usesManualTeams && (
+            <List dense>
+              {selectedPlayers.map(id => (
+                <ListItem key={id}>
+                  <ListItemText primary={players.find(p => p.id === id)?.name || 'Unknown Player'} />
+                  <ToggleButtonGroup
+                    value={manualAssignments[id]}
+                    exclusive
+                    size="small"
+                    onChange={(_, team) => team && setManualAssignments({ ...manualAssignments, [id]: team })}
+                  >
+                    {teamKeys.map(key => (
+                      <ToggleButton key={key} value={key}>{getTeamLabel(key)}</ToggleButton>
+                    ))}
+                  </ToggleButtonGroup>
+                </ListItem>
+              ))}
+            </List>
+          )}
+          {(manualTeamsIncomplete || tooManyTeams) && (
+            <Typography variant="caption" color="error">
+              Each team needs at least 2 players
+            </Typography>
+          )}
+          {needsEvenPlayers && (
+            <Typography variant="caption" color="error">
+              Select an even number of players so everyone has a partner
+            </Typography>
+          )}
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setCreateTournamentDialog(false)}>Cancel</Button>
-          <Button onClick={confirmCreateTournament} variant="contained" disabled={loading}>
+          <Button
+            onClick={confirmCreateTournament}
+            variant="contained"
+            disabled={
+              loading ||
+              needsEvenPlayers ||
+              tooManyTeams ||
+              manualTeamsIncomplete
+            }
+          >
             Create Tournament
           </Button>
         </DialogActions>
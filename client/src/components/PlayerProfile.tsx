@@ -0,0 +1,243 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Alert,
+  Chip,
+  Link,
+  List,
+  ListItem,
+  ListItemText,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+} from '@mui/material';
+import { Person } from '@mui/icons-material';
+import { Link as RouterLink, useParams } from 'react-router-dom';
+import { PlayerMatch, PlayerProfile as PlayerProfileType, WinRatePoint } from '../types';
+import { playerService } from '../services/api';
+import { useLiveUpdates } from '../hooks/useLiveUpdates';
+import { formatGames } from '../utils/scoring';
+import RatingTrend from './RatingTrend';
+
+// Partners shown, most frequent first
+const TOP_PARTNERS = 5;
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+// Running win rate after each match, on a fixed 0-100% scale
+const WinRateChart: React.FC<{ points: WinRatePoint[] }> = ({ points }) => {
+  const x = (index: number) => (points.length > 1 ? (index / (points.length - 1)) * CHART_WIDTH : CHART_WIDTH / 2);
+  const y = (winRate: number) => CHART_HEIGHT - (winRate / 100) * CHART_HEIGHT;
+  const path = points
+    .map((point, index) => `${index === 0 ? 'M' : 'L'}${x(index).toFixed(1)},${y(point.winRate).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <Box sx={{ color: 'primary.main' }}>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        width="100%"
+        height={CHART_HEIGHT}
+        preserveAspectRatio="none"
+        aria-label="Win rate over time"
+      >
+        <line x1={0} x2={CHART_WIDTH} y1={y(50)} y2={y(50)} stroke="#ccc" strokeDasharray="4 4" />
+        <path d={path} fill="none" stroke="currentColor" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        {points.map((point, index) => (
+          <circle key={index} cx={x(index)} cy={y(point.winRate)} r={3} fill="currentColor">
+            <title>
+              {`${new Date(point.playedAt).toLocaleDateString()}: ${point.winRate}% (${point.wins}/${point.played})`}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+        <Typography variant="caption" color="text.secondary">
+          {new Date(points[0].playedAt).toLocaleDateString()}
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          Dashed line: 50%
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          {new Date(points[points.length - 1].playedAt).toLocaleDateString()}
+        </Typography>
+      </Box>
+    </Box>
+  );
+};
+
+// Everything a player has played across their club's tournaments
+const PlayerProfile: React.FC = () => {
+  const { playerId = '' } = useParams<{ playerId: string }>();
+  const [profile, setProfile] = useState<PlayerProfileType | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadProfile();
+  }, [playerId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useLiveUpdates({ clubId: profile?.player.clubId }, events => {
+    if (events.some(event => event.type === 'resync' || event.type.startsWith('score.'))) {
+      loadProfile();
+    }
+  });
+
+  const loadProfile = async () => {
+    try {
+      setError(null);
+      setProfile(await playerService.getProfile(playerId));
+    } catch (err) {
+      setError('Failed to load player');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getPlayerName = (id: string) => profile?.players.find(p => p.id === id)?.name || 'Unknown Player';
+
+  const renderPlayers = (ids: string[]) =>
+    ids.length === 0
+      ? '—'
+      : ids.map((id, index) => (
+          <React.Fragment key={id}>
+            {index > 0 && ' & '}
+            <Link component={RouterLink} to={`/players/${id}`}>{getPlayerName(id)}</Link>
+          </React.Fragment>
+        ));
+
+  // Scores read from the player's side of the net
+  const formatScore = (match: PlayerMatch) =>
+    formatGames(match.side === 'team1' ? match.games : match.games.map(game => ({ team1: game.team2, team2: game.team1 })));
+
+  if (!profile) {
+    return (
+      <Box>
+        <Typography variant="h4" gutterBottom>
+          <Person sx={{ mr: 1, verticalAlign: 'middle' }} />
+          Player
+        </Typography>
+        {error && <Alert severity="error">{error}</Alert>}
+        {!loading && !error && <Alert severity="info">Player not found.</Alert>}
+      </Box>
+    );
+  }
+
+  const { player, matches, partners } = profile;
+
+  return (
+    <Box>
+      <Typography variant="h4" gutterBottom>
+        <Person sx={{ mr: 1, verticalAlign: 'middle' }} />
+        {player.name}
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap', mb: 3 }}>
+        <Chip label={player.skillLevel} size="small" />
+        {player.archivedAt && <Chip label="Archived" color="warning" size="small" />}
+        <Chip label={`${profile.wins}/${profile.played} wins`} variant="outlined" size="small" />
+        <Chip label={`${profile.winRate}% win rate`} variant="outlined" size="small" />
+        <RatingTrend rating={player.rating} history={player.ratingHistory} />
+      </Box>
+
+      {matches.length === 0 ? (
+        <Alert severity="info">{player.name} has not completed a match yet.</Alert>
+      ) : (
+        <>
+          <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap', mb: 3 }}>
+            <Card sx={{ flex: 2, minWidth: 300 }}>
+              <CardContent>
+                <Typography variant="h6" gutterBottom>
+                  Win Rate Over Time
+                </Typography>
+                <WinRateChart points={profile.winRateTrend} />
+              </CardContent>
+            </Card>
+            <Card sx={{ flex: 1, minWidth: 240 }}>
+              <CardContent>
+                <Typography variant="h6" gutterBottom>
+                  Most Frequent Partners
+                </Typography>
+                {partners.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    No partnered matches yet.
+                  </Typography>
+                ) : (
+                  <List dense>
+                    {partners.slice(0, TOP_PARTNERS).map(record => (
+                      <ListItem key={record.playerId} disableGutters>
+                        <ListItemText
+                          primary={renderPlayers([record.playerId])}
+                          secondary={`${record.played} played · ${record.wins}-${record.losses} · ${record.winRate}%`}
+                        />
+                      </ListItem>
+                    ))}
+                  </List>
+                )}
+              </CardContent>
+            </Card>
+          </Box>
+
+          <Card>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>
+                Matches ({matches.length})
+              </Typography>
+              <Box sx={{ overflowX: 'auto' }}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Date</TableCell>
+                      <TableCell>Tournament</TableCell>
+                      <TableCell>Partner</TableCell>
+                      <TableCell>Opponents</TableCell>
+                      <TableCell>Score</TableCell>
+                      <TableCell>Result</TableCell>
+                      <TableCell align="right">Rating</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {[...matches].reverse().map(match => (
+                      <TableRow key={match.fixtureId}>
+                        <TableCell>{new Date(match.playedAt).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          <Link component={RouterLink} to={`/tournaments/${match.tournamentId}/results`}>
+                            {match.tournamentName || 'Tournament'}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{renderPlayers(match.partnerIds)}</TableCell>
+                        <TableCell>{renderPlayers(match.opponentIds)}</TableCell>
+                        <TableCell>{formatScore(match)}</TableCell>
+                        <TableCell>
+                          <Chip
+                            label={match.won ? 'Won' : 'Lost'}
+                            color={match.won ? 'success' : 'default'}
+                            size="small"
+                            variant="outlined"
+                          />
+                        </TableCell>
+                        <TableCell align="right">
+                          {match.ratingChange === null ? '—' : `${match.ratingChange > 0 ? '+' : ''}${match.ratingChange}`}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Box>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default PlayerProfile;
@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  FormControlLabel,
+  Checkbox,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+} from '@mui/material';
+import { Print, ArrowBack } from '@mui/icons-material';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Fixture, Player, Tournament } from '../types';
+import { tournamentService, playerService } from '../services/api';
+import { DEFAULT_SCORING_RULES, describeScoringRules, formatGames } from '../utils/scoring';
+import { getTeamLabel, getFixtureTeamKeys } from '../utils/teams';
+
+const cellSx = { border: '1px solid #000', py: 0.5, px: 1 };
+const boxSx = { border: '1px solid #000', width: 56, height: 40 };
+
+// Paper copies for venues without signal: a wall chart of every match and a
+// scorecard per match. Match numbers are the ones on the dashboard, so results
+// can be typed back into its score dialog.
+const PrintSheets: React.FC = () => {
+  const { tournamentId = '' } = useParams<{ tournamentId: string }>();
+  const navigate = useNavigate();
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showWallChart, setShowWallChart] = useState(true);
+  const [showScorecards, setShowScorecards] = useState(true);
+  const [pendingOnly, setPendingOnly] = useState(true);
+
+  useEffect(() => {
+    loadData();
+  }, [tournamentId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const loadData = async () => {
+    try {
+      const tournamentData = await tournamentService.getTournament(tournamentId);
+      setTournament(tournamentData);
+      setPlayers(tournamentData ? await playerService.getPlayers(tournamentData.clubId, true) : []);
+    } catch (err) {
+      setError('Failed to load the tournament');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!tournament) {
+    return (
+      <Box>
+        {error && <Alert severity="error">{error}</Alert>}
+        {!loading && !error && <Alert severity="info">Tournament not found.</Alert>}
+      </Box>
+    );
+  }
+
+  const rules = tournament.scoringRules || DEFAULT_SCORING_RULES;
+  const title = tournament.name || 'Badminton Tournament';
+  const scorecardFixtures = tournament.fixtures.filter(f => !pendingOnly || f.status === 'pending');
+
+  const getPlayerName = (playerId: string) => players.find(p => p.id === playerId)?.name || 'Unknown Player';
+
+  // Team leagues say which team each pair plays for
+  const getSideLabel = (fixture: Fixture, index: 0 | 1) => {
+    const names = fixture[index === 0 ? 'team1' : 'team2'].map(getPlayerName).join(' & ');
+    return tournament.teams ? `${getTeamLabel(getFixtureTeamKeys(fixture)[index])}: ${names}` : names;
+  };
+
+  const getMatchDetails = (fixture: Fixture) =>
+    [
+      fixture.round && `Round ${fixture.round}`,
+      fixture.court && `Court ${fixture.court}`,
+      fixture.group && `Group ${fixture.group}`,
+    ].filter(Boolean).join(' · ');
+
+  const renderScorecard = (fixture: Fixture) => (
+    <Box key={fixture.id} sx={{ border: '2px solid #000', p: 2, mb: 3, breakInside: 'avoid', pageBreakInside: 'avoid' }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="h6">Match {fixture.matchNumber}</Typography>
+        <Typography variant="subtitle1">{getMatchDetails(fixture)}</Typography>
+      </Box>
+      <Typography variant="caption" sx={{ display: 'block', mb: 1 }}>
+        {title} · {describeScoringRules(rules)}
+      </Typography>
+      <Table size="small" sx={{ mb: 2 }}>
+        <TableHead>
+          <TableRow>
+            <TableCell sx={cellSx} />
+            {Array.from({ length: rules.bestOf }, (_, index) => (
+              <TableCell key={index} sx={cellSx} align="center">Game {index + 1}</TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {([0, 1] as const).map(index => (
+            <TableRow key={index}>
+              <TableCell sx={cellSx}>{getSideLabel(fixture, index)}</TableCell>
+              {Array.from({ length: rules.bestOf }, (_, game) => (
+                <TableCell key={game} sx={cellSx} align="center">
+                  <Box sx={{ ...boxSx, mx: 'auto' }} />
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <Box sx={{ display: 'flex', gap: 3 }}>
+        {['Winner', 'Umpire', 'Team 1 signature', 'Team 2 signature'].map(label => (
+          <Box key={label} sx={{ flex: 1 }}>
+            <Box sx={{ borderBottom: '1px solid #000', height: 32 }} />
+            <Typography variant="caption">{label}</Typography>
+          </Box>
+        ))}
+      </Box>
+    </Box>
+  );
+
+  return (
+    <Box sx={{ '@media print': { '& *': { color: '#000 !important' } } }}>
+      <Box sx={{ displayPrint: 'none', mb: 3 }}>
+        <Typography variant="h4" gutterBottom>
+          <Print sx={{ mr: 1, verticalAlign: 'middle' }} />
+          Print Score Sheets
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+          <FormControlLabel
+            control={<Checkbox checked={showWallChart} onChange={(e) => setShowWallChart(e.target.checked)} />}
+            label="Wall chart"
+          />
+          <FormControlLabel
+            control={<Checkbox checked={showScorecards} onChange={(e) => setShowScorecards(e.target.checked)} />}
+            label="Scorecards"
+          />
+          <FormControlLabel
+            control={<Checkbox checked={pendingOnly} onChange={(e) => setPendingOnly(e.target.checked)} />}
+            label="Scorecards for unplayed matches only"
+            disabled={!showScorecards}
+          />
+          <Button variant="contained" startIcon={<Print />} onClick={() => window.print()}>
+            Print
+          </Button>
+          <Button variant="outlined" startIcon={<ArrowBack />} onClick={() => navigate(`/tournaments/${tournamentId}`)}>
+            Back to Dashboard
+          </Button>
+        </Box>
+      </Box>
+
+      {showWallChart && (
+        <Box sx={{ mb: 4, breakAfter: showScorecards ? 'page' : 'auto', pageBreakAfter: showScorecards ? 'always' : 'auto' }}>
+          <Typography variant="h5" gutterBottom>
+            {title} · Fixtures
+          </Typography>
+          <Typography variant="caption" sx={{ display: 'block', mb: 1 }}>
+            {describeScoringRules(rules)}. Write each result in the Result column.
+          </Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={cellSx}>Match</TableCell>
+                <TableCell sx={cellSx}>Round</TableCell>
+                <TableCell sx={cellSx}>Court</TableCell>
+                <TableCell sx={cellSx}>Side 1</TableCell>
+                <TableCell sx={cellSx}>Side 2</TableCell>
+                <TableCell sx={{ ...cellSx, width: 140 }}>Result</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {tournament.fixtures.map(fixture => (
+                <TableRow key={fixture.id} sx={{ breakInside: 'avoid', pageBreakInside: 'avoid' }}>
+                  <TableCell sx={cellSx}>{fixture.matchNumber}</TableCell>
+                  <TableCell sx={cellSx}>{fixture.round || ''}</TableCell>
+                  <TableCell sx={cellSx}>{fixture.court || ''}</TableCell>
+                  <TableCell sx={cellSx}>{getSideLabel(fixture, 0)}</TableCell>
+                  <TableCell sx={cellSx}>{getSideLabel(fixture, 1)}</TableCell>
+                  <TableCell sx={cellSx}>
+                    {fixture.status === 'completed' ? formatGames(fixture.games) || `${fixture.team1Score}-${fixture.team2Score}` : ''}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Box>
+      )}
+
+      {showScorecards && (
+        scorecardFixtures.length === 0 ? (
+          <Alert severity="info" sx={{ displayPrint: 'none' }}>Every match already has a result.</Alert>
+        ) : (
+          scorecardFixtures.map(renderScorecard)
+        )
+      )}
+    </Box>
+  );
+};
+
+export default PrintSheets;
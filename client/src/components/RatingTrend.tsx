@@ -0,0 +1,59 @@
+import React from 'react';
+import { Box, Chip } from '@mui/material';
+import { TrendingUp, TrendingDown, TrendingFlat } from '@mui/icons-material';
+import { RatingEntry } from '../types';
+
+interface RatingTrendProps {
+  rating: number;
+  history?: RatingEntry[];
+  // Number of most recent rated matches the trend is taken over
+  window?: number;
+}
+
+const SPARKLINE_WIDTH = 60;
+const SPARKLINE_HEIGHT = 18;
+
+const RatingTrend: React.FC<RatingTrendProps> = ({ rating, history = [], window = 5 }) => {
+  const recent = history.slice(-window);
+  const trend = recent.reduce((sum, entry) => sum + entry.change, 0);
+  const icon = trend > 0 ? <TrendingUp /> : trend < 0 ? <TrendingDown /> : <TrendingFlat />;
+  const color = trend > 0 ? 'success' : trend < 0 ? 'error' : 'default';
+
+  // Rating after each of the last 20 rated matches
+  const points = history.length > 1
+    ? history.slice(-20).map(entry => entry.rating)
+    : [];
+  const min = Math.min(...points);
+  const max = Math.max(...points);
+  const path = points
+    .map((value, index) => {
+      const x = (index / (points.length - 1)) * SPARKLINE_WIDTH;
+      const y = max === min ? SPARKLINE_HEIGHT / 2 : SPARKLINE_HEIGHT - ((value - min) / (max - min)) * SPARKLINE_HEIGHT;
+      return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <Box component="span" sx={{ display: 'inline-flex', alignItems: 'center', gap: 1 }}>
+      <Chip
+        icon={icon}
+        label={`${Math.round(rating)}${recent.length > 0 ? ` (${trend > 0 ? '+' : ''}${Math.round(trend)})` : ''}`}
+        color={color}
+        variant="outlined"
+        size="small"
+        title={
+          recent.length > 0
+            ? `Last ${recent.length} rated matches: ${recent.map(entry => `${entry.change > 0 ? '+' : ''}${entry.change}`).join(', ')}`
+            : 'No rated matches yet'
+        }
+      />
+      {path && (
+        <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} aria-label="Rating trend">
+          <path d={path} fill="none" stroke="currentColor" strokeWidth={1.5} />
+        </svg>
+      )}
+    </Box>
+  );
+};
+
+export default RatingTrend;
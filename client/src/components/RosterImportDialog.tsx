@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Typography,
+  List,
+  ListItem,
+  ListItemText,
+  Chip,
+} from '@mui/material';
+import { UploadFile } from '@mui/icons-material';
+import { Player, RosterFormat, RosterImportResult } from '../types';
+import { playerService } from '../services/api';
+
+// Why a duplicate line is skipped
+const DUPLICATE_REASONS: Record<RosterImportResult['duplicates'][number]['duplicateOf'], string> = {
+  roster: 'already on the roster',
+  archived: 'matches an archived player',
+  file: 'repeats an earlier line',
+};
+
+interface RosterImportDialogProps {
+  clubId: string;
+  open: boolean;
+  onClose: () => void;
+  onImported: (players: Player[]) => void;
+}
+
+// Picks a CSV or JSON roster, previews it against the club's players and
+// imports only the new ones
+const RosterImportDialog: React.FC<RosterImportDialogProps> = ({ clubId, open, onClose, onImported }) => {
+  const [file, setFile] = useState<{ name: string; format: RosterFormat; content: string } | null>(null);
+  const [preview, setPreview] = useState<RosterImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = '';
+    if (!picked) return;
+
+    reset();
+    const format: RosterFormat = picked.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+    try {
+      setLoading(true);
+      const content = await picked.text();
+      setFile({ name: picked.name, format, content });
+      setPreview(await playerService.importPlayers(clubId, format, content, true));
+    } catch (err) {
+      setError('Failed to read the roster. Check it is a CSV or JSON file with name and skillLevel for each player.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    try {
+      setLoading(true);
+      const result = await playerService.importPlayers(clubId, file.format, file.content, false);
+      onImported(result.created);
+      handleClose();
+    } catch (err) {
+      setError('Failed to import players');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Import Players</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          CSV files need a header row with name and skillLevel columns; rating, matchesPlayed and matchesWon are
+          optional. JSON files are a list of players with the same fields, as exported from another club.
+        </Typography>
+        <Button component="label" variant="outlined" startIcon={<UploadFile />} disabled={loading}>
+          {file ? file.name : 'Choose File'}
+          <input type="file" accept=".csv,.json,text/csv,application/json" hidden onChange={handleFileChange} />
+        </Button>
+
+        {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+
+        {preview && (
+          <Box sx={{ mt: 2 }}>
+            <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+              <Chip label={`${preview.additions.length} new`} color="success" size="small" />
+              <Chip label={`${preview.duplicates.length} duplicates`} color={preview.duplicates.length ? 'warning' : 'default'} size="small" />
+              <Chip label={`${preview.invalid.length} invalid`} color={preview.invalid.length ? 'error' : 'default'} size="small" />
+            </Box>
+            <List dense sx={{ maxHeight: 320, overflowY: 'auto' }}>
+              {preview.additions.map(entry => (
+                <ListItem key={`add-${entry.row}`} disableGutters>
+                  <ListItemText
+                    primary={entry.name}
+                    secondary={`Line ${entry.row} · ${entry.skillLevel}${entry.matchesPlayed ? ` · ${entry.matchesWon}/${entry.matchesPlayed} wins` : ''}`}
+                  />
+                </ListItem>
+              ))}
+              {preview.duplicates.map(entry => (
+                <ListItem key={`dup-${entry.row}`} disableGutters>
+                  <ListItemText
+                    primary={entry.name}
+                    secondary={`Line ${entry.row} · skipped, ${DUPLICATE_REASONS[entry.duplicateOf]}`}
+                    slotProps={{ primary: { color: 'text.secondary' } }}
+                  />
+                </ListItem>
+              ))}
+              {preview.invalid.map(entry => (
+                <ListItem key={`bad-${entry.row}`} disableGutters>
+                  <ListItemText
+                    primary={`Line ${entry.row}`}
+                    secondary={`Skipped, ${entry.error}`}
+                    slotProps={{ primary: { color: 'error' } }}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Cancel</Button>
+        <Button
+          onClick={handleImport}
+          variant="contained"
+          disabled={loading || !preview || preview.additions.length === 0}
+        >
+          Import {preview ? preview.additions.length : ''} Players
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RosterImportDialog;
@@ -22,46 +22,124 @@ import {
   Divider,
   Paper,
   IconButton,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Checkbox,
 } from '@mui/material';
-import { Sports, EmojiEvents, Score, Refresh, SwapHoriz } from '@mui/icons-material';
-import { useNavigate } from 'react-router-dom';
-import { Tournament, Player, Fixture } from '../types';
-import { tournamentService, playerService } from '../services/api';
+import { Sports, EmojiEvents, Score, Refresh, SwapHoriz, Edit, Undo, PersonAdd, PersonRemove, Print } from '@mui/icons-material';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Tournament, Player, Fixture, Standing, GroupStandings, TeamStats, ClubMember } from '../types';
+import { tournamentService, playerService, clubService } from '../services/api';
+import { DEFAULT_SCORING_RULES, validateMatch, countGamesWon, formatGames, describeScoringRules } from '../utils/scoring';
+import { TOURNAMENT_FORMATS, MIN_MATCHES_PER_PLAYER, MAX_MATCHES_PER_PLAYER, clampMatchesPerPlayer, isKnockoutFormat } from '../utils/formats';
+import BracketView from './BracketView';
+import LeagueTable from './LeagueTable';
+import { MAX_TEAM_COUNT, getTeamKeys, getTeamLabel, getFixtureTeamKeys } from '../utils/teams';
+import { useLiveUpdates } from '../hooks/useLiveUpdates';
+import { useAuth } from '../hooks/useAuth';
+import { useClub } from '../hooks/useClub';
+import { canManage, canScoreFixture } from '../utils/permissions';
+
+type GameInput = { team1: string; team2: string };
 
 const TournamentDashboard: React.FC = () => {
   const [tournament, setTournament] = useState<Tournament | null>(null);
   const [players, setPlayers] = useState<Player[]>([]);
+  const [standings, setStandings] = useState<Standing[]>([]);
+  const [groupStandings, setGroupStandings] = useState<GroupStandings[] | null>(null);
+  const [teamStats, setTeamStats] = useState<TeamStats | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [scoreDialog, setScoreDialog] = useState<{ open: boolean; fixture: Fixture | null }>({
     open: false,
     fixture: null,
   });
-  const [scores, setScores] = useState({ team1: '', team2: '' });
+  const [gameInputs, setGameInputs] = useState<GameInput[]>([]);
+  const [scoreErrors, setScoreErrors] = useState<string[]>([]);
+  const [revisionReason, setRevisionReason] = useState('');
+  const [reopenDialog, setReopenDialog] = useState<{ open: boolean; fixture: Fixture | null }>({
+    open: false,
+    fixture: null,
+  });
   const [regenerateDialog, setRegenerateDialog] = useState(false);
   const [matchesPerPlayer, setMatchesPerPlayer] = useState(6);
+  const [courts, setCourts] = useState(2);
+  const [teamCount, setTeamCount] = useState(2);
   const [selectedPlayerForSwap, setSelectedPlayerForSwap] = useState<string | null>(null);
+  const [swapDialog, setSwapDialog] = useState<{ open: boolean; player1Id: string | null; player2Id: string | null }>({
+    open: false,
+    player1Id: null,
+    player2Id: null,
+  });
+  const [addPlayerDialog, setAddPlayerDialog] = useState(false);
+  const [newcomerId, setNewcomerId] = useState('');
+  const [newcomerTeam, setNewcomerTeam] = useState('');
+  const [withdrawDialog, setWithdrawDialog] = useState<{ open: boolean; playerId: string | null }>({
+    open: false,
+    playerId: null,
+  });
+  const [replanWithdrawn, setReplanWithdrawn] = useState(true);
+  const [scorers, setScorers] = useState<ClubMember[]>([]);
+  const { tournamentId = '' } = useParams<{ tournamentId: string }>();
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const { club, selectClub } = useClub();
+  const clubId = tournament?.clubId;
+  const canEdit = canManage(user, clubId);
 
   useEffect(() => {
     loadData();
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [tournamentId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Opening a tournament of another club switches the club selector to it
+  useEffect(() => {
+    if (clubId && club && clubId !== club.id) selectClub(clubId);
+  }, [clubId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Organisers hand out fixtures to the club's scorer accounts
+  useEffect(() => {
+    if (!canEdit || !clubId) return;
+    clubService
+      .getMembers(clubId)
+      .then(members => setScorers(members.filter(member => member.role === 'scorer')))
+      .catch(() => setScorers([]));
+  }, [canEdit, clubId]);
+
+  // Scores and roster changes made on other devices, in this tournament or
+  // the club's roster; a resync carries no club and reloads everything
+  useLiveUpdates({ clubId }, events => {
+    if (events.some(event => !event.clubId || event.tournamentId === tournamentId || (!event.tournamentId && event.clubId === clubId))) {
+      loadData();
+    }
+  });
 
   const loadData = async () => {
     try {
       setLoading(true);
-      const [tournamentData, playersData] = await Promise.all([
-        tournamentService.getCurrentTournament(),
-        playerService.getPlayers(),
-      ]);
-      
+      const tournamentData = await tournamentService.getTournament(tournamentId);
       setTournament(tournamentData);
-      setPlayers(playersData);
       
       if (tournamentData) {
+        setPlayers(await playerService.getPlayers(tournamentData.clubId, true));
+
+        // Leagues, standings and group tables are ranked as results come in
+        const results = await tournamentService.getTournamentResults(tournamentData.id);
+        setStandings(results.standings);
+        setGroupStandings(results.groupStandings || null);
+        setTeamStats(results.teamStats);
         setMatchesPerPlayer(tournamentData.matchesPerPlayer || 6);
-      } else {
-        navigate('/players');
+        setCourts(tournamentData.courts || 1);
+        if (tournamentData.teams) {
+          setTeamCount(getTeamKeys(tournamentData.teams).length);
+        }
       }
     } catch (err) {
       setError('Failed to load tournament data');
@@ -74,6 +152,14 @@ const TournamentDashboard: React.FC = () => {
     return players.find(p => p.id === playerId)?.name || 'Unknown Player';
   };
 
+  // Roster players who are not in a team, including anyone who withdrew
+  const getAvailablePlayers = () => {
+    const teams = tournament?.teams;
+    if (!teams) return [];
+    const inTeams = getTeamKeys(teams).flatMap(key => teams[key]);
+    return players.filter(player => !player.archivedAt && !inTeams.includes(player.id));
+  };
+
   const getSkillLevelColor = (level: string) => {
     switch (level) {
       case 'beginner': return 'success';
@@ -83,29 +169,65 @@ const TournamentDashboard: React.FC = () => {
     }
   };
 
+  const scoringRules = tournament?.scoringRules || DEFAULT_SCORING_RULES;
+
+  const handleAssignScorer = async (fixture: Fixture, scorerId: string) => {
+    try {
+      setLoading(true);
+      await tournamentService.assignScorer(tournamentId, fixture.id, scorerId || null);
+      await loadData();
+    } catch (err) {
+      setError('Failed to assign scorer');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleScoreClick = (fixture: Fixture) => {
+    const recordedGames = fixture.games || [];
     setScoreDialog({ open: true, fixture });
-    setScores({ team1: '', team2: '' });
+    setRevisionReason('');
+    setScoreErrors([]);
+    setGameInputs(
+      Array.from({ length: scoringRules.bestOf }, (_, index) => ({
+        team1: recordedGames[index] ? String(recordedGames[index].team1) : '',
+        team2: recordedGames[index] ? String(recordedGames[index].team2) : '',
+      }))
+    );
+  };
+
+  const handleGameInputChange = (index: number, team: 'team1' | 'team2', value: string) => {
+    setGameInputs(gameInputs.map((game, i) => (i === index ? { ...game, [team]: value } : game)));
+  };
+
+  const handleReopenClick = (fixture: Fixture) => {
+    setReopenDialog({ open: true, fixture });
+    setRevisionReason('');
   };
 
   const handleScoreSubmit = async () => {
-    if (!scoreDialog.fixture || !scores.team1 || !scores.team2) {
-      setError('Please enter both scores');
-      return;
-    }
+    if (!scoreDialog.fixture) return;
 
-    const team1Score = parseInt(scores.team1);
-    const team2Score = parseInt(scores.team2);
+    // Unplayed games (e.g. the decider of a 2-0 match) are left blank
+    const games = gameInputs
+      .filter(game => game.team1 !== '' || game.team2 !== '')
+      .map(game => ({ team1: Number(game.team1), team2: Number(game.team2) }));
 
-    if (isNaN(team1Score) || isNaN(team2Score)) {
-      setError('Please enter valid numbers');
+    const validation = validateMatch(games, scoringRules);
+    if (!validation.valid) {
+      setScoreErrors(validation.errors);
       return;
     }
 
     try {
       setLoading(true);
       setError(null);
-      await tournamentService.submitScore(scoreDialog.fixture.id, team1Score, team2Score);
+      setScoreErrors([]);
+      if (scoreDialog.fixture.status === 'completed') {
+        await tournamentService.amendScore(tournamentId, scoreDialog.fixture.id, games, revisionReason || undefined);
+      } else {
+        await tournamentService.submitScore(tournamentId, scoreDialog.fixture.id, games);
+      }
       setScoreDialog({ open: false, fixture: null });
       await loadData(); // Reload to get updated data
     } catch (err) {
@@ -115,11 +237,27 @@ const TournamentDashboard: React.FC = () => {
     }
   };
 
+  const handleReopenFixture = async () => {
+    if (!reopenDialog.fixture) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      await tournamentService.reopenFixture(tournamentId, reopenDialog.fixture.id, revisionReason || undefined);
+      setReopenDialog({ open: false, fixture: null });
+      await loadData();
+    } catch (err) {
+      setError('Failed to reopen match');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleRegenerateTournament = async () => {
     try {
       setLoading(true);
       setError(null);
-      const updatedTournament = await tournamentService.regenerateTournament(matchesPerPlayer);
+      const updatedTournament = await tournamentService.regenerateTournament(tournamentId, matchesPerPlayer, courts, teamCount);
       setTournament(updatedTournament);
       setRegenerateDialog(false);
     } catch (err) {
@@ -133,9 +271,10 @@ const TournamentDashboard: React.FC = () => {
     try {
       setLoading(true);
       setError(null);
-      const updatedTournament = await tournamentService.swapPlayers(player1Id, player2Id);
+      const updatedTournament = await tournamentService.swapPlayers(tournamentId, player1Id, player2Id);
       setTournament(updatedTournament);
       setSelectedPlayerForSwap(null);
+      setSwapDialog({ open: false, player1Id: null, player2Id: null });
     } catch (err) {
       setError('Failed to swap players');
     } finally {
@@ -149,11 +288,87 @@ const TournamentDashboard: React.FC = () => {
     } else if (selectedPlayerForSwap === playerId) {
       setSelectedPlayerForSwap(null);
     } else {
-      // Direct swap without confirmation dialog
-      handleSwapPlayers(selectedPlayerForSwap, playerId);
+      setSwapDialog({ open: true, player1Id: selectedPlayerForSwap, player2Id: playerId });
     }
   };
 
+  const handleAddPlayer = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const updatedTournament = await tournamentService.addPlayer(tournamentId, newcomerId, newcomerTeam || undefined);
+      setTournament(updatedTournament);
+      setAddPlayerDialog(false);
+      setNewcomerId('');
+      setNewcomerTeam('');
+    } catch (err) {
+      setError('Failed to add player');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleWithdrawPlayer = async (playerId: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const updatedTournament = await tournamentService.withdrawPlayer(tournamentId, playerId, replanWithdrawn);
+      setTournament(updatedTournament);
+      setSelectedPlayerForSwap(null);
+      setWithdrawDialog({ open: false, playerId: null });
+    } catch (err) {
+      setError('Failed to withdraw player');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openWithdrawDialog = (playerId: string) => {
+    setReplanWithdrawn(true);
+    setWithdrawDialog({ open: true, playerId });
+  };
+
+  // Pending matches that swapping or regenerating will re-plan; completed ones are kept.
+  // Swaps and withdrawals can also re-plan other pending matches, when keeping
+  // them would leave match counts further apart, so their lists are the least
+  // that changes.
+  const getAffectedFixtures = (playerIds?: string[]) => {
+    if (!tournament) return [];
+
+    return tournament.fixtures.filter(fixture =>
+      fixture.status === 'pending' &&
+      (!playerIds || [...fixture.team1, ...fixture.team2].some(id => playerIds.includes(id)))
+    );
+  };
+
+  const describeFixture = (fixture: Fixture) =>
+    `${fixture.team1.map(getPlayerName).join(' & ')} vs ${fixture.team2.map(getPlayerName).join(' & ')}`;
+
+  const renderAffectedFixtures = (fixtures: Fixture[], outcome = 'replaced', othersMayChange = false) => (
+    fixtures.length === 0 ? (
+      <Typography variant="body2" color="text.secondary">
+        {othersMayChange
+          ? 'None of their pending matches change, though other pending matches may be re-planned to keep match counts even.'
+          : 'No pending matches will change.'}
+      </Typography>
+    ) : (
+      <Alert severity="warning">
+        These {fixtures.length} pending matches will be {outcome}
+        {othersMayChange && ', and other pending matches may be re-planned too to keep match counts even'}:
+        <List dense>
+          {fixtures.map(fixture => (
+            <ListItem key={fixture.id} disableGutters>
+              <ListItemText
+                primary={describeFixture(fixture)}
+                secondary={`Round ${fixture.round || '-'} · Court ${fixture.court || 1}`}
+              />
+            </ListItem>
+          ))}
+        </List>
+      </Alert>
+    )
+  );
+
   const getPlayerParticipation = () => {
     if (!tournament) return new Map();
     
@@ -169,15 +384,11 @@ const TournamentDashboard: React.FC = () => {
     return playerCounts;
   };
 
-  const getTeamStats = () => {
-    if (!tournament) return { team1Wins: 0, team2Wins: 0 };
-    
-    const completedFixtures = tournament.fixtures.filter(f => f.status === 'completed');
-    const team1Wins = completedFixtures.filter(f => f.winner === 'team1').length;
-    const team2Wins = completedFixtures.filter(f => f.winner === 'team2').length;
-    
-    return { team1Wins, team2Wins };
-  };
+  // Late arrivals are credited with the matches they missed
+  const getMatchCredit = (playerId: string) => tournament?.matchCredits?.[playerId] || 0;
+
+  const getCreditedParticipation = (playerId: string) =>
+    (getPlayerParticipation().get(playerId) || 0) + getMatchCredit(playerId);
 
   const getActiveStep = () => {
     if (!tournament) return 0;
@@ -190,6 +401,26 @@ const TournamentDashboard: React.FC = () => {
     return 1;
   };
 
+  // Fixtures grouped by round, with the players sitting each round out.
+  // Withdrawn players are no longer in the rotation, so they never rest.
+  const getRounds = () => {
+    if (!tournament) return [];
+
+    const withdrawn = tournament.withdrawnPlayerIds || [];
+    const rounds = new Map<number, Fixture[]>();
+    tournament.fixtures.forEach((fixture, index) => {
+      const round = fixture.round || index + 1;
+      rounds.set(round, [...(rounds.get(round) || []), fixture]);
+    });
+
+    return Array.from(rounds.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([round, fixtures]) => {
+        const playing = new Set(fixtures.flatMap(f => [...f.team1, ...f.team2]));
+        return { round, fixtures, resting: tournament.playerIds.filter(id => !playing.has(id) && !withdrawn.includes(id)) };
+      });
+  };
+
   const steps = ['Teams Created', 'Matches in Progress', 'Tournament Complete'];
 
   if (!tournament) {
@@ -199,9 +430,11 @@ const TournamentDashboard: React.FC = () => {
           <Sports sx={{ mr: 1, verticalAlign: 'middle' }} />
           Tournament Dashboard
         </Typography>
-        <Alert severity="info">
-          No active tournament found. Please create a tournament first.
-        </Alert>
+        {!loading && (
+          <Alert severity="info">
+            Tournament not found. Choose one from the selector in the top bar, or create a new one.
+          </Alert>
+        )}
         <Button
           variant="contained"
           onClick={() => navigate('/players')}
@@ -213,14 +446,15 @@ const TournamentDashboard: React.FC = () => {
     );
   }
 
-  const { team1Wins, team2Wins } = getTeamStats();
   const activeStep = getActiveStep();
+  const courtCount = tournament.courts || 1;
+  const teams = tournament.teams;
 
   return (
     <Box>
       <Typography variant="h4" gutterBottom>
         <Sports sx={{ mr: 1, verticalAlign: 'middle' }} />
-        Tournament Dashboard
+        {tournament.name || 'Tournament Dashboard'}
       </Typography>
 
       {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
@@ -232,7 +466,8 @@ const TournamentDashboard: React.FC = () => {
             Tournament Progress
           </Typography>
           <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-            Matches per player: {tournament.matchesPerPlayer || 6} | Total matches: {tournament.fixtures.length}
+            Format: {TOURNAMENT_FORMATS[tournament.format || 'teams'].label} | Matches per player: {tournament.matchesPerPlayer || 6} | Total matches: {tournament.fixtures.length} | Courts: {courtCount}
+            {tournament.teamSeed !== undefined && ` | ${teams ? 'Team seed' : 'Seed'}: ${tournament.teamSeed}`}
           </Typography>
           <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
             Player participation: {Array.from(getPlayerParticipation().values()).join(', ')} matches
@@ -240,6 +475,16 @@ const TournamentDashboard: React.FC = () => {
           <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
             Participation balance: Min {Math.min(...Array.from(getPlayerParticipation().values()))} - Max {Math.max(...Array.from(getPlayerParticipation().values()))} matches
           </Typography>
+          {tournament.participationNote && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              {tournament.participationNote}
+            </Alert>
+          )}
+          {tournament.withdrawnPlayerIds && tournament.withdrawnPlayerIds.length > 0 && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Withdrawn: {tournament.withdrawnPlayerIds.map(getPlayerName).join(', ')}
+            </Typography>
+          )}
           <Stepper activeStep={activeStep} sx={{ mb: 3 }}>
             {steps.map((label) => (
               <Step key={label}>
@@ -248,244 +493,366 @@ const TournamentDashboard: React.FC = () => {
             ))}
           </Stepper>
           
-          <Box sx={{ display: 'flex', gap: 2 }}>
-            <Paper sx={{ flex: 1, p: 2, textAlign: 'center', bgcolor: 'primary.light', color: 'white' }}>
-              <Typography variant="h4">{team1Wins}</Typography>
-              <Typography variant="body2">Team 1 Wins</Typography>
-            </Paper>
-            <Paper sx={{ flex: 1, p: 2, textAlign: 'center', bgcolor: 'secondary.light', color: 'white' }}>
-              <Typography variant="h4">{team2Wins}</Typography>
-              <Typography variant="body2">Team 2 Wins</Typography>
-            </Paper>
-          </Box>
+          {teams ? (
+            teamStats && <LeagueTable teamStats={teamStats} />
+          ) : (
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <Paper sx={{ flex: 1, p: 2, textAlign: 'center', bgcolor: 'primary.light', color: 'white' }}>
+                <Typography variant="h4">{getRounds().length}/{tournament.totalRounds || getRounds().length}</Typography>
+                <Typography variant="body2">Rounds</Typography>
+              </Paper>
+              {tournament.pairs ? (
+                <Paper sx={{ flex: 1, p: 2, textAlign: 'center', bgcolor: 'secondary.light', color: 'white' }}>
+                  <Typography variant="h4">{tournament.pairs.length}</Typography>
+                  <Typography variant="body2">Pairs</Typography>
+                </Paper>
+              ) : (
+                <Paper sx={{ flex: 1, p: 2, textAlign: 'center', bgcolor: 'secondary.light', color: 'white' }}>
+                  <Typography variant="h4">{standings[0] && standings[0].played > 0 ? getPlayerName(standings[0].playerId) : '-'}</Typography>
+                  <Typography variant="body2">Leader</Typography>
+                </Paper>
+              )}
+            </Box>
+          )}
         </CardContent>
       </Card>
 
       <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
-        {/* Teams */}
-        <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap' }}>
-          <Box sx={{ flex: 1, minWidth: 300 }}>
-            <Card>
-              <CardContent>
-                <Typography variant="h6" gutterBottom>
-                  Team 1
-                </Typography>
-                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-                  Players and their scheduled matches
-                </Typography>
-                <List>
-                  {tournament.teams.team1.map((playerId, index) => {
-                    const player = players.find(p => p.id === playerId);
-                    return (
-                      <React.Fragment key={playerId}>
-                        <ListItem
-                          sx={{
-                            backgroundColor: selectedPlayerForSwap === playerId ? 'action.selected' : 'transparent',
-                            borderRadius: 1,
-                            mb: 1,
-                            cursor: 'pointer',
-                            '&:hover': {
-                              backgroundColor: 'action.hover',
-                            },
-                          }}
-                        >
-                          <ListItemText
-                            primary={player?.name || 'Unknown Player'}
-                            secondary={
-                              <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
-                                {player && (
+        {/* Teams, the bracket for knockout formats, or standings for individual formats */}
+        {isKnockoutFormat(tournament) ? (
+          <Card>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>
+                {tournament.bracket ? 'Bracket' : 'Groups'}
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                {TOURNAMENT_FORMATS[tournament.format || 'teams'].description}
+              </Typography>
+              <BracketView
+                bracket={tournament.bracket}
+                groupStandings={groupStandings}
+                advancePerGroup={tournament.advancePerGroup}
+                fixtures={tournament.fixtures}
+                players={players}
+              />
+            </CardContent>
+          </Card>
+        ) : teams ? (
+          <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap' }}>
+            {getTeamKeys(teams).map(teamKey => (
+              <Box key={teamKey} sx={{ flex: 1, minWidth: 300 }}>
+                <Card>
+                  <CardContent>
+                    <Typography variant="h6" gutterBottom>
+                      {getTeamLabel(teamKey)}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                      Players and their scheduled matches
+                    </Typography>
+                    <List>
+                      {teams[teamKey].map((playerId, index) => {
+                        const player = players.find(p => p.id === playerId);
+                        return (
+                          <React.Fragment key={playerId}>
+                            <ListItem
+                              sx={{
+                                backgroundColor: selectedPlayerForSwap === playerId ? 'action.selected' : 'transparent',
+                                borderRadius: 1,
+                                mb: 1,
+                                cursor: 'pointer',
+                                '&:hover': {
+                                  backgroundColor: 'action.hover',
+                                },
+                              }}
+                            >
+                              <ListItemText
+                                primary={player?.name || 'Unknown Player'}
+                                secondary={
+                                  <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+                                    {player && (
+                                      <Chip
+                                        label={player.skillLevel}
+                                        color={getSkillLevelColor(player.skillLevel) as any}
+                                        size="small"
+                                      />
+                                    )}
+                                    <Chip
+                                      label={`${getPlayerParticipation().get(playerId) || 0} matches${getMatchCredit(playerId) ? ` + ${getMatchCredit(playerId)} missed` : ''}`}
+                                      variant="outlined"
+                                      size="small"
+                                      color={
+                                        getCreditedParticipation(playerId) < (tournament.matchesPerPlayer || 6) - 1 
+                                          ? "warning" 
+                                          : getCreditedParticipation(playerId) > (tournament.matchesPerPlayer || 6) + 1 
+                                            ? "error" 
+                                            : "success"
+                                      }
+                                    />
+                                  </Box>
+                                }
+                              />
+                              {canEdit && (
+                                <ListItemSecondaryAction>
+                                  <IconButton
+                                    onClick={() => openWithdrawDialog(playerId)}
+                                    disabled={teams[teamKey].length <= 2}
+                                    title="Withdraw from the tournament"
+                                  >
+                                    <PersonRemove />
+                                  </IconButton>
+                                  <IconButton
+                                    edge="end"
+                                    onClick={() => handlePlayerSwapClick(playerId)}
+                                    color={selectedPlayerForSwap === playerId ? 'primary' : 'default'}
+                                    title={
+                                      selectedPlayerForSwap === playerId 
+                                        ? "Selected for swap - click another player to swap" 
+                                        : selectedPlayerForSwap 
+                                          ? "Click to swap with selected player" 
+                                          : "Click to select for swap"
+                                    }
+                                  >
+                                    <SwapHoriz />
+                                  </IconButton>
+                                </ListItemSecondaryAction>
+                              )}
+                            </ListItem>
+                            {index < teams[teamKey].length - 1 && <Divider />}
+                          </React.Fragment>
+                        );
+                      })}
+                    </List>
+                  </CardContent>
+                </Card>
+              </Box>
+            ))}
+          </Box>
+        ) : (
+          <Card>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>
+                Standings
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                {TOURNAMENT_FORMATS[tournament.format || 'teams'].description}
+              </Typography>
+              <Box sx={{ overflowX: 'auto' }}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>#</TableCell>
+                      <TableCell>Player</TableCell>
+                      <TableCell align="right">Played</TableCell>
+                      <TableCell align="right">Won</TableCell>
+                      <TableCell align="right">Points</TableCell>
+                      <TableCell align="right">+/-</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {standings.map(row => (
+                      <TableRow key={row.playerId}>
+                        <TableCell>{row.tied ? `=${row.rank}` : row.rank}</TableCell>
+                        <TableCell>{getPlayerName(row.playerId)}</TableCell>
+                        <TableCell align="right">{row.played}</TableCell>
+                        <TableCell align="right">{row.wins}</TableCell>
+                        <TableCell align="right">{row.pointsFor}</TableCell>
+                        <TableCell align="right">{row.pointDifference > 0 ? `+${row.pointDifference}` : row.pointDifference}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Box>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Fixtures */}
+        <Card>
+          <CardContent>
+            <Typography variant="h6" gutterBottom>
+              Matches ({tournament.fixtures.filter(f => f.status === 'completed').length}/{tournament.fixtures.length} completed)
+            </Typography>
+            <Divider sx={{ mb: 2 }} />
+            {getRounds().map(({ round, fixtures, resting }) => (
+              <Box key={round} sx={{ mb: 3 }}>
+                <Box sx={{ display: 'flex', alignItems: 'baseline', gap: 2, mb: 1, flexWrap: 'wrap' }}>
+                  <Typography variant="subtitle1">Round {round}</Typography>
+                  {resting.length > 0 && (
+                    <Typography variant="caption" color="text.secondary">
+                      Resting: {resting.map(getPlayerName).join(', ')}
+                    </Typography>
+                  )}
+                </Box>
+                <Box
+                  sx={{
+                    display: 'grid',
+                    gridTemplateColumns: `repeat(${courtCount}, minmax(280px, 1fr))`,
+                    gap: 2,
+                    overflowX: 'auto',
+                  }}
+                >
+                  {fixtures.map((fixture) => (
+                    <Box key={fixture.id} sx={{ gridColumn: fixture.court || 1 }}>
+                      <Card 
+                        variant="outlined"
+                        sx={{ 
+                          p: 2,
+                          cursor: fixture.status === 'pending' && canScoreFixture(user, tournament.clubId, fixture) ? 'pointer' : 'default',
+                          '&:hover': fixture.status === 'pending' && canScoreFixture(user, tournament.clubId, fixture) ? { bgcolor: 'action.hover' } : {}
+                        }}
+                        onClick={() => fixture.status === 'pending' && canScoreFixture(user, tournament.clubId, fixture) && handleScoreClick(fixture)}
+                      >
+                        <Typography variant="subtitle2" gutterBottom>
+                          Match {fixture.matchNumber} · Court {fixture.court || 1}
+                          {fixture.group && ` · Group ${fixture.group}`}
+                          {fixture.slotId && ` · ${fixture.slotId}`}
+                        </Typography>
+                    
+                        <Box sx={{ mb: 1 }}>
+                          <Typography variant="body2" color="text.secondary">
+                            {getPlayerName(fixture.team1[0])} & {getPlayerName(fixture.team1[1])}
+                          </Typography>
+                          <Typography variant="body2" color="text.secondary">
+                            vs
+                          </Typography>
+                          <Typography variant="body2" color="text.secondary">
+                            {getPlayerName(fixture.team2[0])} & {getPlayerName(fixture.team2[1])}
+                          </Typography>
+                        </Box>
+
+                        {fixture.status === 'completed' ? (
+                          <Box>
+                            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                              {fixture.games && fixture.games.length > 1 ? (
+                                <Box>
+                                  <Typography variant="h6">
+                                    {countGamesWon(fixture.games).team1} - {countGamesWon(fixture.games).team2}
+                                  </Typography>
+                                  <Typography variant="caption" color="text.secondary">
+                                    {formatGames(fixture.games)}
+                                  </Typography>
+                                </Box>
+                              ) : (
+                                <Typography variant="h6">
+                                  {fixture.team1Score} - {fixture.team2Score}
+                                </Typography>
+                              )}
+                              <Box sx={{ display: 'flex', gap: 1 }}>
+                                {fixture.scoreHistory && fixture.scoreHistory.length > 0 && (
                                   <Chip
-                                    label={player.skillLevel}
-                                    color={getSkillLevelColor(player.skillLevel) as any}
+                                    label="Amended"
+                                    variant="outlined"
                                     size="small"
+                                    title={fixture.scoreHistory
+                                      .map(revision => `${revision.team1Score} - ${revision.team2Score} (${revision.action})`)
+                                      .join(', ')}
                                   />
                                 )}
                                 <Chip
-                                  label={`${getPlayerParticipation().get(playerId) || 0} matches`}
-                                  variant="outlined"
-                                  size="small"
-                                  color={
-                                    (getPlayerParticipation().get(playerId) || 0) < (tournament.matchesPerPlayer || 6) - 1 
-                                      ? "warning" 
-                                      : (getPlayerParticipation().get(playerId) || 0) > (tournament.matchesPerPlayer || 6) + 1 
-                                        ? "error" 
-                                        : "success"
+                                  label={
+                                    teams
+                                      ? `${getTeamLabel(getFixtureTeamKeys(fixture)[fixture.winner === 'team2' ? 1 : 0])} Wins`
+                                      : `${fixture[fixture.winner || 'team1'].map(getPlayerName).join(' & ')} Win`
                                   }
+                                  color={fixture.winner === 'team1' ? 'primary' : 'secondary'}
+                                  size="small"
                                 />
                               </Box>
-                            }
-                          />
-                          <ListItemSecondaryAction>
-                            <IconButton
-                              edge="end"
-                              onClick={() => handlePlayerSwapClick(playerId)}
-                              color={selectedPlayerForSwap === playerId ? 'primary' : 'default'}
-                              title={
-                                selectedPlayerForSwap === playerId 
-                                  ? "Selected for swap - click another player to swap" 
-                                  : selectedPlayerForSwap 
-                                    ? "Click to swap with selected player" 
-                                    : "Click to select for swap"
-                              }
-                            >
-                              <SwapHoriz />
-                            </IconButton>
-                          </ListItemSecondaryAction>
-                        </ListItem>
-                        {index < tournament.teams.team1.length - 1 && <Divider />}
-                      </React.Fragment>
-                    );
-                  })}
-                </List>
-              </CardContent>
-            </Card>
-          </Box>
-
-          <Box sx={{ flex: 1, minWidth: 300 }}>
-            <Card>
-              <CardContent>
-                <Typography variant="h6" gutterBottom>
-                  Team 2
-                </Typography>
-                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-                  Players and their scheduled matches
-                </Typography>
-                <List>
-                  {tournament.teams.team2.map((playerId, index) => {
-                    const player = players.find(p => p.id === playerId);
-                    return (
-                      <React.Fragment key={playerId}>
-                        <ListItem
-                          sx={{
-                            backgroundColor: selectedPlayerForSwap === playerId ? 'action.selected' : 'transparent',
-                            borderRadius: 1,
-                            mb: 1,
-                            cursor: 'pointer',
-                            '&:hover': {
-                              backgroundColor: 'action.hover',
-                            },
-                          }}
-                        >
-                          <ListItemText
-                            primary={player?.name || 'Unknown Player'}
-                            secondary={
+                            </Box>
+                            {canEdit && (
                               <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
-                                {player && (
-                                  <Chip
-                                    label={player.skillLevel}
-                                    color={getSkillLevelColor(player.skillLevel) as any}
-                                    size="small"
-                                  />
+                                <Button
+                                  size="small"
+                                  startIcon={<Edit />}
+                                  onClick={() => handleScoreClick(fixture)}
+                                  disabled={loading}
+                                >
+                                  Edit Score
+                                </Button>
+                                <Button
+                                  size="small"
+                                  color="warning"
+                                  startIcon={<Undo />}
+                                  onClick={() => handleReopenClick(fixture)}
+                                  disabled={loading}
+                                >
+                                  Reopen
+                                </Button>
+                              </Box>
+                            )}
+                          </Box>
+                        ) : (
+                          <Box>
+                            {fixture.live && (
+                              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                                <Chip label="Live" color="error" size="small" />
+                                <Typography variant="h6">
+                                  {fixture.live.current.team1} - {fixture.live.current.team2}
+                                </Typography>
+                                {fixture.live.games.length > 0 && (
+                                  <Typography variant="caption" color="text.secondary">
+                                    Games: {formatGames(fixture.live.games)}
+                                  </Typography>
                                 )}
-                                <Chip
-                                  label={`${getPlayerParticipation().get(playerId) || 0} matches`}
+                              </Box>
+                            )}
+                            {canEdit && (
+                              <FormControl fullWidth size="small" sx={{ mb: 1 }} onClick={(e) => e.stopPropagation()}>
+                                <InputLabel>Scorer</InputLabel>
+                                <Select
+                                  value={fixture.scorerId || ''}
+                                  onChange={(e) => handleAssignScorer(fixture, e.target.value)}
+                                  label="Scorer"
+                                  disabled={loading}
+                                >
+                                  <MenuItem value="">Organisers only</MenuItem>
+                                  {scorers.map(scorer => (
+                                    <MenuItem key={scorer.id} value={scorer.id}>{scorer.username}</MenuItem>
+                                  ))}
+                                </Select>
+                              </FormControl>
+                            )}
+                            {canScoreFixture(user, tournament.clubId, fixture) && (
+                              <Box sx={{ display: 'flex', gap: 1 }}>
+                                <Button
                                   variant="outlined"
+                                  startIcon={<Score />}
+                                  fullWidth
                                   size="small"
-                                  color={
-                                    (getPlayerParticipation().get(playerId) || 0) < (tournament.matchesPerPlayer || 6) - 1 
-                                      ? "warning" 
-                                      : (getPlayerParticipation().get(playerId) || 0) > (tournament.matchesPerPlayer || 6) + 1 
-                                        ? "error" 
-                                        : "success"
-                                  }
-                                />
+                                >
+                                  Enter Score
+                                </Button>
+                                <Button
+                                  variant="outlined"
+                                  startIcon={<Sports />}
+                                  fullWidth
+                                  size="small"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    navigate(`/tournaments/${tournamentId}/umpire/${fixture.id}`);
+                                  }}
+                                >
+                                  Umpire
+                                </Button>
                               </Box>
-                            }
-                          />
-                          <ListItemSecondaryAction>
-                            <IconButton
-                              edge="end"
-                              onClick={() => handlePlayerSwapClick(playerId)}
-                              color={selectedPlayerForSwap === playerId ? 'primary' : 'default'}
-                              title={
-                                selectedPlayerForSwap === playerId 
-                                  ? "Selected for swap - click another player to swap" 
-                                  : selectedPlayerForSwap 
-                                    ? "Click to swap with selected player" 
-                                    : "Click to select for swap"
-                              }
-                            >
-                              <SwapHoriz />
-                            </IconButton>
-                          </ListItemSecondaryAction>
-                        </ListItem>
-                        {index < tournament.teams.team2.length - 1 && <Divider />}
-                      </React.Fragment>
-                    );
-                  })}
-                </List>
-              </CardContent>
-            </Card>
-          </Box>
-        </Box>
-
-        {/* Fixtures */}
-        <Card>
-          <CardContent>
-            <Typography variant="h6" gutterBottom>
-              Matches ({tournament.fixtures.filter(f => f.status === 'completed').length}/{tournament.fixtures.length} completed)
-            </Typography>
-            <Divider sx={{ mb: 2 }} />
-            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
-              {tournament.fixtures.map((fixture) => (
-                <Box key={fixture.id} sx={{ flex: '1 1 300px', minWidth: 300 }}>
-                  <Card 
-                    variant="outlined"
-                    sx={{ 
-                      p: 2,
-                      cursor: fixture.status === 'pending' ? 'pointer' : 'default',
-                      '&:hover': fixture.status === 'pending' ? { bgcolor: 'action.hover' } : {}
-                    }}
-                    onClick={() => fixture.status === 'pending' && handleScoreClick(fixture)}
-                  >
-                    <Typography variant="subtitle2" gutterBottom>
-                      Match {tournament.fixtures.indexOf(fixture) + 1}
-                    </Typography>
-                    
-                    <Box sx={{ mb: 1 }}>
-                      <Typography variant="body2" color="text.secondary">
-                        {getPlayerName(fixture.team1[0])} & {getPlayerName(fixture.team1[1])}
-                      </Typography>
-                      <Typography variant="body2" color="text.secondary">
-                        vs
-                      </Typography>
-                      <Typography variant="body2" color="text.secondary">
-                        {getPlayerName(fixture.team2[0])} & {getPlayerName(fixture.team2[1])}
-                      </Typography>
+                            )}
+                          </Box>
+                        )}
+                      </Card>
                     </Box>
-
-                    {fixture.status === 'completed' ? (
-                      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                        <Typography variant="h6">
-                          {fixture.team1Score} - {fixture.team2Score}
-                        </Typography>
-                        <Chip
-                          label={fixture.winner === 'team1' ? 'Team 1 Wins' : 'Team 2 Wins'}
-                          color={fixture.winner === 'team1' ? 'primary' : 'secondary'}
-                          size="small"
-                        />
-                      </Box>
-                    ) : (
-                      <Button
-                        variant="outlined"
-                        startIcon={<Score />}
-                        fullWidth
-                        size="small"
-                      >
-                        Enter Score
-                      </Button>
-                    )}
-                  </Card>
+                  ))}
                 </Box>
-              ))}
-            </Box>
+              </Box>
+            ))}
           </CardContent>
         </Card>
       </Box>
 
       {/* Score Entry Dialog */}
       <Dialog open={scoreDialog.open} onClose={() => setScoreDialog({ open: false, fixture: null })}>
-        <DialogTitle>Enter Match Score</DialogTitle>
+        <DialogTitle>
+          {scoreDialog.fixture?.status === 'completed' ? 'Correct Match Score' : 'Enter Match Score'}
+        </DialogTitle>
         <DialogContent>
           {scoreDialog.fixture && (
             <Box>
@@ -497,23 +864,52 @@ const TournamentDashboard: React.FC = () => {
                 {getPlayerName(scoreDialog.fixture.team2[0])} & {getPlayerName(scoreDialog.fixture.team2[1])}
               </Typography>
               
-              <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
-                <TextField
-                  label="Team 1 Score"
-                  type="number"
-                  value={scores.team1}
-                  onChange={(e) => setScores({ ...scores, team1: e.target.value })}
-                  inputProps={{ min: 0 }}
-                />
-                <Typography variant="h6">-</Typography>
-                <TextField
-                  label="Team 2 Score"
-                  type="number"
-                  value={scores.team2}
-                  onChange={(e) => setScores({ ...scores, team2: e.target.value })}
-                  inputProps={{ min: 0 }}
-                />
-              </Box>
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 2 }}>
+                {describeScoringRules(scoringRules)}
+              </Typography>
+
+              {gameInputs.map((game, index) => (
+                <Box key={index} sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2 }}>
+                  <TextField
+                    label={scoringRules.bestOf > 1 ? `Game ${index + 1} - Team 1` : 'Team 1 Score'}
+                    type="number"
+                    value={game.team1}
+                    onChange={(e) => handleGameInputChange(index, 'team1', e.target.value)}
+                    inputProps={{ min: 0, max: scoringRules.maxPoints ?? undefined }}
+                  />
+                  <Typography variant="h6">-</Typography>
+                  <TextField
+                    label={scoringRules.bestOf > 1 ? `Game ${index + 1} - Team 2` : 'Team 2 Score'}
+                    type="number"
+                    value={game.team2}
+                    onChange={(e) => handleGameInputChange(index, 'team2', e.target.value)}
+                    inputProps={{ min: 0, max: scoringRules.maxPoints ?? undefined }}
+                  />
+                </Box>
+              ))}
+
+              {scoreErrors.length > 0 && (
+                <Alert severity="error">
+                  {scoreErrors.map(message => (
+                    <div key={message}>{message}</div>
+                  ))}
+                </Alert>
+              )}
+
+              {scoreDialog.fixture.status === 'completed' && (
+                <Box sx={{ mt: 2 }}>
+                  <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                    Originally recorded as {formatGames(scoreDialog.fixture.games) || `${scoreDialog.fixture.team1Score} - ${scoreDialog.fixture.team2Score}`}.
+                    Player statistics will be recalculated and the original score kept for the record.
+                  </Typography>
+                  <TextField
+                    label="Reason for correction"
+                    value={revisionReason}
+                    onChange={(e) => setRevisionReason(e.target.value)}
+                    fullWidth
+                  />
+                </Box>
+              )}
             </Box>
           )}
         </DialogContent>
@@ -522,7 +918,34 @@ const TournamentDashboard: React.FC = () => {
             Cancel
           </Button>
           <Button onClick={handleScoreSubmit} variant="contained" disabled={loading}>
-            Submit Score
+            {scoreDialog.fixture?.status === 'completed' ? 'Save Correction' : 'Submit Score'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Reopen Match Dialog */}
+      <Dialog open={reopenDialog.open} onClose={() => setReopenDialog({ open: false, fixture: null })}>
+        <DialogTitle>Reopen Match</DialogTitle>
+        <DialogContent>
+          {reopenDialog.fixture && (
+            <Box>
+              <Typography sx={{ mb: 2 }}>
+                This will void the recorded score of {reopenDialog.fixture.team1Score} - {reopenDialog.fixture.team2Score} and
+                set the match back to pending. Player statistics will be reversed and the voided score kept for the record.
+              </Typography>
+              <TextField
+                label="Reason"
+                value={revisionReason}
+                onChange={(e) => setRevisionReason(e.target.value)}
+                fullWidth
+              />
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setReopenDialog({ open: false, fixture: null })}>Cancel</Button>
+          <Button onClick={handleReopenFixture} variant="contained" color="warning" disabled={loading}>
+            Reopen Match
           </Button>
         </DialogActions>
       </Dialog>
@@ -532,21 +955,44 @@ const TournamentDashboard: React.FC = () => {
         <DialogTitle>Regenerate Teams & Fixtures</DialogTitle>
         <DialogContent>
           <Typography sx={{ mb: 2 }}>
-            This will create new balanced teams and generate fresh fixtures with the same players.
-            All current match data will be lost.
+            This will create new balanced teams and re-plan the remaining fixtures with the same players.
+            Completed matches and their scores are kept.
           </Typography>
           <TextField
             label="Matches per Player"
             type="number"
             value={matchesPerPlayer}
-            onChange={(e) => setMatchesPerPlayer(parseInt(e.target.value) || 6)}
-            inputProps={{ min: 2, max: 12 }}
+            onChange={(e) => setMatchesPerPlayer(clampMatchesPerPlayer(e.target.value))}
+            inputProps={{ min: MIN_MATCHES_PER_PLAYER, max: MAX_MATCHES_PER_PLAYER, step: 1 }}
+            fullWidth
+            sx={{ mb: 2 }}
+          />
+          <TextField
+            label="Courts"
+            type="number"
+            value={courts}
+            onChange={(e) => setCourts(parseInt(e.target.value) || 1)}
+            inputProps={{ min: 1, max: 12 }}
+            fullWidth
+            sx={{ mb: 2 }}
+          />
+          <TextField
+            label="Teams"
+            type="number"
+            value={teamCount}
+            onChange={(e) => setTeamCount(parseInt(e.target.value) || 2)}
+            inputProps={{ min: 2, max: MAX_TEAM_COUNT }}
+            disabled={tournament.teamStrategy === 'manual'}
+            helperText={tournament.teamStrategy === 'manual' ? 'Manual teams keep their team count' : undefined}
             fullWidth
             sx={{ mb: 2 }}
           />
           <Typography variant="body2" color="text.secondary">
-            Each player will play approximately {matchesPerPlayer} matches in the new tournament.
+            Each player will play approximately {matchesPerPlayer} matches in total, {courts} at a time.
           </Typography>
+          <Box sx={{ mt: 2 }}>
+            {renderAffectedFixtures(getAffectedFixtures())}
+          </Box>
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setRegenerateDialog(false)}>Cancel</Button>
@@ -556,6 +1002,107 @@ const TournamentDashboard: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      {/* Swap Players Dialog */}
+      <Dialog
+        open={swapDialog.open}
+        onClose={() => setSwapDialog({ open: false, player1Id: null, player2Id: null })}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>
+          Swap {swapDialog.player1Id && getPlayerName(swapDialog.player1Id)} and {swapDialog.player2Id && getPlayerName(swapDialog.player2Id)}
+        </DialogTitle>
+        <DialogContent>
+          <Typography sx={{ mb: 2 }}>
+            Completed matches and their scores are kept. Pending matches may move to a different round or court.
+          </Typography>
+          {swapDialog.player1Id && swapDialog.player2Id &&
+            renderAffectedFixtures(getAffectedFixtures([swapDialog.player1Id, swapDialog.player2Id]), 'replaced', true)}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSwapDialog({ open: false, player1Id: null, player2Id: null })}>Cancel</Button>
+          <Button
+            onClick={() => swapDialog.player1Id && swapDialog.player2Id && handleSwapPlayers(swapDialog.player1Id, swapDialog.player2Id)}
+            variant="contained"
+            disabled={loading}
+          >
+            Swap Players
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Add Player Dialog */}
+      <Dialog open={addPlayerDialog} onClose={() => setAddPlayerDialog(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Add Late Arrival</DialogTitle>
+        <DialogContent>
+          <Typography sx={{ mb: 2 }}>
+            Completed matches are kept. The remaining matches are re-planned so the new player gets
+            about as many more as everyone else.
+          </Typography>
+          <FormControl fullWidth sx={{ mb: 2 }}>
+            <InputLabel>Player</InputLabel>
+            <Select value={newcomerId} onChange={(e) => setNewcomerId(e.target.value)} label="Player">
+              {getAvailablePlayers().map(player => (
+                <MenuItem key={player.id} value={player.id}>{player.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl fullWidth sx={{ mb: 2 }}>
+            <InputLabel shrink>Team</InputLabel>
+            <Select value={newcomerTeam} onChange={(e) => setNewcomerTeam(e.target.value)} label="Team" displayEmpty notched>
+              <MenuItem value="">Smallest team</MenuItem>
+              {teams && getTeamKeys(teams).map(teamKey => (
+                <MenuItem key={teamKey} value={teamKey}>
+                  {getTeamLabel(teamKey)} ({teams[teamKey].length} players)
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          {renderAffectedFixtures(getAffectedFixtures())}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setAddPlayerDialog(false)}>Cancel</Button>
+          <Button onClick={handleAddPlayer} variant="contained" disabled={loading || !newcomerId}>
+            Add Player
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Withdraw Player Dialog */}
+      <Dialog
+        open={withdrawDialog.open}
+        onClose={() => setWithdrawDialog({ open: false, playerId: null })}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>
+          Withdraw {withdrawDialog.playerId && getPlayerName(withdrawDialog.playerId)}
+        </DialogTitle>
+        <DialogContent>
+          <Typography sx={{ mb: 2 }}>
+            Completed matches and their scores are kept and still count in the standings.
+          </Typography>
+          <FormControlLabel
+            control={<Checkbox checked={replanWithdrawn} onChange={(e) => setReplanWithdrawn(e.target.checked)} />}
+            label="Re-plan their pending matches so the other players keep their share"
+            sx={{ mb: 2 }}
+          />
+          {withdrawDialog.playerId &&
+            renderAffectedFixtures(getAffectedFixtures([withdrawDialog.playerId]), replanWithdrawn ? 'replaced' : 'cancelled', replanWithdrawn)}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setWithdrawDialog({ open: false, playerId: null })}>Cancel</Button>
+          <Button
+            onClick={() => withdrawDialog.playerId && handleWithdrawPlayer(withdrawDialog.playerId)}
+            variant="contained"
+            color="warning"
+            disabled={loading}
+          >
+            Withdraw Player
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Navigation */}
       <Box sx={{ mt: 3, display: 'flex', gap: 2 }}>
         <Button
@@ -564,15 +1111,27 @@ const TournamentDashboard: React.FC = () => {
         >
           Back to Players
         </Button>
-        <Button
-          variant="outlined"
-          color="secondary"
-          startIcon={<Refresh />}
-          onClick={() => setRegenerateDialog(true)}
-          disabled={loading}
-        >
-          Regenerate Teams & Fixtures
-        </Button>
+        {teams && canEdit && (
+          <Button
+            variant="outlined"
+            color="secondary"
+            startIcon={<Refresh />}
+            onClick={() => setRegenerateDialog(true)}
+            disabled={loading}
+          >
+            Regenerate Teams & Fixtures
+          </Button>
+        )}
+        {teams && canEdit && (
+          <Button
+            variant="outlined"
+            startIcon={<PersonAdd />}
+            onClick={() => setAddPlayerDialog(true)}
+            disabled={loading || getAvailablePlayers().length === 0}
+          >
+            Add Late Arrival
+          </Button>
+        )}
         {selectedPlayerForSwap && (
           <Button
             variant="outlined"
@@ -583,10 +1142,18 @@ const TournamentDashboard: React.FC = () => {
             Clear Swap Selection
           </Button>
         )}
+        <Button
+          variant="outlined"
+          startIcon={<Print />}
+          onClick={() => navigate(`/tournaments/${tournamentId}/print`)}
+          disabled={tournament.fixtures.length === 0}
+        >
+          Print Score Sheets
+        </Button>
         <Button
           variant="contained"
           startIcon={<EmojiEvents />}
-          onClick={() => navigate('/results')}
+          onClick={() => navigate(`/tournaments/${tournamentId}/results`)}
           disabled={activeStep < 2}
         >
           View Results
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  Menu,
+  MenuItem,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Box,
+} from '@mui/material';
+import { Download } from '@mui/icons-material';
+import { Tournament, TournamentExportFile } from '../types';
+import { tournamentService } from '../services/api';
+
+const EXPORTS: { file: TournamentExportFile; label: string }[] = [
+  { file: 'fixtures.csv', label: 'Fixtures and scores (CSV)' },
+  { file: 'standings.csv', label: 'Player standings (CSV)' },
+  { file: 'team-stats.csv', label: 'Team stats (CSV)' },
+  { file: 'tournament.json', label: 'Full tournament (JSON)' },
+];
+
+// Local date and time in the form a datetime-local input takes
+const toLocalInput = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+// Download menu for a tournament's fixtures, standings and team stats, a
+// restorable JSON copy, and a calendar of its rounds
+const TournamentExportMenu: React.FC<{ tournament: Tournament }> = ({ tournament }) => {
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+  const [calendarDialog, setCalendarDialog] = useState(false);
+  const [start, setStart] = useState(() => toLocalInput(new Date(tournament.createdAt)));
+  const [minutes, setMinutes] = useState('20');
+
+  const exports = EXPORTS.filter(option => option.file !== 'team-stats.csv' || tournament.teams);
+  const calendarUrl = start
+    ? tournamentService.getExportUrl(tournament.id, 'schedule.ics', { start: new Date(start).toISOString(), minutes })
+    : undefined;
+
+  return (
+    <>
+      <Button variant="outlined" startIcon={<Download />} onClick={(e) => setAnchor(e.currentTarget)}>
+        Export
+      </Button>
+      <Menu anchorEl={anchor} open={!!anchor} onClose={() => setAnchor(null)}>
+        {exports.map(option => (
+          <MenuItem
+            key={option.file}
+            component="a"
+            href={tournamentService.getExportUrl(tournament.id, option.file)}
+            onClick={() => setAnchor(null)}
+          >
+            {option.label}
+          </MenuItem>
+        ))}
+        <MenuItem
+          onClick={() => {
+            setAnchor(null);
+            setCalendarDialog(true);
+          }}
+        >
+          Schedule (iCalendar)…
+        </MenuItem>
+      </Menu>
+
+      <Dialog open={calendarDialog} onClose={() => setCalendarDialog(false)}>
+        <DialogTitle>Export Schedule</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <TextField
+              label="First round starts"
+              type="datetime-local"
+              value={start}
+              onChange={(e) => setStart(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              label="Minutes per round"
+              type="number"
+              value={minutes}
+              onChange={(e) => setMinutes(e.target.value)}
+              helperText="Each round starts this long after the one before"
+              inputProps={{ min: 5, max: 240 }}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCalendarDialog(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            href={calendarUrl}
+            disabled={!calendarUrl}
+            onClick={() => setCalendarDialog(false)}
+          >
+            Download
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default TournamentExportMenu;
@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Button,
+  Chip,
+  Alert,
+  List,
+  ListItemButton,
+  ListItemText,
+  Divider,
+} from '@mui/material';
+import { History, EmojiEvents, UploadFile } from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+import { TournamentSummary } from '../types';
+import { historyService } from '../services/api';
+import { TOURNAMENT_FORMATS } from '../utils/formats';
+import { getTeamKeys, getTeamLabel } from '../utils/teams';
+import { useClub } from '../hooks/useClub';
+import { useAuth } from '../hooks/useAuth';
+import { canManage } from '../utils/permissions';
+
+const TournamentHistory: React.FC = () => {
+  const [tournaments, setTournaments] = useState<TournamentSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const { club } = useClub();
+  const canEdit = canManage(useAuth().user, club?.id);
+
+  useEffect(() => {
+    loadHistory();
+  }, [club?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const loadHistory = async () => {
+    if (!club) return;
+    try {
+      setLoading(true);
+      const data = await historyService.getTournaments(club.id);
+      setTournaments(data);
+    } catch (err) {
+      setError('Failed to load tournament history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Restores a tournament from the JSON file exported from its results page
+  const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !club) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const { tournament } = await historyService.restoreTournament(club.id, JSON.parse(await file.text()));
+      navigate(`/tournaments/${tournament.id}/results`);
+    } catch (err) {
+      setError('Failed to restore the tournament. Choose a tournament.json file exported from a results page.');
+      setLoading(false);
+    }
+  };
+
+  const getWinningTeamLabel = (summary: TournamentSummary) => {
+    const { teamWins } = summary;
+    if (!teamWins) return TOURNAMENT_FORMATS[summary.format].label;
+    const wins = getTeamKeys(teamWins).map(key => teamWins[key]);
+    const best = Math.max(...wins);
+    const leaders = getTeamKeys(teamWins).filter(key => teamWins[key] === best);
+    const score = [...wins].sort((a, b) => b - a).join(' - ');
+    if (leaders.length > 1) return `Draw ${score}`;
+    return `${getTeamLabel(leaders[0])} won ${score}`;
+  };
+
+  return (
+    <Box>
+      <Typography variant="h4" gutterBottom>
+        <History sx={{ mr: 1, verticalAlign: 'middle' }} />
+        Tournament History
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      <Card>
+        <CardContent>
+          <Typography variant="h6" gutterBottom>
+            {club ? `${club.name} Tournaments` : 'Tournaments'} ({tournaments.length})
+          </Typography>
+          <Divider sx={{ mb: 2 }} />
+          {loading ? (
+            <Alert severity="info">Loading tournament history...</Alert>
+          ) : tournaments.length === 0 ? (
+            <Typography color="text.secondary" align="center" sx={{ py: 4 }}>
+              No tournaments played yet.
+            </Typography>
+          ) : (
+            <List>
+              {tournaments.map((summary, index) => (
+                <React.Fragment key={summary.id}>
+                  <ListItemButton
+                    onClick={() => navigate(`/tournaments/${summary.id}/results`)}
+                    sx={{ borderRadius: 1, mb: 1 }}
+                  >
+                    <ListItemText
+                      primary={[summary.name, new Date(summary.createdAt).toLocaleDateString()].filter(Boolean).join(' · ')}
+                      secondary={
+                        <Box component="span" sx={{ display: 'flex', gap: 1, mt: 1, flexWrap: 'wrap' }}>
+                          <Chip
+                            label={summary.status === 'completed' ? 'Completed' : 'In Progress'}
+                            color={summary.status === 'completed' ? 'success' : 'primary'}
+                            size="small"
+                          />
+                          <Chip
+                            label={`${summary.completedMatches}/${summary.totalMatches} matches`}
+                            variant="outlined"
+                            size="small"
+                          />
+                          <Chip
+                            label={`${summary.playerCount} players`}
+                            variant="outlined"
+                            size="small"
+                          />
+                          <Chip
+                            label={getWinningTeamLabel(summary)}
+                            variant="outlined"
+                            size="small"
+                          />
+                          {summary.championName && (
+                            <Chip
+                              icon={<EmojiEvents />}
+                              label={summary.championName}
+                              color="warning"
+                              size="small"
+                            />
+                          )}
+                        </Box>
+                      }
+                    />
+                  </ListItemButton>
+                  {index < tournaments.length - 1 && <Divider />}
+                </React.Fragment>
+              ))}
+            </List>
+          )}
+        </CardContent>
+      </Card>
+
+      <Box sx={{ mt: 3, display: 'flex', gap: 2 }}>
+        <Button
+          variant="outlined"
+          onClick={() => navigate('/players')}
+        >
+          Back to Players
+        </Button>
+        {canEdit && (
+          <Button component="label" variant="outlined" startIcon={<UploadFile />} disabled={loading}>
+            Restore from JSON
+            <input type="file" accept=".json,application/json" hidden onChange={handleRestore} />
+          </Button>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default TournamentHistory;
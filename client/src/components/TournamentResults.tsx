@@ -13,26 +13,48 @@ import {
   ListItemText,
   Divider,
   Avatar,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Tabs,
+  Tab,
 } from '@mui/material';
 import { EmojiEvents, Sports, ArrowBack } from '@mui/icons-material';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useParams } from 'react-router-dom';
 import { TournamentResults as TournamentResultsType, Player } from '../types';
 import { tournamentService } from '../services/api';
+import { formatGames } from '../utils/scoring';
+import RatingTrend from './RatingTrend';
+import PartnershipAnalytics from './PartnershipAnalytics';
+import BracketView from './BracketView';
+import TournamentExportMenu from './TournamentExportMenu';
+import LeagueTable from './LeagueTable';
+import { getLeagueTable, getTeamLabel, getFixtureTeamKeys } from '../utils/teams';
+import { TIEBREAKER_LABELS } from '../utils/standings';
+import { useLiveUpdates } from '../hooks/useLiveUpdates';
 
 const TournamentResults: React.FC = () => {
   const [results, setResults] = useState<TournamentResultsType | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<'results' | 'partnerships'>('results');
   const navigate = useNavigate();
+  const { tournamentId = '' } = useParams<{ tournamentId: string }>();
 
   useEffect(() => {
     loadResults();
-  }, []);
+  }, [tournamentId]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  const loadResults = async () => {
+  // Refresh in place when the tournament on show changes elsewhere
+  useLiveUpdates({ tournamentId }, () => loadResults(false));
+
+  const loadResults = async (showLoading = true) => {
     try {
-      setLoading(true);
-      const data = await tournamentService.getTournamentResults();
+      setLoading(showLoading);
+      setError(null);
+      const data = await tournamentService.getTournamentResults(tournamentId);
       setResults(data);
     } catch (err) {
       setError('Failed to load tournament results');
@@ -76,7 +98,7 @@ const TournamentResults: React.FC = () => {
         <Alert severity="error">{error}</Alert>
         <Button
           variant="contained"
-          onClick={() => navigate('/tournament')}
+          onClick={() => navigate(`/tournaments/${tournamentId}`)}
           sx={{ mt: 2 }}
         >
           Back to Tournament
@@ -106,180 +128,301 @@ const TournamentResults: React.FC = () => {
     );
   }
 
-  const { tournament, teamStats, champion, completedFixtures } = results;
+  const { tournament, teamStats, standings, champion, championPair, groupStandings, players, completedFixtures } = results;
+  const championStanding = champion ? standings.find(row => row.playerId === champion.id) : undefined;
+  const coChampions = championStanding?.tied
+    ? standings.filter(row => row.rank === championStanding.rank && row.playerId !== champion?.id)
+    : [];
+
+  // Each player's rating movement across this tournament's fixtures
+  const getTournamentRatingChange = (playerId: string) =>
+    completedFixtures.reduce((sum, fixture) => sum + (fixture.ratingChanges?.[playerId] || 0), 0);
 
   return (
     <Box>
-      <Typography variant="h4" gutterBottom>
-        <EmojiEvents sx={{ mr: 1, verticalAlign: 'middle' }} />
-        Tournament Results
-      </Typography>
+      <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 2 }}>
+        <Typography variant="h4" gutterBottom sx={{ flexGrow: 1 }}>
+          <EmojiEvents sx={{ mr: 1, verticalAlign: 'middle' }} />
+          {tournament.name ? `${tournament.name} Results` : 'Tournament Results'}
+        </Typography>
+        <TournamentExportMenu tournament={tournament} />
+      </Box>
 
-      {/* Champion Announcement */}
-      {champion && (
-        <Card sx={{ mb: 3, bgcolor: 'gold', color: 'black' }}>
-          <CardContent sx={{ textAlign: 'center' }}>
-            <Avatar sx={{ width: 80, height: 80, mx: 'auto', mb: 2, bgcolor: 'black' }}>
-              <EmojiEvents sx={{ fontSize: 40 }} />
-            </Avatar>
-            <Typography variant="h3" gutterBottom>
-              🏆 CHAMPION OF THE WEEK 🏆
-            </Typography>
-            <Typography variant="h4" gutterBottom>
-              {champion.name}
-            </Typography>
-            <Box sx={{ display: 'flex', justifyContent: 'center', gap: 2 }}>
-              <Chip
-                label={champion.skillLevel}
-                color={getSkillLevelColor(champion.skillLevel) as any}
-                size="medium"
-                sx={{ fontSize: '1rem', height: '32px' }}
-              />
-              <Chip
-                label={`${champion.matchesWon}/${champion.matchesPlayed} wins`}
-                variant="outlined"
-                size="medium"
-                sx={{ fontSize: '1rem', height: '32px' }}
-              />
-            </Box>
-          </CardContent>
-        </Card>
-      )}
+      <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 3 }}>
+        <Tab value="results" label="Results" />
+        <Tab value="partnerships" label="Partnerships" />
+      </Tabs>
+
+      {tab === 'partnerships' ? (
+        <PartnershipAnalytics tournamentId={tournamentId} clubId={tournament.clubId} />
+      ) : (
+        <>
+          {/* Champion Announcement */}
+          {champion && (
+            <Card sx={{ mb: 3, bgcolor: 'gold', color: 'black' }}>
+              <CardContent sx={{ textAlign: 'center' }}>
+                <Avatar sx={{ width: 80, height: 80, mx: 'auto', mb: 2, bgcolor: 'black' }}>
+                  <EmojiEvents sx={{ fontSize: 40 }} />
+                </Avatar>
+                <Typography variant="h3" gutterBottom>
+                  🏆 CHAMPION OF THE WEEK 🏆
+                </Typography>
+                <Typography variant="h4" gutterBottom>
+                  {championPair ? championPair.map(player => player.name).join(' & ') : champion.name}
+                </Typography>
+                <Box sx={{ display: 'flex', justifyContent: 'center', gap: 2 }}>
+                  {!championPair && <Chip
+                    label={champion.skillLevel}
+                    color={getSkillLevelColor(champion.skillLevel) as any}
+                    size="medium"
+                    sx={{ fontSize: '1rem', height: '32px' }}
+                  />}
+                  {championStanding && (
+                    <Chip
+                      label={`${championStanding.wins}/${championStanding.played} wins`}
+                      variant="outlined"
+                      size="medium"
+                      sx={{ fontSize: '1rem', height: '32px' }}
+                    />
+                  )}
+                  {championStanding && (
+                    <Chip
+                      label={`${championStanding.pointDifference > 0 ? '+' : ''}${championStanding.pointDifference} points`}
+                      variant="outlined"
+                      size="medium"
+                      sx={{ fontSize: '1rem', height: '32px' }}
+                    />
+                  )}
+                </Box>
+                {coChampions.length > 0 && (
+                  <Typography variant="body1" sx={{ mt: 2 }}>
+                    Shared with {coChampions.map(row => getPlayerName(row.playerId, players)).join(', ')}
+                  </Typography>
+                )}
+              </CardContent>
+            </Card>
+          )}
 
-      {/* Team Results */}
-      <Box sx={{ display: 'flex', gap: 3, mb: 3, flexWrap: 'wrap' }}>
-        <Box sx={{ flex: 1, minWidth: 300 }}>
-          <Card sx={{ 
-            bgcolor: teamStats.team1.wins > teamStats.team2.wins ? 'success.light' : 'grey.100',
-            color: teamStats.team1.wins > teamStats.team2.wins ? 'white' : 'text.primary'
-          }}>
+          {/* Knockout Bracket */}
+          {(tournament.bracket || groupStandings) && (
+            <Card sx={{ mb: 3 }}>
+              <CardContent>
+                <Typography variant="h6" gutterBottom>
+                  {tournament.bracket ? 'Bracket' : 'Groups'}
+                </Typography>
+                <Divider sx={{ mb: 2 }} />
+                <BracketView
+                  bracket={tournament.bracket}
+                  groupStandings={groupStandings}
+                  advancePerGroup={tournament.advancePerGroup}
+                  fixtures={tournament.fixtures}
+                  players={players}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Player Standings */}
+          <Card sx={{ mb: 3 }}>
             <CardContent>
-              <Typography variant="h5" gutterBottom>
-                Team 1
-              </Typography>
-              <Typography variant="h2" gutterBottom>
-                {teamStats.team1.wins}
-              </Typography>
               <Typography variant="h6" gutterBottom>
-                {teamStats.team1.wins > teamStats.team2.wins ? '🏆 WINNERS' : 
-                 teamStats.team1.wins === teamStats.team2.wins ? '🤝 DRAW' : 'Runner Up'}
+                Player Standings
               </Typography>
+              <Divider sx={{ mb: 2 }} />
+              <Box sx={{ overflowX: 'auto' }}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>#</TableCell>
+                      <TableCell>Player</TableCell>
+                      <TableCell align="right">Played</TableCell>
+                      <TableCell align="right">Won</TableCell>
+                      <TableCell align="right">Win %</TableCell>
+                      <TableCell align="right">Games</TableCell>
+                      <TableCell align="right">Points</TableCell>
+                      <TableCell align="right">+/-</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {standings.map(row => (
+                      <TableRow key={row.playerId}>
+                        <TableCell>{row.tied ? `=${row.rank}` : row.rank}</TableCell>
+                        <TableCell>{getPlayerName(row.playerId, players)}</TableCell>
+                        <TableCell align="right">{row.played}</TableCell>
+                        <TableCell align="right">{row.wins}</TableCell>
+                        <TableCell align="right">{row.winPercentage}</TableCell>
+                        <TableCell align="right">{row.gamesFor}-{row.gamesAgainst}</TableCell>
+                        <TableCell align="right">{row.pointsFor}-{row.pointsAgainst}</TableCell>
+                        <TableCell align="right">{row.pointDifference > 0 ? `+${row.pointDifference}` : row.pointDifference}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Box>
+              {tournament.tiebreakers && (
+                <Typography variant="caption" color="text.secondary">
+                  Ties broken by: {tournament.tiebreakers.map(name => TIEBREAKER_LABELS[name]).join(', ')}
+                </Typography>
+              )}
             </CardContent>
           </Card>
-        </Box>
 
-        <Box sx={{ flex: 1, minWidth: 300 }}>
-          <Card sx={{ 
-            bgcolor: teamStats.team2.wins > teamStats.team1.wins ? 'success.light' : 'grey.100',
-            color: teamStats.team2.wins > teamStats.team1.wins ? 'white' : 'text.primary'
-          }}>
+          {/* League Table */}
+          {teamStats && (
+            <Card sx={{ mb: 3 }}>
+              <CardContent>
+                <Typography variant="h6" gutterBottom>
+                  League Table
+                </Typography>
+                <Divider sx={{ mb: 2 }} />
+                {getLeagueTable(teamStats)[0]?.wins > 0 && (
+                  <Typography variant="subtitle1" sx={{ mb: 1 }}>
+                    🏆 {getLeagueTable(teamStats)
+                      .filter(row => row.rank === getLeagueTable(teamStats)[0].rank)
+                      .map(row => getTeamLabel(row.key))
+                      .join(' & ')}
+                  </Typography>
+                )}
+                <LeagueTable teamStats={teamStats} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Match Results */}
+          <Card sx={{ mb: 3 }}>
             <CardContent>
-              <Typography variant="h5" gutterBottom>
-                Team 2
-              </Typography>
-              <Typography variant="h2" gutterBottom>
-                {teamStats.team2.wins}
-              </Typography>
               <Typography variant="h6" gutterBottom>
-                {teamStats.team2.wins > teamStats.team1.wins ? '🏆 WINNERS' : 
-                 teamStats.team2.wins === teamStats.team1.wins ? '🤝 DRAW' : 'Runner Up'}
+                Match Results ({completedFixtures.length} matches completed)
               </Typography>
-            </CardContent>
-          </Card>
-        </Box>
-      </Box>
-
-      {/* Match Results */}
-      <Card sx={{ mb: 3 }}>
-        <CardContent>
-          <Typography variant="h6" gutterBottom>
-            Match Results ({completedFixtures.length} matches completed)
-          </Typography>
-          <Divider sx={{ mb: 2 }} />
-          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
-            {completedFixtures.map((fixture, index) => (
-              <Box key={fixture.id} sx={{ flex: '1 1 300px', minWidth: 300 }}>
-                <Paper sx={{ p: 2, border: 1, borderColor: 'divider' }}>
-                  <Typography variant="subtitle2" gutterBottom>
-                    Match {index + 1}
-                  </Typography>
+              <Divider sx={{ mb: 2 }} />
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+                {completedFixtures.map(fixture => (
+                  <Box key={fixture.id} sx={{ flex: '1 1 300px', minWidth: 300 }}>
+                    <Paper sx={{ p: 2, border: 1, borderColor: 'divider' }}>
+                      <Typography variant="subtitle2" gutterBottom>
+                        Match {fixture.matchNumber}
+                      </Typography>
                   
-                  <Box sx={{ mb: 1 }}>
-                    <Typography variant="body2" color="text.secondary">
-                      {getPlayerName(fixture.team1[0], [])} & {getPlayerName(fixture.team1[1], [])}
-                    </Typography>
-                    <Typography variant="body2" color="text.secondary" align="center">
-                      vs
-                    </Typography>
-                    <Typography variant="body2" color="text.secondary">
-                      {getPlayerName(fixture.team2[0], [])} & {getPlayerName(fixture.team2[1], [])}
-                    </Typography>
-                  </Box>
+                      <Box sx={{ mb: 1 }}>
+                        <Typography variant="body2" color="text.secondary">
+                          {getPlayerName(fixture.team1[0], players)} & {getPlayerName(fixture.team1[1], players)}
+                        </Typography>
+                        <Typography variant="body2" color="text.secondary" align="center">
+                          vs
+                        </Typography>
+                        <Typography variant="body2" color="text.secondary">
+                          {getPlayerName(fixture.team2[0], players)} & {getPlayerName(fixture.team2[1], players)}
+                        </Typography>
+                      </Box>
 
-                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                    <Typography variant="h6">
-                      {fixture.team1Score} - {fixture.team2Score}
-                    </Typography>
-                    <Chip
-                      label={fixture.winner === 'team1' ? 'Team 1' : 'Team 2'}
-                      color={fixture.winner === 'team1' ? 'primary' : 'secondary'}
-                      size="small"
-                    />
+                      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                        <Typography variant="h6">
+                          {fixture.games && fixture.games.length > 1
+                            ? formatGames(fixture.games)
+                            : `${fixture.team1Score} - ${fixture.team2Score}`}
+                        </Typography>
+                        <Chip
+                          label={
+                            teamStats
+                              ? getTeamLabel(getFixtureTeamKeys(fixture)[fixture.winner === 'team2' ? 1 : 0])
+                              : fixture[fixture.winner || 'team1'].map(id => getPlayerName(id, players)).join(' & ')
+                          }
+                          color={fixture.winner === 'team1' ? 'primary' : 'secondary'}
+                          size="small"
+                        />
+                      </Box>
+                    </Paper>
                   </Box>
-                </Paper>
+                ))}
               </Box>
-            ))}
-          </Box>
-        </CardContent>
-      </Card>
+            </CardContent>
+          </Card>
 
-      {/* Tournament Summary */}
-      <Card>
-        <CardContent>
-          <Typography variant="h6" gutterBottom>
-            Tournament Summary
-          </Typography>
-          <List>
-            <ListItem>
-              <ListItemText
-                primary="Tournament Date"
-                secondary={new Date(tournament.createdAt).toLocaleDateString()}
-              />
-            </ListItem>
-            <Divider />
-            <ListItem>
-              <ListItemText
-                primary="Total Matches"
-                secondary={tournament.fixtures.length}
-              />
-            </ListItem>
-            <Divider />
-            <ListItem>
-              <ListItemText
-                primary="Completed Matches"
-                secondary={completedFixtures.length}
-              />
-            </ListItem>
-            <Divider />
-            <ListItem>
-              <ListItemText
-                primary="Tournament Status"
-                secondary={tournament.status === 'completed' ? 'Completed' : 'In Progress'}
-              />
-            </ListItem>
-          </List>
-        </CardContent>
-      </Card>
+          {/* Player Ratings */}
+          <Card sx={{ mb: 3 }}>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>
+                Player Ratings
+              </Typography>
+              <Divider sx={{ mb: 2 }} />
+              <List>
+                {[...players]
+                  .sort((a, b) => b.rating - a.rating)
+                  .map(player => {
+                    const change = Math.round(getTournamentRatingChange(player.id));
+                    return (
+                      <ListItem key={player.id}>
+                        <ListItemText
+                          primary={player.name}
+                          secondary={`${change > 0 ? '+' : ''}${change} this tournament`}
+                        />
+                        <RatingTrend rating={player.rating} history={player.ratingHistory} />
+                      </ListItem>
+                    );
+                  })}
+              </List>
+            </CardContent>
+          </Card>
+
+          {/* Tournament Summary */}
+          <Card>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>
+                Tournament Summary
+              </Typography>
+              <List>
+                <ListItem>
+                  <ListItemText
+                    primary="Tournament Date"
+                    secondary={new Date(tournament.createdAt).toLocaleDateString()}
+                  />
+                </ListItem>
+                <Divider />
+                <ListItem>
+                  <ListItemText
+                    primary="Total Matches"
+                    secondary={tournament.fixtures.length}
+                  />
+                </ListItem>
+                <Divider />
+                <ListItem>
+                  <ListItemText
+                    primary="Completed Matches"
+                    secondary={completedFixtures.length}
+                  />
+                </ListItem>
+                <Divider />
+                <ListItem>
+                  <ListItemText
+                    primary="Tournament Status"
+                    secondary={tournament.status === 'completed' ? 'Completed' : 'In Progress'}
+                  />
+                </ListItem>
+              </List>
+            </CardContent>
+          </Card>
+        </>
+      )}
 
       {/* Navigation */}
       <Box sx={{ mt: 3, display: 'flex', gap: 2 }}>
-        <Button
-          variant="outlined"
-          startIcon={<ArrowBack />}
-          onClick={() => navigate('/tournament')}
-        >
-          Back to Tournament
-        </Button>
+        {tournament.status === 'completed' ? (
+          <Button
+            variant="outlined"
+            startIcon={<ArrowBack />}
+            onClick={() => navigate('/history')}
+          >
+            Back to History
+          </Button>
+        ) : (
+          <Button
+            variant="outlined"
+            startIcon={<ArrowBack />}
+            onClick={() => navigate(`/tournaments/${tournamentId}`)}
+          >
+            Back to Tournament
+          </Button>
+        )}
         <Button
           variant="contained"
           startIcon={<Sports />}
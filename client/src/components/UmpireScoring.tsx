@@ -0,0 +1,297 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Button,
+  Alert,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Chip,
+} from '@mui/material';
+import { Sports, Undo, ArrowBack } from '@mui/icons-material';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Fixture, Player, ScoringRules, Tournament, UmpireEntry } from '../types';
+import { tournamentService, playerService } from '../services/api';
+import { DEFAULT_SCORING_RULES, formatGames } from '../utils/scoring';
+import { Announcement, Side, UmpireState, replayUmpireLog, toLiveScore } from '../utils/umpire';
+
+const ANNOUNCEMENTS: Record<Exclude<Announcement, null>, string> = {
+  interval: 'Interval',
+  intervalChangeEnds: 'Interval - change ends',
+  gameOver: 'Game - change ends',
+  matchOver: 'Match over',
+};
+
+// Courtside screen for scoring a pending match one rally at a time. Every
+// rally is shared with the server so other devices can follow the score.
+const UmpireScoring: React.FC = () => {
+  const { tournamentId = '', fixtureId } = useParams<{ tournamentId: string; fixtureId: string }>();
+  const navigate = useNavigate();
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [log, setLog] = useState<UmpireEntry[]>([]);
+  const [server, setServer] = useState('');
+  const [receiver, setReceiver] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [syncError, setSyncError] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, [tournamentId, fixtureId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const tournamentData = await tournamentService.getTournament(tournamentId);
+      setTournament(tournamentData);
+      setPlayers(tournamentData ? await playerService.getPlayers(tournamentData.clubId, true) : []);
+
+      // Pick up where the umpire left off, on this device or another; a log
+      // that no longer replays (the scoring rules changed, say) starts over
+      const existing = tournamentData?.fixtures.find(f => f.id === fixtureId);
+      const savedLog = existing?.live?.log || [];
+      try {
+        if (existing) replayUmpireLog(savedLog, existing, tournamentData?.scoringRules || DEFAULT_SCORING_RULES);
+        setLog(savedLog);
+      } catch (err) {
+        setLog([]);
+      }
+    } catch (err) {
+      setError('Failed to load the match');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fixture: Fixture | undefined = tournament?.fixtures.find(f => f.id === fixtureId);
+  const rules: ScoringRules = tournament?.scoringRules || DEFAULT_SCORING_RULES;
+
+  const getPlayerName = (playerId: string | null) =>
+    players.find(p => p.id === playerId)?.name || 'Unknown Player';
+
+  if (!fixture || !tournament) {
+    return (
+      <Box>
+        <Typography variant="h4" gutterBottom>
+          <Sports sx={{ mr: 1, verticalAlign: 'middle' }} />
+          Umpire
+        </Typography>
+        {error && <Alert severity="error">{error}</Alert>}
+        {!loading && !error && <Alert severity="info">Match not found in this tournament.</Alert>}
+      </Box>
+    );
+  }
+
+  const state: UmpireState = replayUmpireLog(log, fixture, rules);
+
+  // Records the entry and shares the new score; scoring carries on if
+  // sharing fails so the umpire is never held up by the network
+  const updateLog = async (nextLog: UmpireEntry[]) => {
+    setLog(nextLog);
+    try {
+      await tournamentService.updateLiveScore(tournament.id, fixture.id, toLiveScore(nextLog, replayUmpireLog(nextLog, fixture, rules)));
+      setSyncError(false);
+    } catch (err) {
+      setSyncError(true);
+    }
+  };
+
+  const handleStartGame = () => {
+    updateLog([...log, { type: 'start', server, receiver }]);
+    setServer('');
+    setReceiver('');
+  };
+
+  const handleRally = (winner: Side) => updateLog([...log, { type: 'rally', winner }]);
+
+  const handleUndo = () => updateLog(log.slice(0, -1));
+
+  const handleSubmit = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      await tournamentService.submitScore(tournament.id, fixture.id, state.games);
+      navigate(`/tournaments/${tournamentId}`);
+    } catch (err) {
+      setError('Failed to submit the result');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAbandon = async () => {
+    try {
+      setLoading(true);
+      await tournamentService.clearLiveScore(tournament.id, fixture.id);
+      navigate(`/tournaments/${tournamentId}`);
+    } catch (err) {
+      setError('Failed to abandon live scoring');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const serverOptions = state.servingSide ? fixture[state.servingSide] : [...fixture.team1, ...fixture.team2];
+  const serverSide: Side | null = fixture.team1.includes(server) ? 'team1' : fixture.team2.includes(server) ? 'team2' : null;
+  const receiverOptions = serverSide ? fixture[serverSide === 'team1' ? 'team2' : 'team1'] : [];
+
+  // Team 1 starts on the umpire's left and the sides swap at every change of ends
+  const sidesInView: Side[] = state.endsChanged ? ['team2', 'team1'] : ['team1', 'team2'];
+
+  const renderSide = (side: Side) => (
+    <Card key={side} variant="outlined" sx={{ flex: 1, borderColor: state.servingSide === side && !state.needsStart ? 'primary.main' : 'divider' }}>
+      <CardContent sx={{ textAlign: 'center' }}>
+        <Typography variant="subtitle1">{fixture[side].map(getPlayerName).join(' & ')}</Typography>
+        <Typography variant="caption" color="text.secondary">
+          Games: {state.gamesWon[side]}
+        </Typography>
+        <Typography variant="h2" sx={{ my: 1 }}>
+          {state.current[side]}
+        </Typography>
+        {state.positions && !state.winner && (
+          <Box sx={{ display: 'flex', gap: 1, justifyContent: 'center', mb: 2 }}>
+            {(['left', 'right'] as const).map(court => {
+              const playerId = state.positions![side][court];
+              return (
+                <Chip
+                  key={court}
+                  label={`${court === 'left' ? 'L' : 'R'}: ${getPlayerName(playerId)}`}
+                  color={playerId === state.server ? 'primary' : playerId === state.receiver ? 'secondary' : 'default'}
+                  variant={playerId === state.server || playerId === state.receiver ? 'filled' : 'outlined'}
+                  size="small"
+                />
+              );
+            })}
+          </Box>
+        )}
+        <Button
+          variant="contained"
+          size="large"
+          fullWidth
+          sx={{ py: 3 }}
+          onClick={() => handleRally(side)}
+          disabled={state.needsStart || !!state.winner}
+        >
+          Rally won
+        </Button>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <Box>
+      <Typography variant="h4" gutterBottom>
+        <Sports sx={{ mr: 1, verticalAlign: 'middle' }} />
+        Umpire · Match {fixture.matchNumber} · Court {fixture.court || 1}
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+      {syncError && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          The live score could not be shared. Scoring continues here and will be shared with the next rally.
+        </Alert>
+      )}
+
+      {fixture.status !== 'pending' ? (
+        <Alert severity="info">This match already has a result.</Alert>
+      ) : (
+        <>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Game {state.gameNumber} of up to {rules.bestOf}
+            {state.games.length > 0 && ` · Previous games: ${formatGames(state.games)}`}
+            {!state.needsStart && !state.winner &&
+              ` · ${getPlayerName(state.server)} serves from the ${state.serviceCourt} court to ${getPlayerName(state.receiver)}`}
+          </Typography>
+
+          {state.announcement && (
+            <Alert severity={state.announcement === 'matchOver' ? 'success' : 'info'} sx={{ mb: 2 }}>
+              {ANNOUNCEMENTS[state.announcement]}
+            </Alert>
+          )}
+
+          {state.needsStart && (
+            <Card sx={{ mb: 2 }}>
+              <CardContent>
+                <Typography variant="h6" gutterBottom>
+                  Start game {state.gameNumber}
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                  {state.servingSide
+                    ? `${fixture[state.servingSide].map(getPlayerName).join(' & ')} won the last game and serve first.`
+                    : 'Choose who serves first and who receives.'}
+                  {' '}Both start in the right service court.
+                </Typography>
+                <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+                  <FormControl sx={{ minWidth: 200 }}>
+                    <InputLabel>Server</InputLabel>
+                    <Select
+                      value={server}
+                      onChange={(e) => { setServer(e.target.value); setReceiver(''); }}
+                      label="Server"
+                    >
+                      {serverOptions.map(id => (
+                        <MenuItem key={id} value={id}>{getPlayerName(id)}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  <FormControl sx={{ minWidth: 200 }} disabled={!serverSide}>
+                    <InputLabel>Receiver</InputLabel>
+                    <Select value={receiver} onChange={(e) => setReceiver(e.target.value)} label="Receiver">
+                      {receiverOptions.map(id => (
+                        <MenuItem key={id} value={id}>{getPlayerName(id)}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  <Button variant="contained" onClick={handleStartGame} disabled={!server || !receiver}>
+                    Start Game
+                  </Button>
+                </Box>
+              </CardContent>
+            </Card>
+          )}
+
+          <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+            {sidesInView.map(renderSide)}
+          </Box>
+
+          {state.winner && (
+            <Alert
+              severity="success"
+              sx={{ mb: 2 }}
+              action={
+                <Button color="inherit" size="small" onClick={handleSubmit} disabled={loading}>
+                  Submit Result
+                </Button>
+              }
+            >
+              {fixture[state.winner].map(getPlayerName).join(' & ')} win {formatGames(state.games)}
+            </Alert>
+          )}
+        </>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 2 }}>
+        <Button variant="outlined" startIcon={<ArrowBack />} onClick={() => navigate(`/tournaments/${tournamentId}`)}>
+          Back to Dashboard
+        </Button>
+        {fixture.status === 'pending' && (
+          <>
+            <Button variant="outlined" startIcon={<Undo />} onClick={handleUndo} disabled={log.length === 0 || loading}>
+              Undo
+            </Button>
+            <Button variant="outlined" color="warning" onClick={handleAbandon} disabled={log.length === 0 || loading}>
+              Abandon Live Scoring
+            </Button>
+          </>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default UmpireScoring;
@@ -0,0 +1,72 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { AuthSession, User } from '../types';
+import { authService, authToken } from '../services/api';
+
+interface AuthContextValue {
+  user: User | null;
+  // No accounts exist yet, so the sign-in page offers to create the organiser
+  setupRequired: boolean;
+  loading: boolean;
+  login: (username: string, password: string) => Promise<void>;
+  // Creates the first organiser along with their club
+  setup: (username: string, password: string, clubName: string) => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [setupRequired, setSetupRequired] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    authService
+      .getStatus()
+      .then(status => {
+        // A stored token the server no longer knows has expired
+        if (!status.user) authToken.clear();
+        setUser(status.user);
+        setSetupRequired(status.setupRequired);
+      })
+      .catch(() => setUser(null))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const startSession = (session: AuthSession) => {
+    authToken.set(session.token);
+    setUser(session.user);
+    setSetupRequired(false);
+  };
+
+  const login = useCallback(async (username: string, password: string) => {
+    startSession(await authService.login(username, password));
+  }, []);
+
+  const setup = useCallback(async (username: string, password: string, clubName: string) => {
+    startSession(await authService.setup(username, password, clubName));
+  }, []);
+
+  const logout = useCallback(async () => {
+    try {
+      await authService.logout();
+    } finally {
+      authToken.clear();
+      setUser(null);
+    }
+  }, []);
+
+  return (
+    <AuthContext.Provider value={{ user, setupRequired, loading, login, setup, logout }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used inside an AuthProvider');
+  }
+  return context;
+};
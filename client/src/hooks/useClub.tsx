@@ -0,0 +1,73 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { Club } from '../types';
+import { clubService } from '../services/api';
+import { useAuth } from './useAuth';
+
+interface ClubContextValue {
+  clubs: Club[];
+  // The club whose players and tournaments are being viewed
+  club: Club | null;
+  loading: boolean;
+  selectClub: (clubId: string) => void;
+  createClub: (name: string) => Promise<Club>;
+  refreshClubs: () => Promise<void>;
+}
+
+// The chosen club is remembered across page loads
+const CLUB_KEY = 'clubId';
+
+const ClubContext = createContext<ClubContextValue | null>(null);
+
+export const ClubProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [clubs, setClubs] = useState<Club[]>([]);
+  const [clubId, setClubId] = useState<string | null>(() => localStorage.getItem(CLUB_KEY));
+  const [loading, setLoading] = useState(true);
+
+  const selectClub = useCallback((id: string) => {
+    localStorage.setItem(CLUB_KEY, id);
+    setClubId(id);
+  }, []);
+
+  const refreshClubs = useCallback(async () => {
+    try {
+      setClubs(await clubService.getClubs());
+    } catch (err) {
+      setClubs([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshClubs();
+  }, [refreshClubs, user]);
+
+  const createClub = useCallback(async (name: string) => {
+    const club = await clubService.createClub(name);
+    await refreshClubs();
+    selectClub(club.id);
+    return club;
+  }, [refreshClubs, selectClub]);
+
+  // Falls back to one of the account's own clubs, or the first one, when
+  // nothing has been chosen yet or the chosen club is gone
+  const club = clubs.find(c => c.id === clubId)
+    || clubs.find(c => user?.memberships.some(m => m.clubId === c.id))
+    || clubs[0]
+    || null;
+
+  return (
+    <ClubContext.Provider value={{ clubs, club, loading, selectClub, createClub, refreshClubs }}>
+      {children}
+    </ClubContext.Provider>
+  );
+};
+
+export const useClub = () => {
+  const context = useContext(ClubContext);
+  if (!context) {
+    throw new Error('useClub must be used inside a ClubProvider');
+  }
+  return context;
+};
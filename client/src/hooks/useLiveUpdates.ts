@@ -0,0 +1,45 @@
+import { useEffect, useRef, useState } from 'react';
+import { ConnectionStatus, LiveEvent, LiveScope } from '../types';
+import { liveUpdates } from '../services/liveUpdates';
+
+// Events arriving together (a catch-up after reconnecting, say) are handed
+// over in one batch so the page reloads once
+const BATCH_DELAY_MS = 250;
+
+// Listens to the scope's events once its club or tournament is known
+export const useLiveUpdates = ({ clubId, tournamentId }: LiveScope, onEvents: (events: LiveEvent[]) => void) => {
+  const handler = useRef(onEvents);
+  handler.current = onEvents;
+
+  useEffect(() => {
+    if (!clubId && !tournamentId) return;
+
+    let pending: LiveEvent[] = [];
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = liveUpdates.subscribe({ clubId, tournamentId }, event => {
+      pending.push(event);
+      if (!timer) {
+        timer = setTimeout(() => {
+          const events = pending;
+          pending = [];
+          timer = null;
+          handler.current(events);
+        }, BATCH_DELAY_MS);
+      }
+    });
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [clubId, tournamentId]);
+};
+
+export const useConnectionStatus = () => {
+  const [status, setStatus] = useState<ConnectionStatus>('connecting');
+
+  useEffect(() => liveUpdates.onStatusChange(setStatus), []);
+
+  return status;
+};
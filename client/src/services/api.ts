@@ -1,7 +1,27 @@
 import axios from 'axios';
-import { Player, Tournament, TournamentResults } from '../types';
+import {
+  Player,
+  Fixture,
+  GameScore,
+  LiveScore,
+  CreateTournamentOptions,
+  Tournament,
+  TournamentResults,
+  TournamentSummary,
+  PartnershipAnalytics,
+  PlayerProfile,
+  RosterFormat,
+  RestoredTournament,
+  TournamentExportFile,
+  RosterImportResult,
+  AuthSession,
+  AuthStatus,
+  Club,
+  ClubMember,
+  UserRole,
+} from '../types';
 
-const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+export const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
 
 const api = axios.create({
   baseURL: API_BASE_URL,
@@ -10,59 +30,222 @@ const api = axios.create({
   },
 });
 
+// The session token is kept across page loads and sent with every request
+const TOKEN_KEY = 'authToken';
+
+export const authToken = {
+  get: (): string | null => localStorage.getItem(TOKEN_KEY),
+  set: (token: string) => localStorage.setItem(TOKEN_KEY, token),
+  clear: () => localStorage.removeItem(TOKEN_KEY),
+};
+
+api.interceptors.request.use(config => {
+  const token = authToken.get();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+export const authService = {
+  getStatus: async (): Promise<AuthStatus> => {
+    const response = await api.get('/auth/status');
+    return response.data;
+  },
+
+  setup: async (username: string, password: string, clubName: string): Promise<AuthSession> => {
+    const response = await api.post('/auth/setup', { username, password, clubName });
+    return response.data;
+  },
+
+  login: async (username: string, password: string): Promise<AuthSession> => {
+    const response = await api.post('/auth/login', { username, password });
+    return response.data;
+  },
+
+  logout: async (): Promise<void> => {
+    await api.post('/auth/logout');
+  },
+};
+
+export const clubService = {
+  getClubs: async (): Promise<Club[]> => {
+    const response = await api.get('/clubs');
+    return response.data;
+  },
+
+  createClub: async (name: string): Promise<Club> => {
+    const response = await api.post('/clubs', { name });
+    return response.data;
+  },
+
+  getMembers: async (clubId: string): Promise<ClubMember[]> => {
+    const response = await api.get(`/clubs/${clubId}/members`);
+    return response.data;
+  },
+
+  // Adds an account to the club, creating it when the username is new, or
+  // changes an existing member's role; the password is only needed for new accounts
+  saveMember: async (clubId: string, username: string, role: UserRole, password?: string): Promise<ClubMember> => {
+    const response = await api.post(`/clubs/${clubId}/members`, { username, password, role });
+    return response.data;
+  },
+
+  removeMember: async (clubId: string, userId: string): Promise<void> => {
+    await api.delete(`/clubs/${clubId}/members/${userId}`);
+  },
+};
+
 export const playerService = {
-  getPlayers: async (): Promise<Player[]> => {
-    const response = await api.get('/players');
+  // Archived players are only needed to put names to past matches
+  getPlayers: async (clubId: string, includeArchived = false): Promise<Player[]> => {
+    const response = await api.get(`/clubs/${clubId}/players`, { params: includeArchived ? { includeArchived } : {} });
+    return response.data;
+  },
+
+  addPlayer: async (clubId: string, name: string, skillLevel: string): Promise<Player> => {
+    const response = await api.post(`/clubs/${clubId}/players`, { name, skillLevel });
+    return response.data;
+  },
+
+  updatePlayer: async (id: string, updates: { name?: string; skillLevel?: string; archived?: boolean }): Promise<Player> => {
+    const response = await api.patch(`/players/${id}`, updates);
     return response.data;
   },
 
-  addPlayer: async (name: string, skillLevel: string): Promise<Player> => {
-    const response = await api.post('/players', { name, skillLevel });
+  // Players who have played in a tournament are archived instead of deleted
+  deletePlayer: async (id: string): Promise<{ archived: boolean; player?: Player }> => {
+    const response = await api.delete(`/players/${id}`);
     return response.data;
   },
 
-  deletePlayer: async (id: string): Promise<void> => {
-    await api.delete(`/players/${id}`);
+  // With preview set the server only reports what the import would do
+  importPlayers: async (clubId: string, format: RosterFormat, content: string, preview: boolean): Promise<RosterImportResult> => {
+    const response = await api.post(`/clubs/${clubId}/players/import`, { format, content, preview });
+    return response.data;
+  },
+
+  // Downloaded by the browser directly, so it is a plain link rather than a request
+  getExportUrl: (clubId: string, format: RosterFormat): string =>
+    `${API_BASE_URL}/clubs/${clubId}/players/export?format=${format}`,
+
+  getProfile: async (id: string): Promise<PlayerProfile> => {
+    const response = await api.get(`/players/${id}/profile`);
+    return response.data;
   },
 };
 
 export const tournamentService = {
-  getCurrentTournament: async (): Promise<Tournament | null> => {
+  getTournament: async (id: string): Promise<Tournament | null> => {
     try {
-      const response = await api.get('/tournament/current');
+      const response = await api.get(`/tournaments/${id}`);
       return response.data;
     } catch (error) {
       return null;
     }
   },
 
-  createTournament: async (playerIds: string[], matchesPerPlayer: number = 6): Promise<Tournament> => {
-    const response = await api.post('/tournament/create', { playerIds, matchesPerPlayer });
+  createTournament: async (
+    clubId: string,
+    playerIds: string[],
+    matchesPerPlayer: number = 6,
+    options: CreateTournamentOptions = {}
+  ): Promise<Tournament> => {
+    const response = await api.post(`/clubs/${clubId}/tournaments`, { playerIds, matchesPerPlayer, ...options });
+    return response.data;
+  },
+
+  regenerateTournament: async (id: string, matchesPerPlayer: number = 6, courts?: number, teamCount?: number): Promise<Tournament> => {
+    const response = await api.post(`/tournaments/${id}/regenerate`, { matchesPerPlayer, courts, teamCount });
+    return response.data;
+  },
+
+  swapPlayers: async (id: string, player1Id: string, player2Id: string): Promise<Tournament> => {
+    const response = await api.post(`/tournaments/${id}/swap-players`, { player1Id, player2Id });
+    return response.data;
+  },
+
+  addPlayer: async (id: string, playerId: string, team?: string): Promise<Tournament> => {
+    const response = await api.post(`/tournaments/${id}/add-player`, { playerId, team });
+    return response.data;
+  },
+
+  withdrawPlayer: async (id: string, playerId: string, replan: boolean = true): Promise<Tournament> => {
+    const response = await api.post(`/tournaments/${id}/withdraw-player`, { playerId, replan });
+    return response.data;
+  },
+
+  submitScore: async (id: string, fixtureId: string, games: GameScore[]): Promise<Fixture> => {
+    const response = await api.post(`/tournaments/${id}/score`, {
+      fixtureId,
+      games,
+    });
+    return response.data;
+  },
+
+  updateLiveScore: async (id: string, fixtureId: string, live: LiveScore): Promise<Fixture> => {
+    const response = await api.put(`/tournaments/${id}/live-score`, { fixtureId, ...live });
     return response.data;
   },
 
-  regenerateTournament: async (matchesPerPlayer: number = 6): Promise<Tournament> => {
-    const response = await api.post('/tournament/regenerate', { matchesPerPlayer });
+  clearLiveScore: async (id: string, fixtureId: string): Promise<Fixture> => {
+    const response = await api.delete(`/tournaments/${id}/live-score/${fixtureId}`);
     return response.data;
   },
 
-  swapPlayers: async (player1Id: string, player2Id: string): Promise<Tournament> => {
-    const response = await api.post('/tournament/swap-players', { player1Id, player2Id });
+  assignScorer: async (id: string, fixtureId: string, scorerId: string | null): Promise<Fixture> => {
+    const response = await api.put(`/tournaments/${id}/fixtures/${fixtureId}/scorer`, { scorerId });
     return response.data;
   },
 
-  submitScore: async (fixtureId: string, team1Score: number, team2Score: number): Promise<any> => {
-    const response = await api.post('/tournament/score', {
+  amendScore: async (id: string, fixtureId: string, games: GameScore[], reason?: string): Promise<Fixture> => {
+    const response = await api.put(`/tournaments/${id}/score`, {
       fixtureId,
-      team1Score,
-      team2Score,
+      games,
+      reason,
     });
     return response.data;
   },
 
-  getTournamentResults: async (): Promise<TournamentResults> => {
-    const response = await api.get('/tournament/results');
+  reopenFixture: async (id: string, fixtureId: string, reason?: string): Promise<Fixture> => {
+    const response = await api.post(`/tournaments/${id}/reopen`, { fixtureId, reason });
+    return response.data;
+  },
+
+  // Plain link for the browser to download; the calendar needs its start time
+  getExportUrl: (id: string, file: TournamentExportFile, params: Record<string, string> = {}): string => {
+    const query = new URLSearchParams(params).toString();
+    return `${API_BASE_URL}/tournaments/${id}/export/${file}${query ? `?${query}` : ''}`;
+  },
+
+  getTournamentResults: async (id: string): Promise<TournamentResults> => {
+    const response = await api.get(`/tournaments/${id}/results`);
+    return response.data;
+  },
+};
+
+// Every tournament a club has run, active ones included
+export const historyService = {
+  getTournaments: async (clubId: string): Promise<TournamentSummary[]> => {
+    const response = await api.get(`/clubs/${clubId}/tournaments`);
+    return response.data;
+  },
+
+  // Takes the parsed contents of a tournament.json export
+  restoreTournament: async (clubId: string, data: unknown): Promise<RestoredTournament> => {
+    const response = await api.post(`/clubs/${clubId}/tournaments/import`, data);
     return response.data;
   },
 };
 
+export const analyticsService = {
+  getClubAnalytics: async (clubId: string): Promise<PartnershipAnalytics> => {
+    const response = await api.get(`/clubs/${clubId}/analytics`);
+    return response.data;
+  },
+
+  getTournamentAnalytics: async (tournamentId: string): Promise<PartnershipAnalytics> => {
+    const response = await api.get(`/tournaments/${tournamentId}/analytics`);
+    return response.data;
+  },
+};
@@ -0,0 +1,133 @@
+import { API_BASE_URL } from './api';
+import { ConnectionStatus, LiveEvent, LiveScope } from '../types';
+
+type EventListener = (event: LiveEvent) => void;
+type StatusListener = (status: ConnectionStatus) => void;
+
+// Wait before reopening a connection the browser gave up on, growing with
+// each failed attempt
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000];
+
+// The status shown for several connections is the least healthy of them
+const STATUS_PRIORITY: ConnectionStatus[] = ['offline', 'reconnecting', 'connecting', 'live'];
+
+interface Connection {
+  query: string;
+  listeners: Set<EventListener>;
+  source: EventSource | null;
+  status: ConnectionStatus;
+  lastEventId: string | null;
+  reconnectAttempts: number;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// Open connections by scope query; pages watching the same scope share one
+const connections = new Map<string, Connection>();
+const statusListeners = new Set<StatusListener>();
+
+const getStatus = (): ConnectionStatus => {
+  if (typeof EventSource === 'undefined') return 'offline';
+  const statuses = Array.from(connections.values(), connection => connection.status);
+  return STATUS_PRIORITY.find(status => statuses.includes(status)) || 'connecting';
+};
+
+const notifyStatus = () => {
+  const status = getStatus();
+  statusListeners.forEach(listener => listener(status));
+};
+
+const setStatus = (connection: Connection, next: ConnectionStatus) => {
+  connection.status = next;
+  notifyStatus();
+};
+
+const getQuery = ({ clubId, tournamentId }: LiveScope) =>
+  tournamentId ? `tournamentId=${encodeURIComponent(tournamentId)}` : `clubId=${encodeURIComponent(clubId || '')}`;
+
+// The server only sends events for the connection's club or tournament. The
+// browser reconnects by itself after a dropped connection and sends the last
+// event ID so the server can replay what was missed; when it gives up we
+// reopen it with that ID.
+const connect = (connection: Connection) => {
+  if (connection.source || typeof EventSource === 'undefined') return;
+
+  const { query, lastEventId } = connection;
+  const source = new EventSource(`${API_BASE_URL}/events?${query}${lastEventId === null ? '' : `&lastEventId=${lastEventId}`}`);
+  connection.source = source;
+
+  source.onopen = () => {
+    connection.reconnectAttempts = 0;
+    setStatus(connection, 'live');
+  };
+
+  source.onmessage = (message: MessageEvent<string>) => {
+    connection.lastEventId = message.lastEventId || connection.lastEventId;
+    const event: LiveEvent = JSON.parse(message.data);
+    if (event.type !== 'connected') {
+      connection.listeners.forEach(listener => listener(event));
+    }
+  };
+
+  source.onerror = () => {
+    if (source.readyState === EventSource.CLOSED) {
+      connection.source = null;
+      setStatus(connection, 'offline');
+      const delay = RECONNECT_DELAYS_MS[Math.min(connection.reconnectAttempts, RECONNECT_DELAYS_MS.length - 1)];
+      connection.reconnectAttempts += 1;
+      connection.reconnectTimer = setTimeout(() => {
+        connection.reconnectTimer = null;
+        connect(connection);
+      }, delay);
+    } else {
+      setStatus(connection, 'reconnecting');
+    }
+  };
+};
+
+const disconnectWhenUnused = (connection: Connection) => {
+  if (connection.listeners.size > 0) return;
+  if (connection.reconnectTimer) {
+    clearTimeout(connection.reconnectTimer);
+  }
+  connection.source?.close();
+  connections.delete(connection.query);
+  notifyStatus();
+};
+
+export const liveUpdates = {
+  // Listens to one club's events, or one tournament's. Returns a function
+  // that stops listening.
+  subscribe: (scope: LiveScope, listener: EventListener) => {
+    const query = getQuery(scope);
+    let connection = connections.get(query);
+    if (!connection) {
+      connection = {
+        query,
+        listeners: new Set(),
+        source: null,
+        status: 'connecting',
+        lastEventId: null,
+        reconnectAttempts: 0,
+        reconnectTimer: null,
+      };
+      connections.set(query, connection);
+      notifyStatus();
+    }
+
+    const opened = connection;
+    opened.listeners.add(listener);
+    connect(opened);
+    return () => {
+      opened.listeners.delete(listener);
+      disconnectWhenUnused(opened);
+    };
+  },
+
+  onStatusChange: (listener: StatusListener) => {
+    statusListeners.add(listener);
+    listener(getStatus());
+    return () => {
+      statusListeners.delete(listener);
+    };
+  },
+};
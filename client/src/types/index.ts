@@ -1,51 +1,445 @@
 export interface Player {
   id: string;
+  clubId: string;
   name: string;
   skillLevel: 'beginner' | 'intermediate' | 'advanced';
   matchesPlayed: number;
   matchesWon: number;
+  rating: number;
+  ratingHistory: RatingEntry[];
+  // Set once a player who has played is removed from the roster; they keep
+  // their name in past results but cannot be picked again until restored
+  archivedAt?: string;
+}
+
+export interface RatingEntry {
+  rating: number;
+  change: number;
+  fixtureId: string;
+  tournamentId: string;
+  ratedAt: string;
 }
 
 export interface Fixture {
   id: string;
+  // Shown on the dashboard and printed sheets; never reused within a tournament
+  matchNumber: number;
   team1: string[];
   team2: string[];
   status: 'pending' | 'completed';
   team1Score?: number;
   team2Score?: number;
+  games?: GameScore[];
   winner?: 'team1' | 'team2';
   completedAt?: string;
+  scoreHistory?: ScoreRevision[];
+  ratingChanges?: Record<string, number>;
+  round?: number;
+  court?: number;
+  // Team leagues: the team each side plays for (team1 vs team2 when absent)
+  teamKeys?: [string, string];
+  // Knockout formats: the group the match belongs to, or its bracket slot
+  group?: string;
+  slotId?: string;
+  // Rally-by-rally score kept by the umpire while the match is in play
+  live?: LiveScore | null;
+  // The scorer account allowed to enter this result, and who entered it
+  scorerId?: string | null;
+  scoredBy?: string;
+  // Result restored from an export, never applied to player stats or ratings
+  imported?: boolean;
+}
+
+export interface GameScore {
+  team1: number;
+  team2: number;
+}
+
+// The umpire's record of a match: who serves to whom at the start of each
+// game, then the side that won each rally
+export type UmpireEntry =
+  | { type: 'start'; server: string; receiver: string }
+  | { type: 'rally'; winner: 'team1' | 'team2' };
+
+export interface LiveScore {
+  log: UmpireEntry[];
+  games: GameScore[];
+  current: GameScore;
+  server: string | null;
+  updatedAt?: string;
+}
+
+export interface ScoringRules {
+  pointsToWin: number;
+  winBy: number;
+  maxPoints: number | null;
+  bestOf: 1 | 3 | 5;
+}
+
+export interface ScoreRevision {
+  action: 'amended' | 'reopened';
+  team1Score: number;
+  team2Score: number;
+  games?: GameScore[];
+  winner: 'team1' | 'team2';
+  completedAt: string;
+  revisedAt: string;
+  reason: string | null;
+  revisedBy?: string;
+}
+
+export type TeamStrategy = 'ai' | 'balanced' | 'manual' | 'random';
+
+export type TournamentFormat =
+  | 'teams'
+  | 'americano'
+  | 'mexicano'
+  | 'singleElimination'
+  | 'doubleElimination'
+  | 'groupsKnockout';
+
+// A bracket side holds a pair of player IDs, null while it waits for an
+// earlier result, or 'bye'
+export type BracketEntry = string[] | 'bye' | null;
+
+export interface BracketSlot {
+  id: string;
+  section: 'winners' | 'losers' | 'final';
+  round: number;
+  order: number;
+  team1: BracketEntry;
+  team2: BracketEntry;
+  winner: 'team1' | 'team2' | null;
+  fixtureId: string | null;
+  // Double elimination grand final: the match played again if the losers
+  // bracket side wins it
+  resetSlotId?: string;
+}
+
+export interface Bracket {
+  type: 'single' | 'double';
+  slots: BracketSlot[];
+}
+
+export interface Group {
+  name: string;
+  pairs: string[][];
+}
+
+export interface PairStanding {
+  pair: string[];
+  played: number;
+  wins: number;
+  losses: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  pointDifference: number;
+}
+
+export interface GroupStandings {
+  name: string;
+  standings: PairStanding[];
+}
+
+export interface CreateTournamentOptions {
+  name?: string;
+  format?: TournamentFormat;
+  courts?: number;
+  scoringRules?: ScoringRules;
+  tiebreakers?: Tiebreaker[];
+  teamStrategy?: TeamStrategy;
+  teamSeed?: number;
+  teamCount?: number;
+  groupCount?: number;
+  advancePerGroup?: number;
+  manualTeams?: Teams;
 }
 
 export interface Tournament {
   id: string;
-  teams: {
-    team1: string[];
-    team2: string[];
-  };
+  clubId: string;
+  name?: string;
+  format?: TournamentFormat;
+  playerIds: string[];
+  // Individual formats rotate partners and have no fixed teams
+  teams: Teams | null;
   fixtures: Fixture[];
+  totalRounds?: number;
   matchesPerPlayer: number;
+  courts?: number;
+  scoringRules?: ScoringRules;
+  tiebreakers?: Tiebreaker[];
+  teamStrategy?: TeamStrategy | null;
+  teamSeed?: number;
+  // Why team league participation could not be balanced, when it could not
+  participationNote?: string | null;
+  // Players who left early keep their results but are out of the teams;
+  // late arrivals are credited with the matches they missed
+  withdrawnPlayerIds?: string[];
+  matchCredits?: Record<string, number>;
+  // Knockout formats play fixed pairs through an optional group stage
+  pairs?: string[][];
+  groups?: Group[] | null;
+  advancePerGroup?: number;
+  bracket?: Bracket | null;
   status: 'active' | 'completed';
   createdAt: string;
   regeneratedAt?: string;
   swappedAt?: string;
+  archive?: TournamentArchive;
+}
+
+// Player IDs per team, keyed team1, team2, ... teamN
+export type Teams = Record<string, string[]>;
+
+// A team league's table row. Archives from before the league table only
+// record wins and players.
+export interface TeamStanding {
+  rank?: number;
+  players: string[];
+  played?: number;
+  wins: number;
+  losses?: number;
+  pointsFor?: number;
+  pointsAgainst?: number;
+  pointDifference?: number;
 }
 
-export interface TeamStats {
-  team1: {
-    wins: number;
-    players: string[];
-  };
-  team2: {
-    wins: number;
-    players: string[];
-  };
+export type TeamStats = Record<string, TeamStanding>;
+
+export type Tiebreaker = 'wins' | 'winPercentage' | 'headToHead' | 'gameDifference' | 'pointDifference' | 'pointsFor';
+
+export interface Standing {
+  playerId: string;
+  rank: number;
+  tied: boolean;
+  played: number;
+  wins: number;
+  losses: number;
+  winPercentage: number;
+  gamesFor: number;
+  gamesAgainst: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  pointDifference: number;
+}
+
+export interface TournamentArchive {
+  teamStats: TeamStats | null;
+  standings?: Standing[];
+  champion: Player | null;
+  championPair?: Player[] | null;
+  players: Player[];
+  archivedAt: string;
 }
 
 export interface TournamentResults {
   tournament: Tournament;
-  teamStats: TeamStats;
+  teamStats: TeamStats | null;
+  standings: Standing[];
   champion: Player | null;
+  championPair?: Player[] | null;
+  groupStandings?: GroupStandings[] | null;
+  players: Player[];
   completedFixtures: Fixture[];
 }
 
+export interface TournamentSummary {
+  id: string;
+  clubId: string;
+  name: string | null;
+  status: 'active' | 'completed';
+  createdAt: string;
+  archivedAt: string | null;
+  format: TournamentFormat;
+  playerCount: number;
+  totalMatches: number;
+  completedMatches: number;
+  teamWins: Record<string, number> | null;
+  championName: string | null;
+}
+
+
+export interface PartnershipRecord {
+  players: [string, string];
+  played: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+}
+
+export interface RivalryRecord {
+  playerId: string;
+  opponentId: string;
+  played: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+}
+
+export interface PartnershipAnalytics {
+  playerIds: string[];
+  players: Player[];
+  partnerships: PartnershipRecord[];
+  rivalries: RivalryRecord[];
+  bestPartnerships: PartnershipRecord[];
+  worstPartnerships: PartnershipRecord[];
+  minPartnershipMatches: number;
+}
+
+// One completed match seen from a player's side
+export interface PlayerMatch {
+  tournamentId: string;
+  tournamentName: string | null;
+  fixtureId: string;
+  playedAt: string;
+  side: 'team1' | 'team2';
+  partnerIds: string[];
+  opponentIds: string[];
+  games: GameScore[];
+  won: boolean;
+  ratingChange: number | null;
+}
+
+export interface WinRatePoint {
+  playedAt: string;
+  played: number;
+  wins: number;
+  winRate: number;
+}
+
+export interface PartnerRecord {
+  playerId: string;
+  played: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+}
+
+export interface PlayerProfile {
+  player: Player;
+  // Oldest first
+  matches: PlayerMatch[];
+  played: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  winRateTrend: WinRatePoint[];
+  // Most frequent first
+  partners: PartnerRecord[];
+  // Partners and opponents, including any since removed from the roster
+  players: Player[];
+}
+
+// Downloads offered for a tournament; team stats only exist for team leagues
+export type TournamentExportFile = 'fixtures.csv' | 'standings.csv' | 'team-stats.csv' | 'tournament.json' | 'schedule.ics';
+
+export interface RestoredTournament {
+  tournament: Tournament;
+  // Players named by the export who were not in this deployment
+  createdPlayers: number;
+}
+
+export type RosterFormat = 'csv' | 'json';
+
+export interface RosterEntry {
+  // Position of the player in the imported file, from 1
+  row: number;
+  name: string;
+  skillLevel: string;
+  rating?: number;
+  matchesPlayed: number;
+  matchesWon: number;
+}
+
+export interface RosterImportResult {
+  additions: RosterEntry[];
+  // Names already on the roster, or earlier in the same file
+  duplicates: { row: number; name: string; duplicateOf: 'roster' | 'archived' | 'file' }[];
+  invalid: { row: number; error: string }[];
+  // Empty for a preview
+  created: Player[];
+}
+
+// Pushed by the server whenever a tournament or the roster changes
+export type LiveEventType =
+  | 'connected'
+  | 'resync'
+  | 'player.created'
+  | 'player.updated'
+  | 'player.deleted'
+  | 'players.imported'
+  | 'tournament.created'
+  | 'tournament.regenerated'
+  | 'tournament.completed'
+  | 'players.swapped'
+  | 'player.joined'
+  | 'player.withdrawn'
+  | 'score.submitted'
+  | 'score.amended'
+  | 'score.reopened'
+  | 'score.live'
+  | 'fixture.assigned';
+
+export interface LiveEvent {
+  id: number;
+  type: LiveEventType;
+  at: string;
+  clubId?: string;
+  tournamentId?: string;
+  fixtureId?: string;
+  playerId?: string;
+  playerIds?: string[];
+}
+
+export type ConnectionStatus = 'connecting' | 'live' | 'reconnecting' | 'offline';
+
+// What a live updates connection carries: a club's events, or one
+// tournament's
+export interface LiveScope {
+  clubId?: string;
+  tournamentId?: string;
+}
+
+// A club owns its players and tournaments; one deployment can host several
+export interface Club {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+// In each of their clubs, organisers run everything, scorers enter results
+// for the fixtures assigned to them and viewers can only look
+export type UserRole = 'organiser' | 'scorer' | 'viewer';
+
+export interface ClubMembership {
+  clubId: string;
+  role: UserRole;
+}
+
+export interface User {
+  id: string;
+  username: string;
+  memberships: ClubMembership[];
+  createdAt: string;
+}
+
+// An account as listed for one club, with its role there
+export interface ClubMember {
+  id: string;
+  username: string;
+  role: UserRole;
+  createdAt: string;
+}
+
+export interface AuthSession {
+  token: string;
+  expiresAt: string;
+  user: User;
+}
+
+export interface AuthStatus {
+  // No accounts yet: the first one to be created is the organiser
+  setupRequired: boolean;
+  user: User | null;
+}
@@ -0,0 +1,60 @@
+import { Tournament, TournamentFormat } from '../types';
+
+// Mirrors TOURNAMENT_FORMATS in server/lib/formats.js
+export const TOURNAMENT_FORMATS: Record<
+  TournamentFormat,
+  { label: string; description: string; individual: boolean; knockout: boolean }
+> = {
+  teams: {
+    label: 'Team league',
+    description: 'Fixed teams; pairs from each team play pairs from every other team',
+    individual: false,
+    knockout: false,
+  },
+  americano: {
+    label: 'Americano',
+    description: 'Partners rotate so everyone partners everyone; players are ranked individually',
+    individual: true,
+    knockout: false,
+  },
+  mexicano: {
+    label: 'Mexicano',
+    description: 'Each round pairs players from the current standings; players are ranked individually',
+    individual: true,
+    knockout: false,
+  },
+  singleElimination: {
+    label: 'Single elimination',
+    description: 'Balanced fixed pairs play a seeded bracket; a pair is out after one loss',
+    individual: false,
+    knockout: true,
+  },
+  doubleElimination: {
+    label: 'Double elimination',
+    description: 'Balanced fixed pairs play a seeded bracket; a pair is out after two losses',
+    individual: false,
+    knockout: true,
+  },
+  groupsKnockout: {
+    label: 'Groups then knockout',
+    description: 'Pairs play round-robin groups; the top pairs from each group go into a knockout bracket',
+    individual: false,
+    knockout: true,
+  },
+};
+
+export const isIndividualFormat = (tournament: Pick<Tournament, 'format'>) =>
+  TOURNAMENT_FORMATS[tournament.format || 'teams'].individual;
+
+export const isKnockoutFormat = (tournament: Pick<Tournament, 'format'>) =>
+  TOURNAMENT_FORMATS[tournament.format || 'teams'].knockout;
+
+// Mirrors the matches-per-player bounds in server/lib/fixtureGenerator.js
+export const MIN_MATCHES_PER_PLAYER = 2;
+export const MAX_MATCHES_PER_PLAYER = 12;
+
+// Keeps a typed matches-per-player value to a whole number the server accepts
+export const clampMatchesPerPlayer = (value: string) => {
+  const matches = parseInt(value, 10);
+  return Number.isNaN(matches) ? 6 : Math.min(MAX_MATCHES_PER_PLAYER, Math.max(MIN_MATCHES_PER_PLAYER, matches));
+};
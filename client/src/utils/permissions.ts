@@ -0,0 +1,14 @@
+// What the signed-in account may change in a club. Mirrors the role checks
+// in server/lib/auth.js; the server has the final say either way.
+import { Fixture, User, UserRole } from '../types';
+
+export const getClubRole = (user: User | null, clubId: string | undefined): UserRole | null =>
+  user?.memberships.find(membership => membership.clubId === clubId)?.role || null;
+
+export const canManage = (user: User | null, clubId: string | undefined) => getClubRole(user, clubId) === 'organiser';
+
+// Organisers may score any fixture of their club; scorers only those assigned to them
+export const canScoreFixture = (user: User | null, clubId: string | undefined, fixture: Fixture) => {
+  const role = getClubRole(user, clubId);
+  return role === 'organiser' || (role === 'scorer' && fixture.scorerId === user?.id);
+};
@@ -0,0 +1,32 @@
+import { SCORING_PRESETS, describeScoringRules, validateGame, validateMatch } from './scoring';
+
+const rules = SCORING_PRESETS.bestOf3.rules;
+
+test('accepts legal final game scores', () => {
+  [[21, 19], [22, 20], [29, 27], [30, 29], [30, 28], [3, 21]].forEach(([team1, team2]) => {
+    expect(validateGame({ team1, team2 }, rules)).toBeNull();
+  });
+});
+
+test('rejects impossible game scores', () => {
+  [[21, 20], [21, 21], [25, 20], [31, 29], [15, 10], [-1, 21]].forEach(([team1, team2]) => {
+    expect(validateGame({ team1, team2 }, rules)).not.toBeNull();
+  });
+});
+
+test('derives the winner from games won', () => {
+  const result = validateMatch([{ team1: 21, team2: 15 }, { team1: 18, team2: 21 }, { team1: 19, team2: 21 }], rules);
+  expect(result.valid).toBe(true);
+  expect(result.winner).toBe('team2');
+  expect(result.gamesWon).toEqual({ team1: 1, team2: 2 });
+});
+
+test('rejects unfinished matches and games after the match is decided', () => {
+  expect(validateMatch([{ team1: 21, team2: 15 }], rules).valid).toBe(false);
+  expect(validateMatch([{ team1: 21, team2: 15 }, { team1: 21, team2: 15 }, { team1: 21, team2: 15 }], rules).valid).toBe(false);
+});
+
+test('describes the rules printed on score sheets', () => {
+  expect(describeScoringRules(rules)).toBe('Best of 3 games to 21, win by 2, capped at 30');
+  expect(describeScoringRules({ ...SCORING_PRESETS.short15.rules, maxPoints: null })).toBe('Single game to 15, win by 2');
+});
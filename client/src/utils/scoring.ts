@@ -0,0 +1,112 @@
+// Badminton scoring rules engine.
+// Mirrors server/lib/scoring.js, which has the final say when a score is
+// submitted - keep the two in sync.
+import { GameScore, ScoringRules } from '../types';
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  pointsToWin: 21,
+  winBy: 2,
+  maxPoints: 30,
+  bestOf: 1,
+};
+
+export const SCORING_PRESETS: Record<string, { label: string; rules: ScoringRules }> = {
+  bestOf1: { label: 'Single game to 21', rules: { ...DEFAULT_SCORING_RULES } },
+  bestOf3: { label: 'Best of 3 games to 21', rules: { ...DEFAULT_SCORING_RULES, bestOf: 3 } },
+  short15: { label: 'Single game to 15', rules: { pointsToWin: 15, winBy: 2, maxPoints: 21, bestOf: 1 } },
+};
+
+export interface MatchValidation {
+  valid: boolean;
+  errors: string[];
+  winner: 'team1' | 'team2' | null;
+  gamesWon: { team1: number; team2: number };
+}
+
+// Returns null for a legal completed game, otherwise the reason it is not
+export const validateGame = (game: GameScore, rules: ScoringRules): string | null => {
+  const { team1, team2 } = game;
+
+  if (!Number.isInteger(team1) || !Number.isInteger(team2) || team1 < 0 || team2 < 0) {
+    return 'Scores must be non-negative whole numbers';
+  }
+  if (team1 === team2) {
+    return 'A game cannot end in a tie';
+  }
+
+  const winning = Math.max(team1, team2);
+  const losing = Math.min(team1, team2);
+
+  if (winning < rules.pointsToWin) {
+    return `The winning side must reach ${rules.pointsToWin} points`;
+  }
+  if (rules.maxPoints !== null && winning > rules.maxPoints) {
+    return `A game is capped at ${rules.maxPoints} points`;
+  }
+  if (winning === rules.pointsToWin) {
+    return winning - losing >= rules.winBy || winning === rules.maxPoints
+      ? null
+      : `A game must be won by ${rules.winBy} points`;
+  }
+
+  // Past the target score play continues until one side leads by winBy,
+  // or the first to reach the cap takes it.
+  if (winning - losing === rules.winBy) {
+    return null;
+  }
+  if (winning === rules.maxPoints && winning - losing < rules.winBy) {
+    return null;
+  }
+  return `${winning}-${losing} is not a possible final score`;
+};
+
+export const validateMatch = (games: GameScore[], rules: ScoringRules): MatchValidation => {
+  const errors: string[] = [];
+  const gamesToWin = Math.ceil(rules.bestOf / 2);
+  const gamesWon = { team1: 0, team2: 0 };
+  let winner: 'team1' | 'team2' | null = null;
+
+  if (games.length === 0) {
+    return { valid: false, errors: ['At least one game score is required'], winner, gamesWon };
+  }
+  if (games.length > rules.bestOf) {
+    errors.push(`A best of ${rules.bestOf} match has at most ${rules.bestOf} games`);
+  }
+
+  games.forEach((game, index) => {
+    if (winner) {
+      errors.push(`Game ${index + 1} was played after the match was already decided`);
+      return;
+    }
+
+    const gameError = validateGame(game, rules);
+    if (gameError) {
+      errors.push(`Game ${index + 1}: ${gameError}`);
+      return;
+    }
+
+    const gameWinner = game.team1 > game.team2 ? 'team1' : 'team2';
+    gamesWon[gameWinner]++;
+    if (gamesWon[gameWinner] === gamesToWin) {
+      winner = gameWinner;
+    }
+  });
+
+  if (!winner && errors.length === 0) {
+    errors.push(`The match is not finished - a side needs ${gamesToWin} game${gamesToWin > 1 ? 's' : ''} to win`);
+  }
+
+  return { valid: errors.length === 0, errors, winner, gamesWon };
+};
+
+export const countGamesWon = (games: GameScore[]) => ({
+  team1: games.filter(game => game.team1 > game.team2).length,
+  team2: games.filter(game => game.team2 > game.team1).length,
+});
+
+export const describeScoringRules = (rules: ScoringRules): string =>
+  `${rules.bestOf === 1 ? 'Single game' : `Best of ${rules.bestOf} games`} to ${rules.pointsToWin}, ` +
+  `win by ${rules.winBy}${rules.maxPoints !== null ? `, capped at ${rules.maxPoints}` : ''}`;
+
+export const formatGames = (games: GameScore[] | undefined): string =>
+  (games || []).map(game => `${game.team1}-${game.team2}`).join(', ');
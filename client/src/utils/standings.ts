@@ -0,0 +1,25 @@
+import { Tiebreaker } from '../types';
+
+export const TIEBREAKER_LABELS: Record<Tiebreaker, string> = {
+  wins: 'wins',
+  winPercentage: 'win %',
+  headToHead: 'head-to-head',
+  gameDifference: 'game difference',
+  pointDifference: 'point difference',
+  pointsFor: 'points scored',
+};
+
+export const TIEBREAKER_PRESETS: Record<string, { label: string; tiebreakers: Tiebreaker[] }> = {
+  headToHeadFirst: {
+    label: 'Wins, win %, head-to-head, then points',
+    tiebreakers: ['wins', 'winPercentage', 'headToHead', 'gameDifference', 'pointDifference', 'pointsFor'],
+  },
+  winPercentageFirst: {
+    label: 'Win %, then head-to-head and points',
+    tiebreakers: ['winPercentage', 'wins', 'headToHead', 'gameDifference', 'pointDifference', 'pointsFor'],
+  },
+  pointsFirst: {
+    label: 'Wins, then point difference before head-to-head',
+    tiebreakers: ['wins', 'winPercentage', 'pointDifference', 'gameDifference', 'headToHead', 'pointsFor'],
+  },
+};
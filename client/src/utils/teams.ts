@@ -0,0 +1,20 @@
+import { Fixture, TeamStats } from '../types';
+
+// Mirrors MAX_TEAM_COUNT in server/lib/teamStrategies.js
+export const MAX_TEAM_COUNT = 8;
+
+// Team keys in team order (team10 after team9)
+export const getTeamKeys = (teams: Record<string, unknown>) =>
+  Object.keys(teams).sort((a, b) => parseInt(a.slice(4), 10) - parseInt(b.slice(4), 10));
+
+export const getTeamLabel = (key: string) => `Team ${key.slice(4)}`;
+
+// Fixtures from before leagues had more than two teams put team1 against team2
+export const getFixtureTeamKeys = (fixture: Fixture): [string, string] =>
+  fixture.teamKeys || ['team1', 'team2'];
+
+// League table rows best first
+export const getLeagueTable = (teamStats: TeamStats) =>
+  getTeamKeys(teamStats)
+    .map(key => ({ key, ...teamStats[key] }))
+    .sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0) || b.wins - a.wins);
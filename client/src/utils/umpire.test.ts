@@ -0,0 +1,62 @@
+import { SCORING_PRESETS } from './scoring';
+import { replayUmpireLog } from './umpire';
+import { UmpireEntry } from '../types';
+
+const pairs = { team1: ['a1', 'a2'], team2: ['b1', 'b2'] };
+const start: UmpireEntry = { type: 'start', server: 'a1', receiver: 'b1' };
+const rallies = (winner: 'team1' | 'team2', count: number): UmpireEntry[] =>
+  Array.from({ length: count }, () => ({ type: 'rally', winner }));
+
+test('the serving side keeps serve and its server switches courts', () => {
+  const state = replayUmpireLog([start, ...rallies('team1', 1)], pairs, SCORING_PRESETS.bestOf3.rules);
+  expect(state.current).toEqual({ team1: 1, team2: 0 });
+  expect(state.server).toBe('a1');
+  expect(state.serviceCourt).toBe('left');
+  expect(state.receiver).toBe('b2');
+});
+
+test('service passes to the player in the court matching the new score', () => {
+  const state = replayUmpireLog([start, ...rallies('team2', 1)], pairs, SCORING_PRESETS.bestOf3.rules);
+  expect(state.servingSide).toBe('team2');
+  expect(state.serviceCourt).toBe('left');
+  expect(state.server).toBe('b2');
+  expect(state.receiver).toBe('a2');
+});
+
+test('the game winner serves first in the next game after changing ends', () => {
+  const rules = SCORING_PRESETS.bestOf3.rules;
+  const log = [start, ...rallies('team1', 21)];
+  const state = replayUmpireLog(log, pairs, rules);
+  expect(state.games).toEqual([{ team1: 21, team2: 0 }]);
+  expect(state.needsStart).toBe(true);
+  expect(state.servingSide).toBe('team1');
+  expect(state.endsChanged).toBe(true);
+  expect(() => replayUmpireLog([...log, { type: 'start', server: 'b1', receiver: 'a1' }], pairs, rules)).toThrow();
+});
+
+test('changes ends at the interval of the deciding game only', () => {
+  const log = [start, ...rallies('team1', 11)];
+  expect(replayUmpireLog(log, pairs, SCORING_PRESETS.bestOf3.rules)).toMatchObject({
+    announcement: 'interval',
+    endsChanged: false,
+  });
+  expect(replayUmpireLog(log, pairs, SCORING_PRESETS.bestOf1.rules)).toMatchObject({
+    announcement: 'intervalChangeEnds',
+    endsChanged: true,
+  });
+});
+
+test('undoing a rally restores the previous state', () => {
+  const rules = SCORING_PRESETS.bestOf1.rules;
+  const log = [start, ...rallies('team1', 3), ...rallies('team2', 2)];
+  expect(replayUmpireLog([...log, ...rallies('team2', 1)].slice(0, -1), pairs, rules)).toEqual(replayUmpireLog(log, pairs, rules));
+});
+
+test('finishes the match at deuce when a side leads by two', () => {
+  const rules = SCORING_PRESETS.bestOf1.rules;
+  const log = [start, ...rallies('team1', 20), ...rallies('team2', 20), ...rallies('team1', 1), ...rallies('team2', 1), ...rallies('team2', 2)];
+  const state = replayUmpireLog(log, pairs, rules);
+  expect(state.winner).toBe('team2');
+  expect(state.games).toEqual([{ team1: 21, team2: 23 }]);
+  expect(state.announcement).toBe('matchOver');
+});
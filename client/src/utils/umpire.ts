@@ -0,0 +1,163 @@
+// Rally-by-rally doubles scoring for the umpire screen. The whole state is
+// replayed from the umpire's log, so undoing a rally is just dropping the
+// last entry. Games end by the same rules the score dialog checks.
+import { GameScore, LiveScore, ScoringRules, UmpireEntry } from '../types';
+import { validateGame } from './scoring';
+
+export type Side = 'team1' | 'team2';
+export type ServiceCourt = 'right' | 'left';
+
+// What the umpire calls after the last rally
+export type Announcement = 'interval' | 'intervalChangeEnds' | 'gameOver' | 'matchOver' | null;
+
+export interface UmpireState {
+  games: GameScore[];
+  current: GameScore;
+  gameNumber: number;
+  // Waiting for the server and receiver of the next game
+  needsStart: boolean;
+  // From the second game on, the winner of the previous game serves first
+  servingSide: Side | null;
+  server: string | null;
+  receiver: string | null;
+  serviceCourt: ServiceCourt;
+  positions: Record<Side, Record<ServiceCourt, string>> | null;
+  // Sides have changed ends an odd number of times since the start
+  endsChanged: boolean;
+  announcement: Announcement;
+  gamesWon: Record<Side, number>;
+  winner: Side | null;
+}
+
+interface Pairs {
+  team1: string[];
+  team2: string[];
+}
+
+const otherSide = (side: Side): Side => (side === 'team1' ? 'team2' : 'team1');
+
+// Score at which a game breaks for its interval: 11 in a game to 21
+const getMidpoint = (rules: ScoringRules) => Math.ceil(rules.pointsToWin / 2);
+
+export const createUmpireState = (): UmpireState => ({
+  games: [],
+  current: { team1: 0, team2: 0 },
+  gameNumber: 1,
+  needsStart: true,
+  servingSide: null,
+  server: null,
+  receiver: null,
+  serviceCourt: 'right',
+  positions: null,
+  endsChanged: false,
+  announcement: null,
+  gamesWon: { team1: 0, team2: 0 },
+  winner: null,
+});
+
+// Applies one log entry. Throws when the entry cannot happen at this point.
+export const applyUmpireEntry = (state: UmpireState, entry: UmpireEntry, pairs: Pairs, rules: ScoringRules): UmpireState => {
+  const sideOf = (playerId: string): Side | null =>
+    pairs.team1.includes(playerId) ? 'team1' : pairs.team2.includes(playerId) ? 'team2' : null;
+
+  if (entry.type === 'start') {
+    if (!state.needsStart) {
+      throw new Error('A game is already in play');
+    }
+    const side = sideOf(entry.server);
+    if (!side || sideOf(entry.receiver) !== otherSide(side)) {
+      throw new Error('The server and receiver must be on opposite sides of this match');
+    }
+    if (state.servingSide && side !== state.servingSide) {
+      throw new Error('The winner of the previous game serves first');
+    }
+
+    // Both start the game in the right service court, partners on the left
+    const partner = (playerId: string, own: Side) => pairs[own].find(id => id !== playerId) as string;
+    const positions = {
+      [side]: { right: entry.server, left: partner(entry.server, side) },
+      [otherSide(side)]: { right: entry.receiver, left: partner(entry.receiver, otherSide(side)) },
+    } as Record<Side, Record<ServiceCourt, string>>;
+
+    return {
+      ...state,
+      needsStart: false,
+      servingSide: side,
+      server: entry.server,
+      receiver: entry.receiver,
+      serviceCourt: 'right',
+      positions,
+      announcement: null,
+    };
+  }
+
+  if (state.needsStart || state.winner || !state.positions || !state.servingSide) {
+    throw new Error('No game is in play');
+  }
+
+  const winner = entry.winner;
+  const current = { ...state.current, [winner]: state.current[winner] + 1 };
+  const positions = { ...state.positions };
+
+  // A side that wins its own serve scores and its server switches courts;
+  // otherwise the service passes over and nobody moves
+  if (winner === state.servingSide) {
+    positions[winner] = { right: positions[winner].left, left: positions[winner].right };
+  }
+
+  // The server stands in the right court on an even score, the left on an odd one
+  const serviceCourt: ServiceCourt = current[winner] % 2 === 0 ? 'right' : 'left';
+  let next: UmpireState = {
+    ...state,
+    current,
+    positions,
+    servingSide: winner,
+    serviceCourt,
+    server: positions[winner][serviceCourt],
+    receiver: positions[otherSide(winner)][serviceCourt],
+    announcement: null,
+  };
+
+  if (validateGame(current, rules) === null) {
+    const gamesWon = { ...state.gamesWon, [winner]: state.gamesWon[winner] + 1 };
+    const matchOver = gamesWon[winner] === Math.ceil(rules.bestOf / 2);
+
+    // Sides change ends after every game; the next one starts from 0-0
+    return {
+      ...next,
+      games: [...state.games, current],
+      current: matchOver ? current : { team1: 0, team2: 0 },
+      gameNumber: matchOver ? state.gameNumber : state.gameNumber + 1,
+      needsStart: !matchOver,
+      endsChanged: matchOver ? state.endsChanged : !state.endsChanged,
+      gamesWon,
+      winner: matchOver ? winner : null,
+      announcement: matchOver ? 'matchOver' : 'gameOver',
+    };
+  }
+
+  // Interval when the leading side first reaches the midpoint; in the
+  // deciding game the sides also change ends
+  const midpoint = getMidpoint(rules);
+  if (current[winner] === midpoint && current[otherSide(winner)] < midpoint) {
+    const deciding = state.gameNumber === rules.bestOf;
+    next = {
+      ...next,
+      endsChanged: deciding ? !state.endsChanged : state.endsChanged,
+      announcement: deciding ? 'intervalChangeEnds' : 'interval',
+    };
+  }
+
+  return next;
+};
+
+export const replayUmpireLog = (log: UmpireEntry[], pairs: Pairs, rules: ScoringRules): UmpireState =>
+  log.reduce((state, entry) => applyUmpireEntry(state, entry, pairs, rules), createUmpireState());
+
+// What other devices see while the match is in play
+export const toLiveScore = (log: UmpireEntry[], state: UmpireState): LiveScore => ({
+  log,
+  games: state.games,
+  current: state.current,
+  server: state.winner ? null : state.server,
+});
@@ -0,0 +1,19 @@
+function createClubRepository(store) {
+  return {
+    findAll() {
+      return store.data.clubs;
+    },
+
+    findById(id) {
+      return store.data.clubs.find(c => c.id === id) || null;
+    },
+
+    create(club) {
+      store.data.clubs.push(club);
+      store.save();
+      return club;
+    }
+  };
+}
+
+module.exports = { createClubRepository };
@@ -0,0 +1,22 @@
+const path = require('path');
+const { createStore } = require('./store');
+const { createPlayerRepository } = require('./playerRepository');
+const { createTournamentRepository } = require('./tournamentRepository');
+const { createClubRepository } = require('./clubRepository');
+const { createUserRepository } = require('./userRepository');
+const { createSessionRepository } = require('./sessionRepository');
+
+const dataFile = process.env.DATA_FILE
+  ? path.resolve(process.env.DATA_FILE)
+  : path.join(__dirname, '..', 'data', 'tournament.json');
+
+const store = createStore(dataFile);
+
+module.exports = {
+  store,
+  playerRepository: createPlayerRepository(store),
+  tournamentRepository: createTournamentRepository(store),
+  clubRepository: createClubRepository(store),
+  userRepository: createUserRepository(store),
+  sessionRepository: createSessionRepository(store)
+};
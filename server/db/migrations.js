@@ -0,0 +1,160 @@
+// Schema migrations for the JSON data file.
+// Each migration upgrades the data from `version - 1` to `version`.
+// Never edit a migration once it has shipped - add a new one instead.
+const migrations = [
+  {
+    version: 1,
+    description: 'Initial schema: players, tournaments and the current tournament pointer',
+    up(data) {
+      return {
+        players: Array.isArray(data.players) ? data.players : [],
+        tournaments: Array.isArray(data.tournaments) ? data.tournaments : [],
+        currentTournamentId: data.currentTournamentId || null
+      };
+    }
+  },
+  {
+    version: 2,
+    description: 'Scoring rules on tournaments and per-game scores on fixtures',
+    up(data) {
+      const tournaments = data.tournaments.map(tournament => ({
+        ...tournament,
+        scoringRules: tournament.scoringRules || { pointsToWin: 21, winBy: 2, maxPoints: 30, bestOf: 1 },
+        fixtures: tournament.fixtures.map(fixture => ({
+          ...fixture,
+          games: fixture.games || (fixture.status === 'completed'
+            ? [{ team1: fixture.team1Score, team2: fixture.team2Score }]
+            : [])
+        }))
+      }));
+      return { ...data, tournaments };
+    }
+  },
+  {
+    version: 3,
+    description: 'Numeric player ratings seeded from skill level, with rating history',
+    up(data) {
+      const initialRatings = { beginner: 1300, intermediate: 1500, advanced: 1700 };
+      const withRating = player => player && ({
+        ...player,
+        rating: typeof player.rating === 'number' ? player.rating : (initialRatings[player.skillLevel] || 1300),
+        ratingHistory: player.ratingHistory || []
+      });
+
+      // Archived result snapshots hold copies of players too
+      const tournaments = data.tournaments.map(tournament => (tournament.archive
+        ? {
+          ...tournament,
+          archive: {
+            ...tournament.archive,
+            champion: withRating(tournament.archive.champion),
+            players: tournament.archive.players.map(withRating)
+          }
+        }
+        : tournament));
+
+      return { ...data, players: data.players.map(withRating), tournaments };
+    }
+  },
+  {
+    version: 4,
+    description: 'Court count on tournaments, round and court on fixtures',
+    up(data) {
+      // Existing tournaments were played one match at a time on a single court
+      const tournaments = data.tournaments.map(tournament => ({
+        ...tournament,
+        courts: tournament.courts || 1,
+        fixtures: tournament.fixtures.map((fixture, index) => ({
+          ...fixture,
+          round: fixture.round || index + 1,
+          court: fixture.court || 1
+        }))
+      }));
+
+      return { ...data, tournaments };
+    }
+  },
+  {
+    version: 5,
+    description: 'Tournament format, with the player list stored apart from teams',
+    up(data) {
+      const tournaments = data.tournaments.map(tournament => ({
+        ...tournament,
+        format: tournament.format || 'teams',
+        playerIds: tournament.playerIds || [...tournament.teams.team1, ...tournament.teams.team2]
+      }));
+
+      return { ...data, tournaments };
+    }
+  },
+  {
+    version: 6,
+    description: 'User accounts with roles, and their sign-in sessions',
+    up(data) {
+      return {
+        ...data,
+        users: Array.isArray(data.users) ? data.users : [],
+        sessions: Array.isArray(data.sessions) ? data.sessions : []
+      };
+    }
+  },
+  {
+    version: 7,
+    description: 'Clubs owning players and tournaments, with club roles for users',
+    up(data) {
+      const { currentTournamentId, ...rest } = data;
+      const hasData = data.players.length > 0 || data.tournaments.length > 0 || data.users.length > 0;
+
+      // Everything so far belonged to the one club the deployment served
+      const clubs = hasData
+        ? [{ id: 'default', name: 'My Club', createdAt: new Date().toISOString() }]
+        : [];
+      const clubId = hasData ? 'default' : null;
+
+      return {
+        ...rest,
+        clubs,
+        players: data.players.map(player => ({ ...player, clubId })),
+        tournaments: data.tournaments.map(tournament => ({ ...tournament, clubId })),
+        users: data.users.map(({ role, ...user }) => ({ ...user, memberships: [{ clubId, role }] }))
+      };
+    }
+  },
+  {
+    version: 8,
+    description: 'Match numbers stored on fixtures',
+    up(data) {
+      // Matches keep the numbers they were shown with: their place in the list
+      const tournaments = data.tournaments.map(tournament => ({
+        ...tournament,
+        fixtures: tournament.fixtures.map((fixture, index) => ({ ...fixture, matchNumber: index + 1 })),
+        lastMatchNumber: tournament.fixtures.length
+      }));
+
+      return { ...data, tournaments };
+    }
+  }
+];
+
+const LATEST_VERSION = migrations.length ? migrations[migrations.length - 1].version : 0;
+
+function migrate(data) {
+  let migrated = { ...data };
+  const fromVersion = migrated.schemaVersion || 0;
+
+  if (fromVersion > LATEST_VERSION) {
+    throw new Error(`Data file schema version ${fromVersion} is newer than this server supports (${LATEST_VERSION})`);
+  }
+
+  migrations
+    .filter(migration => migration.version > fromVersion)
+    .forEach(migration => {
+      console.log(`Applying data migration ${migration.version}: ${migration.description}`);
+      migrated = migration.up(migrated);
+      migrated.schemaVersion = migration.version;
+    });
+
+  return migrated;
+}
+
+module.exports = { migrations, migrate, LATEST_VERSION };
@@ -0,0 +1,47 @@
+function createPlayerRepository(store) {
+  return {
+    findAll() {
+      return store.data.players;
+    },
+
+    findByClub(clubId) {
+      return store.data.players.filter(p => p.clubId === clubId);
+    },
+
+    findById(id) {
+      return store.data.players.find(p => p.id === id) || null;
+    },
+
+    findByIds(ids) {
+      return store.data.players.filter(p => ids.includes(p.id));
+    },
+
+    create(player) {
+      store.data.players.push(player);
+      store.save();
+      return player;
+    },
+
+    update(player) {
+      const index = store.data.players.findIndex(p => p.id === player.id);
+      if (index === -1) {
+        return null;
+      }
+      store.data.players[index] = player;
+      store.save();
+      return player;
+    },
+
+    remove(id) {
+      const index = store.data.players.findIndex(p => p.id === id);
+      if (index === -1) {
+        return false;
+      }
+      store.data.players.splice(index, 1);
+      store.save();
+      return true;
+    }
+  };
+}
+
+module.exports = { createPlayerRepository };
@@ -0,0 +1,31 @@
+// Sessions are stored by a hash of their token, so the data file alone is
+// not enough to sign in as anyone
+function createSessionRepository(store) {
+  const dropExpired = now => {
+    store.data.sessions = store.data.sessions.filter(s => new Date(s.expiresAt).getTime() > now);
+  };
+
+  return {
+    create(session) {
+      dropExpired(Date.now());
+      store.data.sessions.push(session);
+      store.save();
+      return session;
+    },
+
+    findByTokenHash(tokenHash) {
+      const session = store.data.sessions.find(s => s.tokenHash === tokenHash);
+      return session && new Date(session.expiresAt).getTime() > Date.now() ? session : null;
+    },
+
+    removeByTokenHash(tokenHash) {
+      const count = store.data.sessions.length;
+      store.data.sessions = store.data.sessions.filter(s => s.tokenHash !== tokenHash);
+      if (store.data.sessions.length !== count) {
+        store.save();
+      }
+    }
+  };
+}
+
+module.exports = { createSessionRepository };
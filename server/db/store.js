@@ -0,0 +1,46 @@
+const fs = require('fs');
+const path = require('path');
+const { migrate } = require('./migrations');
+
+// File-backed JSON store. The whole document is kept in memory and written
+// back atomically (temp file + rename) on every save, which is plenty for a
+// club-sized roster and survives restarts.
+function createStore(filePath) {
+  let data = load(filePath);
+
+  return {
+    get data() {
+      return data;
+    },
+    save() {
+      write(filePath, data);
+    },
+    reload() {
+      data = load(filePath);
+    }
+  };
+}
+
+function load(filePath) {
+  let raw = {};
+
+  if (fs.existsSync(filePath)) {
+    const contents = fs.readFileSync(filePath, 'utf8');
+    raw = contents.trim() ? JSON.parse(contents) : {};
+  }
+
+  const migrated = migrate(raw);
+  if (migrated.schemaVersion !== raw.schemaVersion) {
+    write(filePath, migrated);
+  }
+  return migrated;
+}
+
+function write(filePath, data) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tempPath, filePath);
+}
+
+module.exports = { createStore };
@@ -0,0 +1,32 @@
+function createTournamentRepository(store) {
+  return {
+    findAll() {
+      return store.data.tournaments;
+    },
+
+    findById(id) {
+      return store.data.tournaments.find(t => t.id === id) || null;
+    },
+
+    findByClub(clubId) {
+      return store.data.tournaments.filter(t => t.clubId === clubId);
+    },
+
+    save(tournament) {
+      upsert(store, tournament);
+      store.save();
+      return tournament;
+    }
+  };
+}
+
+function upsert(store, tournament) {
+  const index = store.data.tournaments.findIndex(t => t.id === tournament.id);
+  if (index === -1) {
+    store.data.tournaments.push(tournament);
+  } else {
+    store.data.tournaments[index] = tournament;
+  }
+}
+
+module.exports = { createTournamentRepository };
@@ -0,0 +1,46 @@
+function createUserRepository(store) {
+  return {
+    findAll() {
+      return store.data.users;
+    },
+
+    findById(id) {
+      return store.data.users.find(u => u.id === id) || null;
+    },
+
+    // Usernames are matched case-insensitively
+    findByUsername(username) {
+      const wanted = username.toLowerCase();
+      return store.data.users.find(u => u.username.toLowerCase() === wanted) || null;
+    },
+
+    create(user) {
+      store.data.users.push(user);
+      store.save();
+      return user;
+    },
+
+    update(user) {
+      const index = store.data.users.findIndex(u => u.id === user.id);
+      if (index === -1) {
+        return null;
+      }
+      store.data.users[index] = user;
+      store.save();
+      return user;
+    },
+
+    remove(id) {
+      const index = store.data.users.findIndex(u => u.id === id);
+      if (index === -1) {
+        return false;
+      }
+      store.data.users.splice(index, 1);
+      store.data.sessions = store.data.sessions.filter(s => s.userId !== id);
+      store.save();
+      return true;
+    }
+  };
+}
+
+module.exports = { createUserRepository };
@@ -1,158 +1,751 @@
 const express = require('express');
 const cors = require('cors');
 const dotenv = require('dotenv');
-const { GoogleGenerativeAI } = require('@google/generative-ai');
 const { v4: uuidv4 } = require('uuid');
 
 dotenv.config();
 
+const {
+  playerRepository,
+  tournamentRepository,
+  clubRepository,
+  userRepository,
+  sessionRepository
+} = require('./db');
+const { migrate, LATEST_VERSION } = require('./db/migrations');
+const { DEFAULT_SCORING_RULES, normalizeRules, validateMatch, normalizeLiveScore } = require('./lib/scoring');
+const { TEAM_STRATEGIES, getTeamStrategy, validateTeams, getTeamKeys, normalizeTeamCount } = require('./lib/teamStrategies');
+const { createAiProvider } = require('./lib/aiProviders');
+const { randomSeed } = require('./lib/random');
+const { initialRating } = require('./lib/ratings');
+const { applyFixtureResult, reverseFixtureResult, retractKnockoutResult } = require('./lib/results');
+const { DEFAULT_TIEBREAKERS, normalizeTiebreakers, calculateStandings } = require('./lib/standings');
+const { calculatePartnershipAnalytics, calculatePlayerHistory } = require('./lib/analytics');
+const {
+  normalizePlayerName,
+  normalizeSkillLevel,
+  normalizePlayerUpdate,
+  normalizeFormat,
+  parseRoster,
+  normalizeRosterEntry,
+  planRosterImport,
+  exportRoster
+} = require('./lib/roster');
+const { DEFAULT_COURTS, normalizeCourts, scheduleRounds } = require('./lib/courtScheduler');
+const { normalizeMatchesPerPlayer, generateFixtures, replanLeague } = require('./lib/fixtureGenerator');
+const { createEventHub } = require('./lib/liveEvents');
+const {
+  fixturesToCsv,
+  standingsToCsv,
+  teamStatsToCsv,
+  tournamentToJson,
+  normalizeTournamentImport,
+  normalizeImportedSettings,
+  restoreTournament,
+  normalizeSchedule,
+  scheduleToICalendar
+} = require('./lib/tournamentExport');
+const {
+  SESSION_TTL_MS,
+  hashPassword,
+  verifyPassword,
+  createToken,
+  hashToken,
+  getBearerToken,
+  normalizeRole,
+  normalizeCredentials,
+  toPublicUser,
+  getClubRole,
+  canScoreFixture
+} = require('./lib/auth');
+const {
+  TOURNAMENT_FORMATS,
+  DEFAULT_FORMAT,
+  getFormat,
+  isTeamLeague,
+  isIndividualFormat,
+  isKnockoutFormat
+} = require('./lib/formats');
+const { generateAmericanoMatches, countMexicanoRounds, generateMexicanoRound } = require('./lib/rotations');
+const { balancePairs } = require('./lib/teamBalancer');
+const { createBracket, createBracketFixtures, recordResult, getBracketWinner } = require('./lib/bracket');
+const {
+  normalizeGroupOptions,
+  createGroups,
+  generateGroupMatches,
+  calculatePairStandings,
+  seedFromGroups
+} = require('./lib/groupStage');
+
 const app = express();
 const PORT = process.env.PORT || 10000;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Restored tournament exports can run to a few megabytes
+app.use(express.json({ limit: '5mb' }));
+
+// Signed-in account, if any, from the bearer token
+app.use((req, res, next) => {
+  const token = getBearerToken(req);
+  const session = token && sessionRepository.findByTokenHash(hashToken(token));
+  req.user = session ? userRepository.findById(session.userId) : null;
+  next();
+});
+
+// Routes under a club or one of its tournaments act within that club
+app.param('clubId', (req, res, next, clubId) => {
+  req.club = clubRepository.findById(clubId);
+  if (!req.club) {
+    return res.status(404).json({ error: 'Club not found' });
+  }
+  next();
+});
+
+app.param('tournamentId', (req, res, next, tournamentId) => {
+  req.tournament = tournamentRepository.findById(tournamentId);
+  if (!req.tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+  req.club = clubRepository.findById(req.tournament.clubId);
+  next();
+});
+
+app.param('playerId', (req, res, next, playerId) => {
+  req.player = playerRepository.findById(playerId);
+  if (!req.player) {
+    return res.status(404).json({ error: 'Player not found' });
+  }
+  req.club = clubRepository.findById(req.player.clubId);
+  next();
+});
+
+// Only lets the listed roles in the route's club through; reading never
+// goes through here
+function requireRole(...roles) {
+  return (req, res, next) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Sign in required' });
+    }
+    if (!roles.includes(getClubRole(req.user, req.club.id))) {
+      return res.status(403).json({ error: 'You do not have permission to do that' });
+    }
+    next();
+  };
+}
+
+function requireSignIn(req, res, next) {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Sign in required' });
+  }
+  next();
+}
+
+// Tournament events pushed to open dashboards and results pages
+const liveEvents = createEventHub();
+
+// Initialize the AI provider (Gemini by default, AI_PROVIDER=stub for a local stand-in)
+const aiProvider = createAiProvider();
+
+// 'ai' asks the AI provider first and falls back to the local balancer;
+// 'balanced' and 'random' need no network access; 'manual' takes the
+// organiser's own team assignments
+const DEFAULT_TEAM_STRATEGY = getTeamStrategy(process.env.TEAM_STRATEGY)
+  ? process.env.TEAM_STRATEGY
+  : 'ai';
+
+// Live updates over Server-Sent Events for one club (?clubId=) or one
+// tournament (?tournamentId=), which also settles the club
+app.get('/api/events', (req, res) => {
+  const { clubId, tournamentId } = req.query;
+  const tournament = tournamentId ? tournamentRepository.findById(tournamentId) : null;
+  if (tournamentId && !tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+
+  const club = clubRepository.findById(tournament ? tournament.clubId : clubId);
+  if (!club) {
+    return res.status(404).json({ error: 'Club not found' });
+  }
+
+  liveEvents.subscribe(req, res, { clubId: club.id, tournamentId: tournament ? tournament.id : null });
+});
+
+// Authentication Routes
+app.get('/api/auth/status', (req, res) => {
+  res.json({
+    setupRequired: userRepository.findAll().length === 0,
+    user: req.user ? toPublicUser(req.user) : null
+  });
+});
+
+// Creates the first organiser; only possible while there are no accounts.
+// They run every club already in the data file, or a new one.
+app.post('/api/auth/setup', (req, res) => {
+  if (userRepository.findAll().length > 0) {
+    return res.status(400).json({ error: 'Setup has already been completed' });
+  }
+
+  let credentials;
+  let clubName;
+  try {
+    credentials = normalizeCredentials(req.body);
+    clubName = normalizeClubName(req.body.clubName === undefined ? 'My Club' : req.body.clubName);
+  } catch (error) {
+    return res.status(400).json({ error: `Invalid account: ${error.message}` });
+  }
+
+  const clubs = clubRepository.findAll().length > 0 ? clubRepository.findAll() : [createClub(clubName)];
+  const user = createUser(credentials, clubs.map(club => ({ clubId: club.id, role: 'organiser' })));
+  res.status(201).json(startSession(user));
+});
+
+app.post('/api/auth/login', (req, res) => {
+  const { username, password } = req.body;
+  const user = typeof username === 'string' && userRepository.findByUsername(username.trim());
+
+  if (!user || typeof password !== 'string' || !verifyPassword(password, user)) {
+    return res.status(401).json({ error: 'Incorrect username or password' });
+  }
+
+  res.json(startSession(user));
+});
+
+app.post('/api/auth/logout', (req, res) => {
+  const token = getBearerToken(req);
+  if (token) {
+    sessionRepository.removeByTokenHash(hashToken(token));
+  }
+  res.json({ message: 'Signed out' });
+});
+
+// Club Routes
+app.get('/api/clubs', (req, res) => {
+  res.json(clubRepository.findAll());
+});
+
+// Anyone signed in can start a club, which they then organise
+app.post('/api/clubs', requireSignIn, (req, res) => {
+  let name;
+  try {
+    name = normalizeClubName(req.body.name);
+  } catch (error) {
+    return res.status(400).json({ error: `Invalid club: ${error.message}` });
+  }
+
+  const club = createClub(name);
+  req.user.memberships.push({ clubId: club.id, role: 'organiser' });
+  userRepository.update(req.user);
+
+  res.status(201).json(club);
+});
+
+// Club Membership Routes
+app.get('/api/clubs/:clubId/members', requireRole('organiser'), (req, res) => {
+  res.json(getClubMembers(req.club.id));
+});
+
+// Adds an account to the club, creating it when the username is new, or
+// changes the role of an existing member
+app.post('/api/clubs/:clubId/members', requireRole('organiser'), (req, res) => {
+  let role;
+  try {
+    role = normalizeRole(req.body.role);
+  } catch (error) {
+    return res.status(400).json({ error: `Invalid account: ${error.message}` });
+  }
+
+  const username = typeof req.body.username === 'string' ? req.body.username.trim() : '';
+  let user = username && userRepository.findByUsername(username);
+
+  if (user && user.id === req.user.id) {
+    return res.status(400).json({ error: 'You cannot change your own role' });
+  }
+
+  if (user) {
+    user.memberships = [...user.memberships.filter(m => m.clubId !== req.club.id), { clubId: req.club.id, role }];
+    userRepository.update(user);
+  } else {
+    let credentials;
+    try {
+      credentials = normalizeCredentials(req.body);
+    } catch (error) {
+      return res.status(400).json({ error: `Invalid account: ${error.message}` });
+    }
+    user = createUser(credentials, [{ clubId: req.club.id, role }]);
+  }
+
+  res.status(201).json(getClubMembers(req.club.id).find(member => member.id === user.id));
+});
+
+// Takes an account out of the club; the account itself stays
+app.delete('/api/clubs/:clubId/members/:userId', requireRole('organiser'), (req, res) => {
+  if (req.params.userId === req.user.id) {
+    return res.status(400).json({ error: 'You cannot remove yourself from the club' });
+  }
+
+  const user = userRepository.findById(req.params.userId);
+  if (!user || !getClubRole(user, req.club.id)) {
+    return res.status(404).json({ error: 'Member not found' });
+  }
 
-// Initialize Gemini AI
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
+  user.memberships = user.memberships.filter(m => m.clubId !== req.club.id);
+  userRepository.update(user);
 
-// In-memory storage (in production, use a database)
-let players = [];
-let tournaments = [];
-let currentTournament = null;
+  res.json({ message: 'Member removed successfully' });
+});
 
 // Player Management Routes
-app.get('/api/players', (req, res) => {
-  res.json(players);
+// Archived players are left out unless asked for, so they cannot be picked
+// for new tournaments; pages showing past matches ask for them to resolve names
+app.get('/api/clubs/:clubId/players', (req, res) => {
+  const players = playerRepository.findByClub(req.club.id);
+  res.json(req.query.includeArchived === 'true' ? players : players.filter(p => !p.archivedAt));
 });
 
-app.post('/api/players', (req, res) => {
+app.post('/api/clubs/:clubId/players', requireRole('organiser'), (req, res) => {
   const { name, skillLevel } = req.body;
   
   if (!name || !skillLevel) {
     return res.status(400).json({ error: 'Name and skill level are required' });
   }
 
-  const validSkillLevels = ['beginner', 'intermediate', 'advanced'];
-  if (!validSkillLevels.includes(skillLevel.toLowerCase())) {
-    return res.status(400).json({ error: 'Invalid skill level. Must be beginner, intermediate, or advanced' });
+  let details;
+  try {
+    details = { name: normalizePlayerName(name), skillLevel: normalizeSkillLevel(skillLevel) };
+  } catch (error) {
+    return res.status(400).json({ error: `Invalid player: ${error.message}` });
+  }
+
+  const player = createPlayer(req.club.id, details);
+  liveEvents.publish('player.created', { clubId: req.club.id, playerId: player.id });
+  res.status(201).json(player);
+});
+
+// Players in a CSV or JSON file. With preview set nothing is saved, so the
+// organiser can check which lines are new, duplicates or unusable first.
+app.post('/api/clubs/:clubId/players/import', requireRole('organiser'), (req, res) => {
+  const { content, preview } = req.body;
+
+  let plan;
+  try {
+    const entries = parseRoster(content, normalizeFormat(req.body.format));
+    plan = planRosterImport(entries, playerRepository.findByClub(req.club.id));
+  } catch (error) {
+    return res.status(400).json({ error: `Invalid roster: ${error.message}` });
   }
 
-  const player = {
-    id: uuidv4(),
-    name,
-    skillLevel: skillLevel.toLowerCase(),
-    matchesPlayed: 0,
-    matchesWon: 0
-  };
+  if (preview) {
+    return res.json({ ...plan, created: [] });
+  }
 
-  players.push(player);
-  res.status(201).json(player);
+  const created = plan.additions.map(({ row, ...details }) => createPlayer(req.club.id, details));
+  if (created.length > 0) {
+    liveEvents.publish('players.imported', { clubId: req.club.id, playerIds: created.map(p => p.id) });
+  }
+  res.status(201).json({ ...plan, created });
 });
 
-app.delete('/api/players/:id', (req, res) => {
-  const playerId = req.params.id;
-  const playerIndex = players.findIndex(p => p.id === playerId);
-  
-  if (playerIndex === -1) {
-    return res.status(404).json({ error: 'Player not found' });
+app.get('/api/clubs/:clubId/players/export', (req, res) => {
+  let format;
+  try {
+    format = normalizeFormat(req.query.format || 'csv');
+  } catch (error) {
+    return res.status(400).json({ error: `Invalid export: ${error.message}` });
+  }
+
+  res.attachment(getDownloadName(req.club.name, `players.${format}`));
+  res.type(format === 'json' ? 'application/json' : 'text/csv');
+  res.send(exportRoster(playerRepository.findByClub(req.club.id).filter(p => !p.archivedAt), format));
+});
+
+// Corrects a player's name or skill level without losing their record, or
+// archives or restores them
+app.patch('/api/players/:playerId', requireRole('organiser'), (req, res) => {
+  const { player } = req;
+
+  let update;
+  try {
+    update = normalizePlayerUpdate(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: `Invalid player: ${error.message}` });
+  }
+
+  const { archived, ...details } = update;
+  if (archived === true && !player.archivedAt) {
+    const active = findActiveTournamentWithPlayer(player);
+    if (active) {
+      return res.status(400).json({ error: `Player is still playing in ${active.name || 'an active tournament'}` });
+    }
+    player.archivedAt = new Date().toISOString();
+  } else if (archived === false) {
+    delete player.archivedAt;
+  }
+
+  // Until a player has a rated match their rating is only a guess from their
+  // skill level, so it follows the level
+  if (details.skillLevel && player.ratingHistory.length === 0) {
+    player.rating = initialRating(details.skillLevel);
+  }
+  Object.assign(player, details);
+
+  playerRepository.update(player);
+  liveEvents.publish('player.updated', { clubId: player.clubId, playerId: player.id });
+  res.json(player);
+});
+
+// Players who have taken part in a tournament are archived rather than
+// deleted, so past fixtures and results still show their name. Anyone still
+// playing in an active tournament has to be withdrawn first.
+app.delete('/api/players/:playerId', requireRole('organiser'), (req, res) => {
+  const { player } = req;
+
+  const active = findActiveTournamentWithPlayer(player);
+  if (active) {
+    return res.status(400).json({ error: `Player is still playing in ${active.name || 'an active tournament'}` });
+  }
+
+  if (tournamentRepository.findByClub(player.clubId).some(t => isPlayerInTournament(t, player.id))) {
+    player.archivedAt = player.archivedAt || new Date().toISOString();
+    playerRepository.update(player);
+    liveEvents.publish('player.updated', { clubId: player.clubId, playerId: player.id });
+    return res.json({ message: 'Player archived because they have played in a tournament', archived: true, player });
   }
 
-  players.splice(playerIndex, 1);
-  res.json({ message: 'Player deleted successfully' });
+  playerRepository.remove(player.id);
+  liveEvents.publish('player.deleted', { clubId: player.clubId, playerId: player.id });
+  res.json({ message: 'Player deleted successfully', archived: false });
+});
+
+// A player's matches across every tournament their club has run
+app.get('/api/players/:playerId/profile', (req, res) => {
+  const { player } = req;
+  const tournaments = tournamentRepository.findByClub(player.clubId);
+  const history = calculatePlayerHistory(player.id, tournaments);
+  const playerIds = [...new Set(history.matches.flatMap(match => [...match.partnerIds, ...match.opponentIds]))];
+  res.json({ player, ...history, players: resolvePlayers(playerIds, tournaments) });
 });
 
 // Tournament Management Routes
-app.get('/api/tournament/current', (req, res) => {
-  res.json(currentTournament);
+// Every tournament the club has run, newest first; several can be active at once
+app.get('/api/clubs/:clubId/tournaments', (req, res) => {
+  const summaries = tournamentRepository.findByClub(req.club.id)
+    .map(summarizeTournament)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  res.json(summaries);
 });
 
-app.post('/api/tournament/create', async (req, res) => {
+app.post('/api/clubs/:clubId/tournaments', requireRole('organiser'), async (req, res) => {
   try {
-    const { playerIds, matchesPerPlayer = 6 } = req.body;
+    const {
+      playerIds,
+      teamStrategy = DEFAULT_TEAM_STRATEGY,
+      teamSeed = randomSeed(),
+      manualTeams,
+      format = DEFAULT_FORMAT
+    } = req.body;
     
     if (!playerIds || playerIds.length < 4) {
       return res.status(400).json({ error: 'At least 4 players are required for a tournament' });
     }
 
-    // Get selected players
-    const selectedPlayers = players.filter(p => playerIds.includes(p.id));
+    if (!getFormat(format)) {
+      return res.status(400).json({ error: `Format must be one of: ${Object.keys(TOURNAMENT_FORMATS).join(', ')}` });
+    }
+
+    if (getFormat(format).knockout && playerIds.length % 2 !== 0) {
+      return res.status(400).json({ error: 'Knockout formats need an even number of players to form pairs' });
+    }
+
+    let groupOptions;
+    if (format === 'groupsKnockout') {
+      try {
+        groupOptions = normalizeGroupOptions(playerIds.length / 2, req.body);
+      } catch (error) {
+        return res.status(400).json({ error: `Invalid group stage: ${error.message}` });
+      }
+    }
+
+    if (!getTeamStrategy(teamStrategy)) {
+      return res.status(400).json({ error: `Team strategy must be one of: ${Object.keys(TEAM_STRATEGIES).join(', ')}` });
+    }
+
+    if (!Number.isInteger(teamSeed) || teamSeed < 0) {
+      return res.status(400).json({ error: 'Team seed must be a non-negative whole number' });
+    }
+
+    let matchesPerPlayer;
+    try {
+      matchesPerPlayer = normalizeMatchesPerPlayer(req.body.matchesPerPlayer);
+    } catch (error) {
+      return res.status(400).json({ error: `Invalid matches per player: ${error.message}` });
+    }
+
+    let scoringRules;
+    try {
+      scoringRules = normalizeRules(req.body.scoringRules);
+    } catch (error) {
+      return res.status(400).json({ error: `Invalid scoring rules: ${error.message}` });
+    }
+
+    let tiebreakers;
+    try {
+      tiebreakers = normalizeTiebreakers(req.body.tiebreakers);
+    } catch (error) {
+      return res.status(400).json({ error: `Invalid tiebreakers: ${error.message}` });
+    }
+
+    let courts;
+    try {
+      courts = normalizeCourts(req.body.courts);
+    } catch (error) {
+      return res.status(400).json({ error: `Invalid court count: ${error.message}` });
+    }
+
+    let name;
+    try {
+      name = normalizeTournamentName(req.body.name, format);
+    } catch (error) {
+      return res.status(400).json({ error: `Invalid tournament name: ${error.message}` });
+    }
+
+    // Get selected players; a club can only enter its own players
+    const selectedPlayers = playerRepository.findByIds(playerIds).filter(p => p.clubId === req.club.id);
     
     if (selectedPlayers.length !== playerIds.length) {
       return res.status(400).json({ error: 'Some selected players not found' });
     }
 
-    // Use AI to create balanced teams
-    const teams = await createBalancedTeams(selectedPlayers, matchesPerPlayer);
-    
-    // Generate fixtures with custom matches per player
-    const fixtures = generateFixtures(teams, matchesPerPlayer);
+    if (selectedPlayers.some(p => p.archivedAt)) {
+      return res.status(400).json({ error: 'Archived players cannot join a tournament' });
+    }
+
+    let teamCount;
+    if (format === 'teams') {
+      try {
+        teamCount = normalizeTeamCount(getRequestedTeamCount(req.body.teamCount, teamStrategy, manualTeams), selectedPlayers.length);
+      } catch (error) {
+        return res.status(400).json({ error: `Invalid team count: ${error.message}` });
+      }
+    }
+
+    if (format === 'teams' && teamStrategy === 'manual') {
+      try {
+        validateTeams(manualTeams, selectedPlayers, teamCount);
+      } catch (error) {
+        return res.status(400).json({ error: `Invalid manual teams: ${error.message}` });
+      }
+    }
 
-    currentTournament = {
+    const tournament = {
       id: uuidv4(),
-      teams,
-      fixtures,
+      clubId: req.club.id,
+      name,
+      format,
+      playerIds: selectedPlayers.map(p => p.id),
+      teams: null,
+      fixtures: [],
       matchesPerPlayer,
+      courts,
+      scoringRules,
+      tiebreakers,
+      teamStrategy: format === 'teams' ? teamStrategy : null,
+      teamSeed,
       status: 'active',
       createdAt: new Date().toISOString()
     };
 
-    console.log(`Tournament created with ${fixtures.length} matches`);
-    console.log(`Team 1: ${teams.team1.length} players`);
-    console.log(`Team 2: ${teams.team2.length} players`);
-    console.log(`Matches per player: ${matchesPerPlayer}`);
+    if (isIndividualFormat(tournament)) {
+      // Partners rotate every round; the seed shuffles the rotation
+      planRotation(tournament, selectedPlayers);
+    } else if (isKnockoutFormat(tournament)) {
+      planKnockout(tournament, selectedPlayers, groupOptions);
+    } else {
+      // Form teams with the chosen strategy
+      tournament.teams = await createTeams(selectedPlayers, matchesPerPlayer, { strategy: teamStrategy, seed: teamSeed, teamCount, manualTeams });
+
+      // Generate fixtures with custom matches per player, grouped into rounds across the courts
+      tournament.fixtures = scheduleRounds(planLeagueFixtures(tournament, selectedPlayers), courts);
+    }
+    numberFixtures(tournament);
+
+    tournamentRepository.save(tournament);
+    const { fixtures, teams } = tournament;
+
+    console.log(`${getFormat(format).label} tournament created with ${fixtures.length} matches over ${fixtures.length ? fixtures[fixtures.length - 1].round : 0} rounds`);
+    if (teams) {
+      logTeamSizes(teams);
+    }
+    console.log(`Matches per player: ${tournament.matchesPerPlayer}`);
 
-    res.json(currentTournament);
+    liveEvents.publish('tournament.created', { clubId: req.club.id, tournamentId: tournament.id });
+    res.json(tournament);
   } catch (error) {
     console.error('Error creating tournament:', error);
     res.status(500).json({ error: 'Failed to create tournament' });
   }
 });
 
-app.post('/api/tournament/regenerate', async (req, res) => {
+// Restores a tournament from its JSON export. Players it names who are not in
+// this deployment are recreated from the export; the tournament keeps its
+// results but they are not applied to anyone's stats or rating again.
+app.post('/api/clubs/:clubId/tournaments/import', requireRole('organiser'), (req, res) => {
+  let imported;
+  try {
+    imported = normalizeTournamentImport(req.body, LATEST_VERSION);
+  } catch (error) {
+    return res.status(400).json({ error: `Invalid tournament export: ${error.message}` });
+  }
+
+  // Exports from older versions are brought up to date like a data file would be
+  const { tournaments: [migrated], players } = imported.schemaVersion < LATEST_VERSION
+    ? migrate({ schemaVersion: imported.schemaVersion, players: imported.players, tournaments: [imported.tournament], users: [] })
+    : { tournaments: [imported.tournament], players: imported.players };
+
+  let tournament;
+  try {
+    tournament = normalizeImportedSettings(migrated);
+  } catch (error) {
+    return res.status(400).json({ error: `Invalid tournament export: ${error.message}` });
+  }
+
+  const otherClubPlayers = players.filter(p => {
+    const existing = playerRepository.findById(p.id);
+    return existing && existing.clubId !== req.club.id;
+  });
+  if (otherClubPlayers.length > 0) {
+    return res.status(400).json({ error: 'Invalid tournament export: some players belong to another club' });
+  }
+
+  // Players are recreated from their checked details only, and only once
+  // every one of them has passed
+  let newPlayers;
+  try {
+    newPlayers = players
+      .filter(p => !playerRepository.findById(p.id))
+      .map(p => ({ id: p.id, details: normalizeRosterEntry(p) }));
+  } catch (error) {
+    return res.status(400).json({ error: `Invalid tournament export: a player is invalid: ${error.message}` });
+  }
+  const created = newPlayers.map(({ id, details }) => createPlayer(req.club.id, details, id));
+
+  const restored = restoreTournament(tournament, {
+    // Restoring twice into one deployment gives a second copy
+    id: tournamentRepository.findById(tournament.id) ? uuidv4() : tournament.id,
+    clubId: req.club.id,
+    createId: uuidv4
+  });
+  // Later matches carry on from the restored match numbers
+  numberFixtures(restored);
+  tournamentRepository.save(restored);
+
+  console.log(`Tournament restored with ${restored.fixtures.length} matches and ${created.length} recreated players`);
+  liveEvents.publish('tournament.created', { clubId: req.club.id, tournamentId: restored.id });
+  res.status(201).json({ tournament: restored, createdPlayers: created.length });
+});
+
+app.post('/api/tournaments/:tournamentId/regenerate', requireRole('organiser'), async (req, res) => {
   try {
-    if (!currentTournament) {
-      return res.status(400).json({ error: 'No active tournament to regenerate' });
+    const { tournament } = req;
+
+    if (tournament.status === 'completed') {
+      return res.status(400).json({ error: 'Tournament is already completed' });
+    }
+
+    if (!isTeamLeague(tournament)) {
+      return res.status(400).json({ error: 'Only team leagues can be regenerated' });
+    }
+
+    const {
+      teamStrategy = tournament.teamStrategy || DEFAULT_TEAM_STRATEGY,
+      teamSeed = randomSeed(),
+      manualTeams = tournament.teams
+    } = req.body;
+
+    if (!getTeamStrategy(teamStrategy)) {
+      return res.status(400).json({ error: `Team strategy must be one of: ${Object.keys(TEAM_STRATEGIES).join(', ')}` });
+    }
+
+    if (!Number.isInteger(teamSeed) || teamSeed < 0) {
+      return res.status(400).json({ error: 'Team seed must be a non-negative whole number' });
     }
 
-    const { matchesPerPlayer = currentTournament.matchesPerPlayer || 6 } = req.body;
+    let matchesPerPlayer;
+    try {
+      matchesPerPlayer = normalizeMatchesPerPlayer(req.body.matchesPerPlayer === undefined ? tournament.matchesPerPlayer : req.body.matchesPerPlayer);
+    } catch (error) {
+      return res.status(400).json({ error: `Invalid matches per player: ${error.message}` });
+    }
+
+    let courts;
+    try {
+      courts = normalizeCourts(req.body.courts === undefined ? tournament.courts : req.body.courts);
+    } catch (error) {
+      return res.status(400).json({ error: `Invalid court count: ${error.message}` });
+    }
     
-    // Get current players
-    const allPlayerIds = [...currentTournament.teams.team1, ...currentTournament.teams.team2];
-    const selectedPlayers = players.filter(p => allPlayerIds.includes(p.id));
+    // Get current players, leaving out anyone who has withdrawn
+    const selectedPlayers = getActivePlayers(tournament);
     
-    if (selectedPlayers.length !== allPlayerIds.length) {
+    if (selectedPlayers.length !== getActivePlayerIds(tournament).length) {
       return res.status(400).json({ error: 'Some players not found' });
     }
 
-    // Use AI to create new balanced teams
-    const teams = await createBalancedTeams(selectedPlayers, matchesPerPlayer);
-    
-    // Generate new fixtures
-    const fixtures = generateFixtures(teams, matchesPerPlayer);
+    let teamCount;
+    try {
+      teamCount = normalizeTeamCount(
+        req.body.teamCount === undefined ? getTeamKeys(tournament.teams).length : req.body.teamCount,
+        selectedPlayers.length
+      );
+    } catch (error) {
+      return res.status(400).json({ error: `Invalid team count: ${error.message}` });
+    }
+
+    if (teamStrategy === 'manual') {
+      try {
+        validateTeams(manualTeams, selectedPlayers, teamCount);
+      } catch (error) {
+        return res.status(400).json({ error: `Invalid manual teams: ${error.message}` });
+      }
+    }
 
-    // Update current tournament
-    currentTournament.teams = teams;
-    currentTournament.fixtures = fixtures;
-    currentTournament.matchesPerPlayer = matchesPerPlayer;
-    currentTournament.regeneratedAt = new Date().toISOString();
+    // Form new teams with the chosen strategy
+    const teams = await createTeams(selectedPlayers, matchesPerPlayer, { strategy: teamStrategy, seed: teamSeed, teamCount, manualTeams });
+    
+    // Update current tournament, keeping completed results and re-planning the rest
+    tournament.teams = teams;
+    tournament.matchesPerPlayer = matchesPerPlayer;
+    tournament.courts = courts;
+    tournament.teamStrategy = teamStrategy;
+    tournament.teamSeed = teamSeed;
+    const fixtures = replanFixtures(tournament, selectedPlayers);
+    tournament.fixtures = fixtures;
+    tournament.regeneratedAt = new Date().toISOString();
+    tournamentRepository.save(tournament);
 
     console.log(`Tournament regenerated with ${fixtures.length} matches`);
-    console.log(`Team 1: ${teams.team1.length} players`);
-    console.log(`Team 2: ${teams.team2.length} players`);
+    logTeamSizes(teams);
     console.log(`Matches per player: ${matchesPerPlayer}`);
 
-    res.json(currentTournament);
+    liveEvents.publish('tournament.regenerated', { clubId: tournament.clubId, tournamentId: tournament.id });
+    res.json(tournament);
   } catch (error) {
     console.error('Error regenerating tournament:', error);
     res.status(500).json({ error: 'Failed to regenerate tournament' });
   }
 });
 
-app.post('/api/tournament/swap-players', async (req, res) => {
+app.post('/api/tournaments/:tournamentId/swap-players', requireRole('organiser'), async (req, res) => {
   try {
-    if (!currentTournament) {
-      return res.status(400).json({ error: 'No active tournament' });
+    const { tournament } = req;
+
+    if (tournament.status === 'completed') {
+      return res.status(400).json({ error: 'Tournament is already completed' });
+    }
+
+    if (!isTeamLeague(tournament)) {
+      return res.status(400).json({ error: 'Players can only be swapped between the teams of a team league' });
     }
 
     const { player1Id, player2Id } = req.body;
@@ -166,493 +759,651 @@ app.post('/api/tournament/swap-players', async (req, res) => {
     }
 
     // Find which teams the players are in
-    const team1Index = currentTournament.teams.team1.indexOf(player1Id);
-    const team2Index = currentTournament.teams.team2.indexOf(player1Id);
-    const player1Team = team1Index !== -1 ? 'team1' : 'team2';
-    const player1TeamIndex = team1Index !== -1 ? team1Index : team2Index;
-
-    const team1Index2 = currentTournament.teams.team1.indexOf(player2Id);
-    const team2Index2 = currentTournament.teams.team2.indexOf(player2Id);
-    const player2Team = team1Index2 !== -1 ? 'team1' : 'team2';
-    const player2TeamIndex = team1Index2 !== -1 ? team1Index2 : team2Index2;
+    const { teams } = tournament;
+    const player1Team = getTeamKeys(teams).find(key => teams[key].includes(player1Id));
+    const player2Team = getTeamKeys(teams).find(key => teams[key].includes(player2Id));
 
-    if (player1TeamIndex === -1 || player2TeamIndex === -1) {
+    if (!player1Team || !player2Team) {
       return res.status(400).json({ error: 'One or both players not found in tournament' });
     }
 
-    // Perform the swap
-    if (player1Team === player2Team) {
-      // Same team - just swap positions
-      const team = currentTournament.teams[player1Team];
-      [team[player1TeamIndex], team[player2TeamIndex]] = [team[player2TeamIndex], team[player1TeamIndex]];
-    } else {
-      // Different teams - swap between teams
-      const team1 = currentTournament.teams.team1;
-      const team2 = currentTournament.teams.team2;
-      
-      if (player1Team === 'team1') {
-        [team1[player1TeamIndex], team2[player2TeamIndex]] = [team2[player2TeamIndex], team1[player1TeamIndex]];
-      } else {
-        [team2[player1TeamIndex], team1[player2TeamIndex]] = [team1[player2TeamIndex], team2[player1TeamIndex]];
-      }
-    }
+    // Perform the swap: trade places, within a team or between two teams
+    const player1TeamIndex = teams[player1Team].indexOf(player1Id);
+    const player2TeamIndex = teams[player2Team].indexOf(player2Id);
+    teams[player1Team][player1TeamIndex] = player2Id;
+    teams[player2Team][player2TeamIndex] = player1Id;
 
-    // Regenerate fixtures with the new team composition
-    const fixtures = generateFixtures(currentTournament.teams, currentTournament.matchesPerPlayer);
-    currentTournament.fixtures = fixtures;
-    currentTournament.swappedAt = new Date().toISOString();
+    // Re-plan the pending fixtures the swapped players were in; completed
+    // results stay, and so do everyone else's pending matches unless
+    // re-planning them too keeps match counts closer (see replanLeague)
+    const fixtures = replanFixtures(
+      tournament,
+      getTournamentPlayers(tournament),
+      fixture => ![...fixture.team1, ...fixture.team2].some(id => id === player1Id || id === player2Id)
+    );
+    tournament.fixtures = fixtures;
+    tournament.swappedAt = new Date().toISOString();
+    tournamentRepository.save(tournament);
 
     console.log(`Players swapped: ${player1Id} <-> ${player2Id}`);
     console.log(`Fixtures regenerated with ${fixtures.length} matches`);
 
-    res.json(currentTournament);
+    liveEvents.publish('players.swapped', { clubId: tournament.clubId, tournamentId: tournament.id, playerIds: [player1Id, player2Id] });
+    res.json(tournament);
   } catch (error) {
     console.error('Error swapping players:', error);
     res.status(500).json({ error: 'Failed to swap players' });
   }
 });
 
-app.post('/api/tournament/score', (req, res) => {
-  const { fixtureId, team1Score, team2Score } = req.body;
-  
-  if (!currentTournament) {
-    return res.status(400).json({ error: 'No active tournament' });
+// Late arrival: puts a player into a team (the smallest one by default) and
+// re-plans every pending match so they get a fair share of what is left
+app.post('/api/tournaments/:tournamentId/add-player', requireRole('organiser'), (req, res) => {
+  try {
+    const { tournament } = req;
+
+    if (tournament.status === 'completed') {
+      return res.status(400).json({ error: 'Tournament is already completed' });
+    }
+
+    if (!isTeamLeague(tournament)) {
+      return res.status(400).json({ error: 'Players can only join the teams of a team league' });
+    }
+
+    const { playerId } = req.body;
+    const player = playerId && playerRepository.findById(playerId);
+    if (!player || player.clubId !== tournament.clubId) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+
+    if (player.archivedAt) {
+      return res.status(400).json({ error: 'Archived players cannot join a tournament' });
+    }
+
+    const { teams } = tournament;
+    const teamKeys = getTeamKeys(teams);
+    if (teamKeys.some(key => teams[key].includes(playerId))) {
+      return res.status(400).json({ error: 'Player is already in the tournament' });
+    }
+
+    const team = req.body.team === undefined
+      ? teamKeys.reduce((smallest, key) => (teams[key].length < teams[smallest].length ? key : smallest))
+      : req.body.team;
+    if (!teamKeys.includes(team)) {
+      return res.status(400).json({ error: `Team must be one of: ${teamKeys.join(', ')}` });
+    }
+
+    // Credit the newcomer with the matches they missed, so they play about
+    // as many more as everyone else still has to play
+    const completed = tournament.fixtures.filter(f => f.status === 'completed');
+    const missed = Math.max(0, getAverageMatchesPlayed(tournament, completed) - countMatchesPlayed(completed, playerId));
+
+    teams[team].push(playerId);
+    if (!tournament.playerIds.includes(playerId)) {
+      tournament.playerIds.push(playerId);
+    }
+    tournament.withdrawnPlayerIds = (tournament.withdrawnPlayerIds || []).filter(id => id !== playerId);
+    tournament.matchCredits = { ...tournament.matchCredits, [playerId]: missed };
+
+    const fixtures = replanFixtures(tournament, getActivePlayers(tournament));
+    tournament.fixtures = fixtures;
+    tournamentRepository.save(tournament);
+
+    console.log(`Player ${player.name} joined ${team}, credited with ${missed} missed matches`);
+    console.log(`Fixtures regenerated with ${fixtures.length} matches`);
+
+    liveEvents.publish('player.joined', { clubId: tournament.clubId, tournamentId: tournament.id, playerId });
+    res.json(tournament);
+  } catch (error) {
+    console.error('Error adding player:', error);
+    res.status(500).json({ error: 'Failed to add player' });
+  }
+});
+
+// Early departure: takes a player out of their team. Their completed results
+// stay; their pending matches are re-planned for the others, or just
+// cancelled when replan is false.
+app.post('/api/tournaments/:tournamentId/withdraw-player', requireRole('organiser'), (req, res) => {
+  try {
+    const { tournament } = req;
+
+    if (tournament.status === 'completed') {
+      return res.status(400).json({ error: 'Tournament is already completed' });
+    }
+
+    if (!isTeamLeague(tournament)) {
+      return res.status(400).json({ error: 'Players can only be withdrawn from the teams of a team league' });
+    }
+
+    const { playerId, replan = true } = req.body;
+    const { teams } = tournament;
+    const team = getTeamKeys(teams).find(key => teams[key].includes(playerId));
+    if (!team) {
+      return res.status(400).json({ error: 'Player not found in tournament' });
+    }
+
+    // Every match takes two players from each side
+    if (teams[team].length <= 2) {
+      return res.status(400).json({ error: `Team ${team.slice(4)} needs at least 2 players` });
+    }
+
+    teams[team] = teams[team].filter(id => id !== playerId);
+    tournament.withdrawnPlayerIds = [...(tournament.withdrawnPlayerIds || []), playerId];
+
+    const involvesPlayer = fixture => [...fixture.team1, ...fixture.team2].includes(playerId);
+    const cancelled = tournament.fixtures.filter(f => f.status === 'pending' && involvesPlayer(f));
+    tournament.fixtures = replan
+      ? replanFixtures(tournament, getActivePlayers(tournament), fixture => !involvesPlayer(fixture))
+      : tournament.fixtures.filter(fixture => !cancelled.includes(fixture));
+    tournamentRepository.save(tournament);
+
+    console.log(`Player ${playerId} withdrawn from ${team}, ${cancelled.length} pending matches ${replan ? 're-planned' : 'cancelled'}`);
+
+    liveEvents.publish('player.withdrawn', { clubId: tournament.clubId, tournamentId: tournament.id, playerId });
+    res.json(tournament);
+  } catch (error) {
+    console.error('Error withdrawing player:', error);
+    res.status(500).json({ error: 'Failed to withdraw player' });
   }
+});
+
+app.post('/api/tournaments/:tournamentId/score', requireRole('organiser', 'scorer'), (req, res) => {
+  const { fixtureId } = req.body;
+  const { tournament } = req;
 
-  const fixture = currentTournament.fixtures.find(f => f.id === fixtureId);
+  const fixture = tournament.fixtures.find(f => f.id === fixtureId);
   if (!fixture) {
     return res.status(404).json({ error: 'Fixture not found' });
   }
 
+  if (!canScoreFixture(req.user, tournament.clubId, fixture)) {
+    return res.status(403).json({ error: 'You are not assigned to score this fixture' });
+  }
+
   if (fixture.status !== 'pending') {
     return res.status(400).json({ error: 'Fixture already completed' });
   }
 
-  // Update fixture
+  const score = resolveMatchScore(req.body, tournament.scoringRules);
+  if (score.error) {
+    return res.status(400).json({ error: score.error });
+  }
+
+  // Update fixture; the umpire's running score is no longer needed
   fixture.status = 'completed';
-  fixture.team1Score = team1Score;
-  fixture.team2Score = team2Score;
-  fixture.winner = team1Score > team2Score ? 'team1' : 'team2';
+  Object.assign(fixture, score);
   fixture.completedAt = new Date().toISOString();
+  fixture.scoredBy = req.user.username;
+  delete fixture.live;
 
-  // Update player statistics
-  const winningTeam = fixture.winner === 'team1' ? fixture.team1 : fixture.team2;
-  const losingTeam = fixture.winner === 'team1' ? fixture.team2 : fixture.team1;
+  // Update player statistics and ratings
+  applyFixtureResult(fixture, tournament.id, playerRepository);
 
-  winningTeam.forEach(playerId => {
-    const player = players.find(p => p.id === playerId);
-    if (player) {
-      player.matchesPlayed++;
-      player.matchesWon++;
-    }
-  });
+  // Mexicano draws its next round once the current one is finished, and
+  // knockout winners move on to their next match
+  if (tournament.format === 'mexicano') {
+    advanceMexicano(tournament);
+  }
+  if (isKnockoutFormat(tournament)) {
+    advanceKnockout(tournament, fixture);
+  }
 
-  losingTeam.forEach(playerId => {
-    const player = players.find(p => p.id === playerId);
-    if (player) {
-      player.matchesPlayed++;
-    }
-  });
+  // Archive the tournament once the last fixture is in
+  if (tournament.fixtures.every(f => f.status === 'completed')) {
+    archiveTournament(tournament);
+  }
+
+  tournamentRepository.save(tournament);
 
+  // The last score in also completes the tournament
+  const eventType = tournament.status === 'completed' ? 'tournament.completed' : 'score.submitted';
+  liveEvents.publish(eventType, { clubId: tournament.clubId, tournamentId: tournament.id, fixtureId });
   res.json(fixture);
 });
 
-app.get('/api/tournament/results', (req, res) => {
-  if (!currentTournament) {
-    return res.status(400).json({ error: 'No active tournament' });
-  }
-
-  const completedFixtures = currentTournament.fixtures.filter(f => f.status === 'completed');
-  const teamStats = calculateTeamStats(currentTournament.teams, completedFixtures);
-  const champion = findChampion(players);
+// Running score from the umpire screen, shown to everyone else while the
+// match is in play. Finishing the match goes through POST /score as usual.
+app.put('/api/tournaments/:tournamentId/live-score', requireRole('organiser', 'scorer'), (req, res) => {
+  const { fixtureId } = req.body;
+  const { tournament } = req;
 
-  res.json({
-    tournament: currentTournament,
-    teamStats,
-    champion,
-    completedFixtures
-  });
-});
+  const fixture = tournament.fixtures.find(f => f.id === fixtureId);
+  if (!fixture) {
+    return res.status(404).json({ error: 'Fixture not found' });
+  }
 
-// AI-powered team creation
-async function createBalancedTeams(players, matchesPerPlayer = 6) {
-  try {
-    const model = genAI.getGenerativeModel({ model: "gemini-pro" });
-    
-    const prompt = `
-    Create balanced teams for a badminton doubles tournament from these players:
-    ${players.map(p => `${p.name} (${p.skillLevel})`).join(', ')}
-    
-    Rules:
-    1. Split into exactly 2 teams
-    2. Balance skill levels across teams
-    3. Each team should have similar total skill distribution
-    4. Consider that each player should get approximately ${matchesPerPlayer} matches
-    5. Create teams that allow for diverse pairings and avoid repetitive matchups
-    6. CRITICAL: Ensure ALL players get fair playing time - the difference in number of matches between any two players MUST be at most 1 match (e.g., if some players get 6 matches, no player should get fewer than 5 or more than 7)
-    7. Optimize team composition to enable balanced match distribution where every player participates in a similar number of matches
-    8. Return only the team assignments in this JSON format:
-    {
-      "team1": ["player1_name", "player2_name", ...],
-      "team2": ["player3_name", "player4_name", ...]
-    }
-    `;
-
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-    
-    // Parse AI response
-    const teamData = JSON.parse(text.replace(/```json\n?|\n?```/g, ''));
-    
-    // Convert player names back to IDs
-    const team1Ids = teamData.team1.map(name => 
-      players.find(p => p.name === name)?.id
-    ).filter(Boolean);
-    
-    const team2Ids = teamData.team2.map(name => 
-      players.find(p => p.name === name)?.id
-    ).filter(Boolean);
+  if (!canScoreFixture(req.user, tournament.clubId, fixture)) {
+    return res.status(403).json({ error: 'You are not assigned to score this fixture' });
+  }
 
-    return {
-      team1: team1Ids,
-      team2: team2Ids
-    };
+  if (fixture.status !== 'pending') {
+    return res.status(400).json({ error: 'Fixture already completed' });
+  }
+
+  let live;
+  try {
+    live = normalizeLiveScore(req.body, fixture);
   } catch (error) {
-    console.error('AI team creation failed, using fallback:', error);
-    // Fallback: simple random assignment
-    const shuffled = [...players].sort(() => Math.random() - 0.5);
-    const mid = Math.ceil(shuffled.length / 2);
-    
-    return {
-      team1: shuffled.slice(0, mid).map(p => p.id),
-      team2: shuffled.slice(mid).map(p => p.id)
-    };
+    return res.status(400).json({ error: `Invalid live score: ${error.message}` });
   }
-}
 
-// Generate fixtures with guaranteed balanced player participation
-function generateFixtures(teams, matchesPerPlayer = 6) {
-  const fixtures = [];
-  const team1 = teams.team1;
-  const team2 = teams.team2;
-  
-  // Calculate target matches per player
-  const targetMatchesPerPlayer = Math.min(matchesPerPlayer, Math.floor((team1.length + team2.length) * 2));
-  const maxMatchesPerPlayer = targetMatchesPerPlayer + 1; // Strict cap: target + 1
-  
-  // Create all possible pairs for each team
-  const team1Pairs = createPairs(team1);
-  const team2Pairs = createPairs(team2);
-  
-  // Track player participation
-  const playerMatchCount = new Map();
-  [...team1, ...team2].forEach(playerId => {
-    playerMatchCount.set(playerId, 0);
-  });
-  
-  // Track used combinations
-  const usedCombinations = new Set();
-  
-  // Generate fixtures using a deterministic approach
-  let totalMatches = 0;
-  const maxTotalMatches = Math.min(team1Pairs.length * team2Pairs.length, targetMatchesPerPlayer * (team1.length + team2.length) / 2);
-  
-  // Create all possible fixture combinations
-  const allPossibleFixtures = [];
-  for (const team1Pair of team1Pairs) {
-    for (const team2Pair of team2Pairs) {
-      const combinationKey = `${team1Pair.sort().join(',')}-${team2Pair.sort().join(',')}`;
-      allPossibleFixtures.push({
-        team1Pair,
-        team2Pair,
-        combinationKey
-      });
-    }
+  fixture.live = { ...live, updatedAt: new Date().toISOString() };
+  tournamentRepository.save(tournament);
+
+  liveEvents.publish('score.live', { clubId: tournament.clubId, tournamentId: tournament.id, fixtureId });
+  res.json(fixture);
+});
+
+// Abandon live scoring without a result
+app.delete('/api/tournaments/:tournamentId/live-score/:fixtureId', requireRole('organiser', 'scorer'), (req, res) => {
+  const { tournament } = req;
+  const fixture = tournament.fixtures.find(f => f.id === req.params.fixtureId);
+  if (!fixture) {
+    return res.status(404).json({ error: 'Fixture not found' });
   }
-  
-  // Smart fixture selection: prioritize players with fewer matches
-  const shuffledFixtures = [...allPossibleFixtures].sort(() => Math.random() - 0.5);
-  
-  // Add fixtures while maintaining balance
-  while (shuffledFixtures.length > 0 && totalMatches < maxTotalMatches) {
-    // Sort remaining fixtures by priority (prefer fixtures with players having fewer matches)
-    shuffledFixtures.sort((a, b) => {
-      const aPlayers = [...a.team1Pair, ...a.team2Pair];
-      const bPlayers = [...b.team1Pair, ...b.team2Pair];
-      
-      const aMinCount = Math.min(...aPlayers.map(p => playerMatchCount.get(p)));
-      const bMinCount = Math.min(...bPlayers.map(p => playerMatchCount.get(p)));
-      
-      // Prioritize fixtures with players who have fewer matches
-      if (aMinCount !== bMinCount) return aMinCount - bMinCount;
-      
-      // Secondary: prefer fixtures where total count is lower
-      const aTotalCount = aPlayers.reduce((sum, p) => sum + playerMatchCount.get(p), 0);
-      const bTotalCount = bPlayers.reduce((sum, p) => sum + playerMatchCount.get(p), 0);
-      return aTotalCount - bTotalCount;
-    });
-    
-    let fixtureAdded = false;
-    
-    // Try to add the highest priority fixture that doesn't violate constraints
-    for (let i = 0; i < shuffledFixtures.length; i++) {
-      const fixture = shuffledFixtures[i];
-      
-      // Check if any player in this fixture would exceed the maximum
-      const wouldExceedMax = [...fixture.team1Pair, ...fixture.team2Pair].some(playerId => 
-        playerMatchCount.get(playerId) >= maxMatchesPerPlayer
-      );
-      
-      // Check if this combination has been used
-      const alreadyUsed = usedCombinations.has(fixture.combinationKey);
-      
-      // Only add if it doesn't exceed max and hasn't been used
-      if (!wouldExceedMax && !alreadyUsed) {
-        fixtures.push({
-          id: uuidv4(),
-          team1: fixture.team1Pair,
-          team2: fixture.team2Pair,
-          status: 'pending',
-          team1Score: null,
-          team2Score: null,
-          winner: null
-        });
-        
-        // Update player match counts
-        [...fixture.team1Pair, ...fixture.team2Pair].forEach(playerId => {
-          playerMatchCount.set(playerId, playerMatchCount.get(playerId) + 1);
-        });
-        
-        usedCombinations.add(fixture.combinationKey);
-        totalMatches++;
-        
-        // Remove this fixture from the list
-        shuffledFixtures.splice(i, 1);
-        fixtureAdded = true;
-        break;
-      } else {
-        // Remove fixtures that can't be used anymore
-        if (wouldExceedMax || alreadyUsed) {
-          shuffledFixtures.splice(i, 1);
-          i--;
-        }
-      }
+
+  if (!canScoreFixture(req.user, tournament.clubId, fixture)) {
+    return res.status(403).json({ error: 'You are not assigned to score this fixture' });
+  }
+
+  delete fixture.live;
+  tournamentRepository.save(tournament);
+
+  liveEvents.publish('score.live', { clubId: tournament.clubId, tournamentId: tournament.id, fixtureId: fixture.id });
+  res.json(fixture);
+});
+
+// Give a scorer the job of scoring a fixture, or take it away with a null scorerId
+app.put('/api/tournaments/:tournamentId/fixtures/:fixtureId/scorer', requireRole('organiser'), (req, res) => {
+  const { scorerId = null } = req.body;
+  const { tournament } = req;
+
+  const fixture = tournament.fixtures.find(f => f.id === req.params.fixtureId);
+  if (!fixture) {
+    return res.status(404).json({ error: 'Fixture not found' });
+  }
+
+  if (scorerId !== null) {
+    const scorer = userRepository.findById(scorerId);
+    if (!scorer || getClubRole(scorer, tournament.clubId) !== 'scorer') {
+      return res.status(400).json({ error: 'Scorer not found' });
     }
-    
-    // If no fixture could be added, break to avoid infinite loop
-    if (!fixtureAdded) {
-      console.log('No more valid fixtures can be added while maintaining balance');
-      break;
+  }
+
+  fixture.scorerId = scorerId;
+  tournamentRepository.save(tournament);
+
+  liveEvents.publish('fixture.assigned', { clubId: tournament.clubId, tournamentId: tournament.id, fixtureId: fixture.id });
+  res.json(fixture);
+});
+
+// Correct the score of a completed fixture
+app.put('/api/tournaments/:tournamentId/score', requireRole('organiser'), (req, res) => {
+  const { fixtureId, reason } = req.body;
+  const { tournament } = req;
+
+  const fixture = tournament.fixtures.find(f => f.id === fixtureId);
+  if (!fixture) {
+    return res.status(404).json({ error: 'Fixture not found' });
+  }
+
+  if (fixture.status !== 'completed') {
+    return res.status(400).json({ error: 'Only completed fixtures can be amended' });
+  }
+
+  const score = resolveMatchScore(req.body, tournament.scoringRules);
+  if (score.error) {
+    return res.status(400).json({ error: score.error });
+  }
+
+  // A knockout winner who stays the winner keeps their place in the next round
+  const knockoutChanged = isKnockoutFormat(tournament) && (!fixture.slotId || score.winner !== fixture.winner);
+  if (knockoutChanged) {
+    const error = retractKnockoutResult(tournament, fixture);
+    if (error) {
+      return res.status(400).json({ error });
     }
   }
-  
-  // Ensure minimum participation for players with very few matches
-  // Changed from targetMatchesPerPlayer - 2 to - 1 to enforce stricter balance
-  const playersWithFewMatches = [...playerMatchCount.entries()]
-    .filter(([_, count]) => count < Math.max(1, targetMatchesPerPlayer - 1))
-    .map(([playerId, _]) => playerId);
-  
-  if (playersWithFewMatches.length > 0) {
-    console.log(`Ensuring minimum participation for ${playersWithFewMatches.length} players with few matches`);
-    
-    for (const playerId of playersWithFewMatches) {
-      // Find pairs that include this player
-      const team1Pair = team1Pairs.find(pair => pair.includes(playerId));
-      const team2Pair = team2Pairs.find(pair => pair.includes(playerId));
-      
-      if (team1Pair) {
-        const availableTeam2Pairs = team2Pairs.filter(pair => 
-          !pair.includes(playerId) && 
-          pair.every(p => playerMatchCount.get(p) < maxMatchesPerPlayer)
-        );
-        
-        if (availableTeam2Pairs.length > 0) {
-          const selectedTeam2Pair = availableTeam2Pairs[Math.floor(Math.random() * availableTeam2Pairs.length)];
-          const combinationKey = `${team1Pair.sort().join(',')}-${selectedTeam2Pair.sort().join(',')}`;
-          
-          if (!usedCombinations.has(combinationKey)) {
-            fixtures.push({
-              id: uuidv4(),
-              team1: team1Pair,
-              team2: selectedTeam2Pair,
-              status: 'pending',
-              team1Score: null,
-              team2Score: null,
-              winner: null
-            });
-            
-            usedCombinations.add(combinationKey);
-            
-            // Update player match counts
-            [...team1Pair, ...selectedTeam2Pair].forEach(playerId => {
-              playerMatchCount.set(playerId, playerMatchCount.get(playerId) + 1);
-            });
-          }
-        }
-      } else if (team2Pair) {
-        const availableTeam1Pairs = team1Pairs.filter(pair => 
-          !pair.includes(playerId) && 
-          pair.every(p => playerMatchCount.get(p) < maxMatchesPerPlayer)
-        );
-        
-        if (availableTeam1Pairs.length > 0) {
-          const selectedTeam1Pair = availableTeam1Pairs[Math.floor(Math.random() * availableTeam1Pairs.length)];
-          const combinationKey = `${selectedTeam1Pair.sort().join(',')}-${team2Pair.sort().join(',')}`;
-          
-          if (!usedCombinations.has(combinationKey)) {
-            fixtures.push({
-              id: uuidv4(),
-              team1: selectedTeam1Pair,
-              team2: team2Pair,
-              status: 'pending',
-              team1Score: null,
-              team2Score: null,
-              winner: null
-            });
-            
-            usedCombinations.add(combinationKey);
-            
-            // Update player match counts
-            [...selectedTeam1Pair, ...team2Pair].forEach(playerId => {
-              playerMatchCount.set(playerId, playerMatchCount.get(playerId) + 1);
-            });
-          }
-        }
-      }
+
+  // Reverse the original result before applying the corrected one
+  reverseFixtureResult(fixture, playerRepository);
+  recordScoreRevision(fixture, 'amended', reason, req.user);
+
+  Object.assign(fixture, score);
+  fixture.completedAt = new Date().toISOString();
+
+  applyFixtureResult(fixture, tournament.id, playerRepository);
+
+  if (knockoutChanged) {
+    advanceKnockout(tournament, fixture);
+  }
+
+  // Keep the archived snapshot in line with the corrected result
+  if (tournament.archive) {
+    archiveTournament(tournament);
+  }
+
+  tournamentRepository.save(tournament);
+
+  liveEvents.publish('score.amended', { clubId: tournament.clubId, tournamentId: tournament.id, fixtureId });
+  res.json(fixture);
+});
+
+// Void the result of a completed fixture so it can be played or scored again
+app.post('/api/tournaments/:tournamentId/reopen', requireRole('organiser'), (req, res) => {
+  const { fixtureId, reason } = req.body;
+  const { tournament } = req;
+
+  const fixture = tournament.fixtures.find(f => f.id === fixtureId);
+  if (!fixture) {
+    return res.status(404).json({ error: 'Fixture not found' });
+  }
+
+  if (fixture.status !== 'completed') {
+    return res.status(400).json({ error: 'Fixture is not completed' });
+  }
+
+  if (isKnockoutFormat(tournament)) {
+    const error = retractKnockoutResult(tournament, fixture);
+    if (error) {
+      return res.status(400).json({ error });
     }
   }
-  
-  // Final balancing pass: ensure difference is at most 1 match between any two players
-  let minMatches = Math.min(...playerMatchCount.values());
-  let maxMatches = Math.max(...playerMatchCount.values());
-  
-  console.log(`Initial distribution - Min: ${minMatches}, Max: ${maxMatches}, Difference: ${maxMatches - minMatches}`);
-  
-  // Keep trying to balance until difference is at most 1
-  let balancingAttempts = 0;
-  const maxBalancingAttempts = 100; // Prevent infinite loops
-  
-  while (maxMatches - minMatches > 1 && balancingAttempts < maxBalancingAttempts) {
-    balancingAttempts++;
-    console.log(`Balancing attempt ${balancingAttempts}: Min: ${minMatches}, Max: ${maxMatches}, Difference: ${maxMatches - minMatches}`);
-    
-    // Find players with the fewest matches
-    const playersWithMinMatches = [...playerMatchCount.entries()]
-      .filter(([_, count]) => count === minMatches)
-      .map(([playerId, _]) => playerId);
-    
-    let matchAdded = false;
-    
-    // Try to add matches for each player with minimum matches
-    for (const playerId of playersWithMinMatches) {
-      const currentCount = playerMatchCount.get(playerId);
-      
-      // Find which team this player is on
-      const isInTeam1 = team1.includes(playerId);
-      const playerTeam = isInTeam1 ? team1 : team2;
-      const opposingTeam = isInTeam1 ? team2 : team1;
-      
-      // Sort potential partners by their match count (prefer partners with fewer matches)
-      const sortedPartners = playerTeam
-        .filter(pId => pId !== playerId)
-        .sort((a, b) => playerMatchCount.get(a) - playerMatchCount.get(b));
-      
-      // Try each potential partner
-      for (const partnerId of sortedPartners) {
-        const partnerCount = playerMatchCount.get(partnerId);
-        
-        // Be more lenient: allow partner to have up to maxMatches (not maxMatchesPerPlayer)
-        if (partnerCount > maxMatches) continue;
-        
-        const pair = [playerId, partnerId];
-        
-        // Sort potential opposing pairs by their combined match count
-        const opposingPairOptions = [];
-        for (let i = 0; i < opposingTeam.length; i++) {
-          for (let j = i + 1; j < opposingTeam.length; j++) {
-            const opp1Count = playerMatchCount.get(opposingTeam[i]);
-            const opp2Count = playerMatchCount.get(opposingTeam[j]);
-            
-            // Be more lenient here too - allow up to maxMatches
-            if (opp1Count <= maxMatches && opp2Count <= maxMatches) {
-              opposingPairOptions.push({
-                pair: [opposingTeam[i], opposingTeam[j]],
-                totalCount: opp1Count + opp2Count
-              });
-            }
-          }
-        }
-        
-        // Sort by total count (prefer pairs with fewer combined matches)
-        opposingPairOptions.sort((a, b) => a.totalCount - b.totalCount);
-        
-        // Try each opposing pair
-        for (const oppOption of opposingPairOptions) {
-          const opposingPair = oppOption.pair;
-          
-          // Check if this combination hasn't been used
-          const combinationKey = isInTeam1 ? 
-            `${[...pair].sort().join(',')}-${[...opposingPair].sort().join(',')}` :
-            `${[...opposingPair].sort().join(',')}-${[...pair].sort().join(',')}`;
-          
-          if (!usedCombinations.has(combinationKey)) {
-            // Add this fixture
-            fixtures.push({
-              id: uuidv4(),
-              team1: isInTeam1 ? pair : opposingPair,
-              team2: isInTeam1 ? opposingPair : pair,
-              status: 'pending',
-              team1Score: null,
-              team2Score: null,
-              winner: null
-            });
-            
-            // Update counts
-            [...pair, ...opposingPair].forEach(pId => {
-              playerMatchCount.set(pId, playerMatchCount.get(pId) + 1);
-            });
-            
-            usedCombinations.add(combinationKey);
-            console.log(`Added balancing match for player ${playerId}, now has ${playerMatchCount.get(playerId)} matches`);
-            
-            matchAdded = true;
-            break; // Move to next player with min matches
-          }
-        }
-        
-        if (matchAdded) break; // Move to next player
-      }
-      
-      if (matchAdded) break; // Recalculate min/max and try again
+
+  reverseFixtureResult(fixture, playerRepository);
+  recordScoreRevision(fixture, 'reopened', reason, req.user);
+
+  fixture.status = 'pending';
+  fixture.team1Score = null;
+  fixture.team2Score = null;
+  fixture.games = [];
+  fixture.winner = null;
+  delete fixture.completedAt;
+  delete fixture.scoredBy;
+
+  // A reopened fixture puts an archived tournament back in play
+  if (tournament.status === 'completed') {
+    tournament.status = 'active';
+    delete tournament.archive;
+  }
+
+  tournamentRepository.save(tournament);
+
+  liveEvents.publish('score.reopened', { clubId: tournament.clubId, tournamentId: tournament.id, fixtureId });
+  res.json(fixture);
+});
+
+app.get('/api/tournaments/:tournamentId', (req, res) => {
+  res.json(req.tournament);
+});
+
+app.get('/api/tournaments/:tournamentId/results', (req, res) => {
+  res.json(buildTournamentResults(req.tournament));
+});
+
+app.get('/api/tournaments/:tournamentId/analytics', (req, res) => {
+  res.json(buildAnalytics([req.tournament]));
+});
+
+// Downloads of the tournament: fixtures, standings and team stats as CSV, the
+// whole tournament as JSON, or its rounds as an iCalendar file starting at
+// ?start= with ?minutes= per round
+const TOURNAMENT_EXPORTS = {
+  'fixtures.csv': (tournament, getName) => fixturesToCsv(tournament, getName),
+  'standings.csv': (tournament, getName) => standingsToCsv(buildTournamentResults(tournament).standings, getName),
+  'team-stats.csv': (tournament, getName) => {
+    const { teamStats } = buildTournamentResults(tournament);
+    if (!teamStats) throw new Error('only team leagues have team stats');
+    return teamStatsToCsv(teamStats, getName);
+  },
+  'tournament.json': (tournament, getName, players) => tournamentToJson(tournament, players, LATEST_VERSION),
+  'schedule.ics': (tournament, getName, players, query) => scheduleToICalendar(tournament, getName, normalizeSchedule(query))
+};
+
+app.get('/api/tournaments/:tournamentId/export/:file', (req, res) => {
+  const { tournament } = req;
+  const build = Object.prototype.hasOwnProperty.call(TOURNAMENT_EXPORTS, req.params.file) && TOURNAMENT_EXPORTS[req.params.file];
+  if (!build) {
+    return res.status(404).json({ error: `Export not found. Use: ${Object.keys(TOURNAMENT_EXPORTS).join(', ')}` });
+  }
+
+  const playerIds = [...new Set([...tournament.playerIds, ...tournament.fixtures.flatMap(f => [...f.team1, ...f.team2])])];
+  const players = resolvePlayers(playerIds, [tournament]);
+  const getName = id => (players.find(p => p.id === id) || {}).name || 'Unknown Player';
+
+  let content;
+  try {
+    content = build(tournament, getName, players, req.query);
+  } catch (error) {
+    return res.status(400).json({ error: `Invalid export: ${error.message}` });
+  }
+
+  res.attachment(getDownloadName(tournament.name || 'tournament', req.params.file));
+  res.send(content);
+});
+
+// Partnerships and rivalries across every tournament the club has played
+app.get('/api/clubs/:clubId/analytics', (req, res) => {
+  res.json(buildAnalytics(tournamentRepository.findByClub(req.club.id)));
+});
+
+// Team creation through the strategy chosen for the tournament
+function createTeams(players, matchesPerPlayer, { strategy, seed, teamCount, manualTeams }) {
+  return getTeamStrategy(strategy).formTeams(players, { matchesPerPlayer, seed, teamCount, manualTeams, aiProvider });
+}
+
+// Manual teams bring their own team count unless one is given
+function getRequestedTeamCount(teamCount, strategy, manualTeams) {
+  if (teamCount === undefined && strategy === 'manual' && manualTeams && typeof manualTeams === 'object') {
+    return Object.keys(manualTeams).length;
+  }
+  return teamCount;
+}
+
+function logTeamSizes(teams) {
+  getTeamKeys(teams).forEach(key => {
+    console.log(`Team ${key.slice(4)}: ${teams[key].length} players`);
+  });
+}
+
+// The generator's ratings, late-arrival credits and seed for a team league
+function getLeagueOptions(tournament, players) {
+  return {
+    ratings: getPlayerRatings(players),
+    credits: tournament.matchCredits || {},
+    seed: tournament.teamSeed || 0
+  };
+}
+
+// Generates the pending fixtures of a new team league and keeps the
+// generator's explanation when participation cannot be balanced
+function planLeagueFixtures(tournament, players) {
+  const result = generateFixtures(tournament.teams, tournament.matchesPerPlayer, getLeagueOptions(tournament, players));
+  return createLeagueFixtures(tournament, result, []);
+}
+
+// Stores the generator's note on the tournament and turns its matches into
+// pending fixtures
+function createLeagueFixtures(tournament, { matches, min, max, note }, fixedFixtures) {
+  tournament.participationNote = note;
+
+  console.log(`Generated ${matches.length} matches - Min: ${min}, Max: ${max}, Difference: ${max - min}`);
+  if (note) {
+    console.log(note);
+  }
+  logPlayerParticipation([...fixedFixtures, ...matches], getTeamKeys(tournament.teams).flatMap(key => tournament.teams[key]));
+
+  return matches.map(match => ({ ...createFixture(match), teamKeys: match.teamKeys }));
+}
+
+// The teams each side of a team league fixture played for. Fixtures from
+// before leagues had more than two teams put team1 against team2.
+function getFixtureTeamKeys(fixture) {
+  return fixture.teamKeys || ['team1', 'team2'];
+}
+
+// Keeps completed fixtures, plus any pending ones keepPending accepts where
+// that does not unbalance the rest, and generates fresh pending fixtures
+// around them for the tournament's current teams. Pending fixtures are
+// scheduled into rounds after the last completed one.
+function replanFixtures(tournament, players, keepPending = () => false) {
+  const { completed, kept, ...result } = replanLeague(tournament.fixtures, tournament.teams, tournament.matchesPerPlayer, {
+    ...getLeagueOptions(tournament, players),
+    keepPending
+  });
+  const generated = createLeagueFixtures(tournament, result, [...completed, ...kept]);
+
+  return numberFixtures(tournament, [
+    ...completed,
+    ...scheduleRounds([...kept, ...generated], tournament.courts || DEFAULT_COURTS, completed)
+  ]);
+}
+
+// Gives each fixture without a match number the next one, in the order the
+// fixtures are listed. Numbers are never reused, so a printed sheet or an
+// exported result never names a different match after fixtures are re-planned.
+function numberFixtures(tournament, fixtures = tournament.fixtures) {
+  let last = Math.max(tournament.lastMatchNumber || 0, ...fixtures.map(f => f.matchNumber || 0));
+  fixtures.forEach(fixture => {
+    if (!fixture.matchNumber) {
+      fixture.matchNumber = ++last;
     }
-    
-    // If we couldn't add any match, we're stuck - break out
-    if (!matchAdded) {
-      console.log('Could not find any valid match to add for balancing');
-      break;
+  });
+  tournament.lastMatchNumber = last;
+  return fixtures;
+}
+
+function createFixture({ team1, team2 }) {
+  return {
+    id: uuidv4(),
+    team1,
+    team2,
+    status: 'pending',
+    team1Score: null,
+    team2Score: null,
+    games: [],
+    winner: null
+  };
+}
+
+// Americano plans its whole rotation up front. Its length is set by the
+// number of players, so matchesPerPlayer is replaced and the note says so.
+// Mexicano plans only its opening round, ranked by rating, and draws each
+// later round from the standings.
+function planRotation(tournament, players) {
+  if (tournament.format === 'americano') {
+    const { matches, repeatedPairs } = generateAmericanoMatches(tournament.playerIds, tournament.teamSeed);
+    const getName = id => players.find(p => p.id === id).name;
+    const notes = [];
+    const matchesEach = tournament.playerIds.length - 1;
+
+    if (tournament.matchesPerPlayer !== matchesEach) {
+      notes.push(`Americano has everyone partner everyone once, so each player plays ${matchesEach} matches instead of ${tournament.matchesPerPlayer}.`);
     }
-    
-    // Recalculate min/max after adding matches
-    minMatches = Math.min(...playerMatchCount.values());
-    maxMatches = Math.max(...playerMatchCount.values());
+    if (repeatedPairs.length > 0) {
+      const names = repeatedPairs.map(pair => pair.map(getName).join(' & ')).join(', ');
+      notes.push(`To fit every partnership into a match, ${names} also partner a second time and play one extra match.`);
+    }
+
+    tournament.matchesPerPlayer = matchesEach;
+    tournament.participationNote = notes.length > 0 ? notes.join(' ') : null;
+    tournament.fixtures = scheduleRounds(matches.map(createFixture), tournament.courts);
+    return;
   }
-  
-  // Final stats
-  const finalMinMatches = Math.min(...playerMatchCount.values());
-  const finalMaxMatches = Math.max(...playerMatchCount.values());
-  console.log(`After balancing (${balancingAttempts} attempts) - Min: ${finalMinMatches}, Max: ${finalMaxMatches}, Difference: ${finalMaxMatches - finalMinMatches}`);
-  
-  console.log(`Generated ${fixtures.length} matches with guaranteed balanced player participation`);
-  console.log(`Target matches per player: ${targetMatchesPerPlayer}, Max matches per player: ${maxMatchesPerPlayer}`);
-  
-  // Log player participation for debugging
-  logPlayerParticipation(fixtures, team1, team2);
-  
-  return fixtures;
+
+  tournament.totalRounds = countMexicanoRounds(
+    tournament.playerIds.length,
+    tournament.matchesPerPlayer,
+    getMatchesPerRound(tournament)
+  );
+  const ranking = [...players].sort((a, b) => b.rating - a.rating).map(p => p.id);
+  tournament.fixtures = createMexicanoRound(tournament, ranking);
+}
+
+function getMatchesPerRound(tournament) {
+  return Math.max(1, Math.min(tournament.courts, Math.floor(tournament.playerIds.length / 4)));
 }
 
-function logPlayerParticipation(fixtures, team1, team2) {
+function createMexicanoRound(tournament, ranking) {
+  const matchesPlayed = {};
+  tournament.fixtures.forEach(fixture => {
+    [...fixture.team1, ...fixture.team2].forEach(id => {
+      matchesPlayed[id] = (matchesPlayed[id] || 0) + 1;
+    });
+  });
+  const round = Math.max(0, ...tournament.fixtures.map(f => f.round || 0)) + 1;
+
+  return generateMexicanoRound(ranking, getMatchesPerRound(tournament), matchesPlayed)
+    .map((match, index) => ({ ...createFixture(match), round, court: index + 1 }));
+}
+
+function advanceMexicano(tournament) {
+  const roundsPlayed = Math.max(0, ...tournament.fixtures.map(f => f.round || 0));
+  const roundFinished = tournament.fixtures.every(f => f.status === 'completed');
+
+  if (roundFinished && roundsPlayed < tournament.totalRounds) {
+    const ranking = getStandings(tournament).map(row => row.playerId);
+    tournament.fixtures.push(...createMexicanoRound(tournament, ranking));
+    numberFixtures(tournament);
+  }
+}
+
+// Knockout formats play fixed pairs. Elimination brackets start straight
+// away; the group stage plays its round robins first and builds the bracket
+// once every group match is in.
+function planKnockout(tournament, players, groupOptions) {
+  tournament.pairs = balancePairs(players);
+
+  if (tournament.format === 'groupsKnockout') {
+    tournament.groups = createGroups(tournament.pairs, groupOptions.groupCount);
+    tournament.advancePerGroup = groupOptions.advancePerGroup;
+    tournament.bracket = null;
+    tournament.fixtures = scheduleRounds(
+      generateGroupMatches(tournament.groups).map(match => ({ ...createFixture(match), group: match.group })),
+      tournament.courts
+    );
+    return;
+  }
+
+  tournament.bracket = createBracket(tournament.format === 'doubleElimination' ? 'double' : 'single', tournament.pairs);
+  addBracketFixtures(tournament);
+}
+
+// Creates fixtures for bracket matches whose pairs are both known. Knockout
+// rounds follow on from the group stage's rounds.
+function addBracketFixtures(tournament) {
+  const created = createBracketFixtures(tournament.bracket, tournament.fixtures, tournament.courts || DEFAULT_COURTS, createFixture);
+  tournament.fixtures.push(...created);
+  numberFixtures(tournament);
+}
+
+function advanceKnockout(tournament, fixture) {
+  if (fixture.slotId) {
+    recordResult(tournament.bracket, fixture.slotId, fixture.winner);
+    addBracketFixtures(tournament);
+    return;
+  }
+
+  const groupStageFinished = tournament.fixtures.filter(f => f.group).every(f => f.status === 'completed');
+  if (!tournament.bracket && groupStageFinished) {
+    const seeded = seedFromGroups(tournament.groups, tournament.fixtures, tournament.advancePerGroup);
+    tournament.bracket = createBracket('single', seeded);
+    addBracketFixtures(tournament);
+  }
+}
+
+function getGroupStandings(tournament) {
+  if (!tournament.groups) {
+    return null;
+  }
+
+  return tournament.groups.map(group => ({
+    name: group.name,
+    standings: calculatePairStandings(group.pairs, tournament.fixtures.filter(f => f.group === group.name))
+  }));
+}
+
+function logPlayerParticipation(fixtures, playerIds) {
   const playerCounts = new Map();
   
   // Count matches for each player
@@ -663,39 +1414,317 @@ function logPlayerParticipation(fixtures, team1, team2) {
   });
   
   console.log('Player participation:');
-  [...team1, ...team2].forEach(playerId => {
+  playerIds.forEach(playerId => {
     const count = playerCounts.get(playerId) || 0;
     console.log(`Player ${playerId}: ${count} matches`);
   });
 }
 
-function createPairs(team) {
-  const pairs = [];
-  for (let i = 0; i < team.length; i++) {
-    for (let j = i + 1; j < team.length; j++) {
-      pairs.push([team[i], team[j]]);
-    }
-  }
-  return pairs;
+function getPlayerRatings(players) {
+  return Object.fromEntries(players.map(p => [p.id, p.rating]));
 }
 
+// League table of a team league, keyed by team: wins and points from the
+// completed fixtures, ranked by wins, then point difference, then points
+// scored. Individual formats have no teams and so no team stats.
 function calculateTeamStats(teams, completedFixtures) {
-  const team1Wins = completedFixtures.filter(f => f.winner === 'team1').length;
-  const team2Wins = completedFixtures.filter(f => f.winner === 'team2').length;
-  
+  if (!teams) {
+    return null;
+  }
+
+  const stats = Object.fromEntries(getTeamKeys(teams).map(key => [key, {
+    rank: 1,
+    players: teams[key],
+    played: 0,
+    wins: 0,
+    losses: 0,
+    pointsFor: 0,
+    pointsAgainst: 0,
+    pointDifference: 0
+  }]));
+
+  completedFixtures.forEach(fixture => {
+    getFixtureTeamKeys(fixture).forEach((key, index) => {
+      const row = stats[key];
+      if (!row) return;
+
+      const side = index === 0 ? 'team1' : 'team2';
+      const opponent = index === 0 ? 'team2' : 'team1';
+      row.played += 1;
+      row.wins += fixture.winner === side ? 1 : 0;
+      row.losses += fixture.winner === side ? 0 : 1;
+      row.pointsFor += fixture[`${side}Score`] || 0;
+      row.pointsAgainst += fixture[`${opponent}Score`] || 0;
+      row.pointDifference = row.pointsFor - row.pointsAgainst;
+    });
+  });
+
+  const compare = (a, b) => b.wins - a.wins || b.pointDifference - a.pointDifference || b.pointsFor - a.pointsFor;
+  Object.values(stats)
+    .sort(compare)
+    .forEach((row, index, ranked) => {
+      row.rank = index > 0 && compare(ranked[index - 1], row) === 0 ? ranked[index - 1].rank : index + 1;
+    });
+
+  return stats;
+}
+
+// Checks submitted games against the tournament's scoring rules. A bare
+// team1Score/team2Score pair is accepted as a single game.
+function resolveMatchScore(body, scoringRules = DEFAULT_SCORING_RULES) {
+  const games = Array.isArray(body.games)
+    ? body.games.map(game => ({ team1: game.team1, team2: game.team2 }))
+    : [{ team1: body.team1Score, team2: body.team2Score }];
+
+  const result = validateMatch(games, scoringRules);
+  if (!result.valid) {
+    return { error: result.errors.join('; ') };
+  }
+
+  // Fixture scores hold total points; games won are derived from the games list
   return {
-    team1: { wins: team1Wins, players: teams.team1 },
-    team2: { wins: team2Wins, players: teams.team2 }
+    games,
+    team1Score: games.reduce((sum, game) => sum + game.team1, 0),
+    team2Score: games.reduce((sum, game) => sum + game.team2, 0),
+    winner: result.winner
   };
 }
 
-function findChampion(players) {
-  return players.reduce((champion, player) => {
-    if (!champion || player.matchesWon > champion.matchesWon) {
-      return player;
-    }
-    return champion;
-  }, null);
+// Keeps every replaced result on the fixture for audit
+function recordScoreRevision(fixture, action, reason, user) {
+  fixture.scoreHistory = fixture.scoreHistory || [];
+  fixture.scoreHistory.push({
+    action,
+    team1Score: fixture.team1Score,
+    team2Score: fixture.team2Score,
+    games: fixture.games,
+    winner: fixture.winner,
+    completedAt: fixture.completedAt,
+    revisedAt: new Date().toISOString(),
+    reason: reason || null,
+    revisedBy: user.username
+  });
+}
+
+function createUser({ username, password }, memberships) {
+  const { salt, hash } = hashPassword(password);
+  return userRepository.create({
+    id: uuidv4(),
+    username,
+    memberships,
+    salt,
+    passwordHash: hash,
+    createdAt: new Date().toISOString()
+  });
+}
+
+// New players start from the rating their skill level suggests unless an
+// imported roster carries one
+// Players restored from a tournament export keep their ID, so the
+// tournament's fixtures still point at them
+function createPlayer(clubId, { name, skillLevel, rating, matchesPlayed = 0, matchesWon = 0 }, id = uuidv4()) {
+  return playerRepository.create({
+    id,
+    clubId,
+    name,
+    skillLevel,
+    matchesPlayed,
+    matchesWon,
+    rating: rating === undefined ? initialRating(skillLevel) : rating,
+    ratingHistory: []
+  });
+}
+
+// File names for downloads, led by the club or tournament they came from
+function getDownloadName(name, suffix) {
+  const slug = name.replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'export'}-${suffix}`;
+}
+
+function createClub(name) {
+  return clubRepository.create({ id: uuidv4(), name, createdAt: new Date().toISOString() });
+}
+
+function normalizeClubName(name) {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed || trimmed.length > 60) {
+    throw new Error('club name must be 1-60 characters');
+  }
+  return trimmed;
+}
+
+// Tournaments are named after their format and start date unless given a name
+function normalizeTournamentName(name, format) {
+  if (name === undefined || name === null || name === '') {
+    return `${getFormat(format).label} ${new Date().toISOString().slice(0, 10)}`;
+  }
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > 80) {
+    throw new Error('name must be 1-80 characters');
+  }
+  return name.trim();
+}
+
+// The club's accounts, each with their role in the club
+function getClubMembers(clubId) {
+  return userRepository.findAll()
+    .filter(user => getClubRole(user, clubId))
+    .map(user => ({ id: user.id, username: user.username, role: getClubRole(user, clubId), createdAt: user.createdAt }));
+}
+
+function startSession(user) {
+  const token = createToken();
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString();
+  sessionRepository.create({ tokenHash: hashToken(token), userId: user.id, expiresAt });
+  return { token, expiresAt, user: toPublicUser(user) };
+}
+
+function getTournamentPlayers(tournament) {
+  return playerRepository.findByIds(tournament.playerIds);
+}
+
+// Players still taking part: withdrawn players keep their results, and so
+// stay in playerIds, but are out of the teams and get no new matches
+function getActivePlayerIds(tournament) {
+  const withdrawn = tournament.withdrawnPlayerIds || [];
+  return tournament.playerIds.filter(id => !withdrawn.includes(id));
+}
+
+// Whether a tournament's entry list or fixtures name the player
+function isPlayerInTournament(tournament, playerId) {
+  return tournament.playerIds.includes(playerId)
+    || tournament.fixtures.some(f => f.team1.includes(playerId) || f.team2.includes(playerId));
+}
+
+function findActiveTournamentWithPlayer(player) {
+  return tournamentRepository.findByClub(player.clubId)
+    .find(t => t.status === 'active' && getActivePlayerIds(t).includes(player.id)) || null;
+}
+
+function getActivePlayers(tournament) {
+  return playerRepository.findByIds(getActivePlayerIds(tournament));
+}
+
+function countMatchesPlayed(fixtures, playerId) {
+  return fixtures.filter(fixture => [...fixture.team1, ...fixture.team2].includes(playerId)).length;
+}
+
+// Average completed matches of the players in the teams, credits included
+function getAverageMatchesPlayed(tournament, completedFixtures) {
+  const { teams } = tournament;
+  const playerIds = getTeamKeys(teams).flatMap(key => teams[key]);
+  const credits = tournament.matchCredits || {};
+  const total = playerIds.reduce((sum, id) => sum + countMatchesPlayed(completedFixtures, id) + (credits[id] || 0), 0);
+  return playerIds.length ? Math.round(total / playerIds.length) : 0;
+}
+
+// Archived tournaments carry a snapshot of their results, so they can still be
+// shown after players are edited, deleted or play in later tournaments.
+function archiveTournament(tournament) {
+  const completedFixtures = tournament.fixtures.filter(f => f.status === 'completed');
+  const players = getTournamentPlayers(tournament).map(p => ({ ...p }));
+  const standings = getStandings(tournament);
+  const championPair = findChampionPair(tournament, players);
+
+  tournament.status = 'completed';
+  tournament.archive = {
+    teamStats: calculateTeamStats(tournament.teams, completedFixtures),
+    standings,
+    champion: championPair ? championPair[0] : findChampion(standings, players),
+    championPair,
+    players,
+    archivedAt: new Date().toISOString()
+  };
+  return tournament;
+}
+
+function buildTournamentResults(tournament) {
+  const completedFixtures = tournament.fixtures.filter(f => f.status === 'completed');
+
+  const groupStandings = getGroupStandings(tournament);
+
+  if (tournament.archive) {
+    const { champion, players } = tournament.archive;
+    // Archives made before standings or the league table existed are ranked
+    // from their fixtures
+    const standings = tournament.archive.standings || getStandings(tournament);
+    const teamStats = tournament.archive.teamStats && !('played' in Object.values(tournament.archive.teamStats)[0])
+      ? calculateTeamStats(tournament.teams, completedFixtures)
+      : tournament.archive.teamStats;
+    const championPair = tournament.archive.championPair || null;
+    return { tournament, teamStats, standings, champion, championPair, groupStandings, players, completedFixtures };
+  }
+
+  const players = getTournamentPlayers(tournament);
+  const standings = getStandings(tournament);
+  const championPair = findChampionPair(tournament, players);
+  return {
+    tournament,
+    teamStats: calculateTeamStats(tournament.teams, completedFixtures),
+    standings,
+    champion: championPair ? championPair[0] : findChampion(standings, players),
+    championPair,
+    groupStandings,
+    players,
+    completedFixtures
+  };
+}
+
+function buildAnalytics(tournaments) {
+  const analytics = calculatePartnershipAnalytics(tournaments.flatMap(t => t.fixtures));
+  return { ...analytics, players: resolvePlayers(analytics.playerIds, tournaments) };
+}
+
+// Looks players up in the roster, falling back to archived snapshots for
+// players who have since been removed
+function resolvePlayers(playerIds, tournaments) {
+  const snapshots = new Map();
+  tournaments.forEach(tournament => {
+    (tournament.archive ? tournament.archive.players : []).forEach(player => snapshots.set(player.id, player));
+  });
+
+  return playerIds
+    .map(id => playerRepository.findById(id) || snapshots.get(id))
+    .filter(Boolean);
+}
+
+function summarizeTournament(tournament) {
+  const { teamStats, champion, championPair } = buildTournamentResults(tournament);
+
+  return {
+    id: tournament.id,
+    clubId: tournament.clubId,
+    name: tournament.name || null,
+    status: tournament.status,
+    createdAt: tournament.createdAt,
+    archivedAt: tournament.archive ? tournament.archive.archivedAt : null,
+    format: tournament.format || DEFAULT_FORMAT,
+    playerCount: tournament.playerIds.length,
+    totalMatches: tournament.fixtures.length,
+    completedMatches: tournament.fixtures.filter(f => f.status === 'completed').length,
+    teamWins: teamStats ? Object.fromEntries(Object.entries(teamStats).map(([key, row]) => [key, row.wins])) : null,
+    championName: championPair
+      ? championPair.map(p => p.name).join(' & ')
+      : (champion ? champion.name : null)
+  };
+}
+
+function getStandings(tournament) {
+  return calculateStandings(tournament.playerIds, tournament.fixtures, tournament.tiebreakers || DEFAULT_TIEBREAKERS);
+}
+
+// The champion tops this tournament's standings; nobody is champion before a match is won
+function findChampion(standings, players) {
+  const leader = standings[0];
+  if (!leader || leader.wins === 0) {
+    return null;
+  }
+  return players.find(p => p.id === leader.playerId) || null;
+}
+
+// Knockout champions are the pair that won the final
+function findChampionPair(tournament, players) {
+  const pair = tournament.bracket ? getBracketWinner(tournament.bracket) : null;
+  return pair ? pair.map(id => players.find(p => p.id === id)).filter(Boolean) : null;
 }
 
 app.get('/api/test-fixtures', (req, res) => {
@@ -705,13 +1734,14 @@ app.get('/api/test-fixtures', (req, res) => {
     team2: ['player6', 'player7', 'player8', 'player9', 'player10']
   };
   
-  const fixtures = generateFixtures(testTeams, 6);
+  const { matches: fixtures, note } = generateFixtures(testTeams, 6);
   
   res.json({
     message: 'Test fixture generation',
     teams: testTeams,
     fixtures: fixtures,
-    totalMatches: fixtures.length
+    totalMatches: fixtures.length,
+    note
   });
 });
 
@@ -0,0 +1,50 @@
+const { GoogleGenerativeAI } = require('@google/generative-ai');
+
+// An AI provider turns a prompt into raw text. Team strategies never talk to
+// a vendor SDK directly, so the model can be swapped (or stubbed in tests and
+// offline setups) without touching the strategy code.
+
+function createGeminiProvider({ apiKey, model = 'gemini-pro' }) {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  return {
+    name: 'gemini',
+    async generate(prompt) {
+      const result = await genAI.getGenerativeModel({ model }).generateContent(prompt);
+      const response = await result.response;
+      return response.text();
+    }
+  };
+}
+
+// Answers team prompts locally by dealing the listed player IDs out to the
+// requested number of teams in turn. Useful for tests and for demos without
+// an API key.
+function createStubProvider() {
+  return {
+    name: 'stub',
+    async generate(prompt) {
+      const ids = [...prompt.matchAll(/id: ([\w-]+)/g)].map(match => match[1]);
+      const countMatch = prompt.match(/exactly (\d+) teams/);
+      const teamCount = countMatch ? parseInt(countMatch[1], 10) : 2;
+      return JSON.stringify(Object.fromEntries(
+        Array.from({ length: teamCount }, (_, team) => [
+          `team${team + 1}`,
+          ids.filter((_, index) => index % teamCount === team)
+        ])
+      ));
+    }
+  };
+}
+
+function createAiProvider(env = process.env) {
+  if (env.AI_PROVIDER === 'stub') {
+    return createStubProvider();
+  }
+  if (!env.GEMINI_API_KEY) {
+    return null;
+  }
+  return createGeminiProvider({ apiKey: env.GEMINI_API_KEY, model: env.GEMINI_MODEL || 'gemini-pro' });
+}
+
+module.exports = { createGeminiProvider, createStubProvider, createAiProvider };
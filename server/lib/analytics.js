@@ -0,0 +1,122 @@
+// Partnership and rivalry analytics from completed doubles fixtures.
+
+// Partnerships need this many matches before they count as best or worst
+const MIN_PARTNERSHIP_MATCHES = 2;
+
+function pairKey(a, b) {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function winRate(record) {
+  return record.played > 0 ? Math.round((record.wins / record.played) * 1000) / 10 : 0;
+}
+
+function calculatePartnershipAnalytics(fixtures) {
+  const partnerships = new Map();
+  const rivalries = new Map();
+  const playerIds = new Set();
+
+  fixtures
+    .filter(f => f.status === 'completed')
+    .forEach(fixture => {
+      ['team1', 'team2'].forEach(side => {
+        const pair = fixture[side];
+        const opponents = side === 'team1' ? fixture.team2 : fixture.team1;
+        const won = fixture.winner === side;
+
+        pair.forEach(id => playerIds.add(id));
+
+        // Partners: one record per unordered pair
+        if (pair.length === 2) {
+          const key = pairKey(pair[0], pair[1]);
+          const record = partnerships.get(key) || { players: [...pair].sort(), played: 0, wins: 0, losses: 0 };
+          record.played++;
+          record[won ? 'wins' : 'losses']++;
+          partnerships.set(key, record);
+        }
+
+        // Rivals: one record per player per opponent, from the player's side
+        pair.forEach(playerId => {
+          opponents.forEach(opponentId => {
+            const key = `${playerId}>${opponentId}`;
+            const record = rivalries.get(key) || { playerId, opponentId, played: 0, wins: 0, losses: 0 };
+            record.played++;
+            record[won ? 'wins' : 'losses']++;
+            rivalries.set(key, record);
+          });
+        });
+      });
+    });
+
+  const partnershipList = [...partnerships.values()].map(record => ({ ...record, winRate: winRate(record) }));
+  const rivalryList = [...rivalries.values()].map(record => ({ ...record, winRate: winRate(record) }));
+
+  const qualified = partnershipList.filter(record => record.played >= MIN_PARTNERSHIP_MATCHES);
+  const best = [...qualified].sort((a, b) => b.winRate - a.winRate || b.played - a.played);
+  const worst = [...qualified].sort((a, b) => a.winRate - b.winRate || b.played - a.played);
+
+  return {
+    playerIds: [...playerIds],
+    partnerships: partnershipList,
+    rivalries: rivalryList,
+    bestPartnerships: best.slice(0, 5),
+    worstPartnerships: worst.slice(0, 5),
+    minPartnershipMatches: MIN_PARTNERSHIP_MATCHES
+  };
+}
+
+// Every completed fixture a player took part in across the given tournaments,
+// oldest first, with their running win rate and the partners they played with most
+function calculatePlayerHistory(playerId, tournaments) {
+  const matches = tournaments
+    .flatMap(tournament => tournament.fixtures
+      .filter(f => f.status === 'completed' && [...f.team1, ...f.team2].includes(playerId))
+      .map(fixture => {
+        const side = fixture.team1.includes(playerId) ? 'team1' : 'team2';
+        return {
+          tournamentId: tournament.id,
+          tournamentName: tournament.name || null,
+          fixtureId: fixture.id,
+          // Fixtures scored before completion times were kept fall back to the tournament date
+          playedAt: fixture.completedAt || tournament.createdAt,
+          side,
+          partnerIds: fixture[side].filter(id => id !== playerId),
+          opponentIds: side === 'team1' ? fixture.team2 : fixture.team1,
+          games: fixture.games || [],
+          won: fixture.winner === side,
+          ratingChange: (fixture.ratingChanges || {})[playerId] ?? null
+        };
+      }))
+    .sort((a, b) => new Date(a.playedAt) - new Date(b.playedAt));
+
+  const totals = { played: 0, wins: 0 };
+  const winRateTrend = matches.map(match => {
+    totals.played++;
+    if (match.won) totals.wins++;
+    return { playedAt: match.playedAt, played: totals.played, wins: totals.wins, winRate: winRate(totals) };
+  });
+
+  const partners = new Map();
+  matches.forEach(match => {
+    match.partnerIds.forEach(partnerId => {
+      const record = partners.get(partnerId) || { playerId: partnerId, played: 0, wins: 0, losses: 0 };
+      record.played++;
+      record[match.won ? 'wins' : 'losses']++;
+      partners.set(partnerId, record);
+    });
+  });
+
+  return {
+    matches,
+    played: totals.played,
+    wins: totals.wins,
+    losses: totals.played - totals.wins,
+    winRate: winRate(totals),
+    winRateTrend,
+    partners: [...partners.values()]
+      .map(record => ({ ...record, winRate: winRate(record) }))
+      .sort((a, b) => b.played - a.played || b.winRate - a.winRate)
+  };
+}
+
+module.exports = { calculatePartnershipAnalytics, calculatePlayerHistory };
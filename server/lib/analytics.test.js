@@ -0,0 +1,78 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { calculatePartnershipAnalytics, calculatePlayerHistory } = require('./analytics');
+
+const fixture = (id, team1, team2, winner, completedAt) => ({
+  id,
+  team1,
+  team2,
+  status: 'completed',
+  games: [{ team1: winner === 'team1' ? 21 : 15, team2: winner === 'team1' ? 15 : 21 }],
+  winner,
+  completedAt
+});
+
+test('follows one player through their matches in the order they were played', () => {
+  const tournaments = [
+    {
+      id: 't2',
+      createdAt: '2024-02-01T00:00:00.000Z',
+      fixtures: [fixture('f3', ['c', 'd'], ['a', 'b'], 'team1', '2024-02-01T10:00:00.000Z')]
+    },
+    {
+      id: 't1',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      fixtures: [
+        fixture('f1', ['a', 'b'], ['c', 'd'], 'team1', '2024-01-01T10:00:00.000Z'),
+        fixture('f2', ['a', 'c'], ['b', 'd'], 'team1', '2024-01-01T11:00:00.000Z'),
+        { ...fixture('f4', ['a', 'd'], ['b', 'c'], null, null), status: 'pending' }
+      ]
+    }
+  ];
+
+  const history = calculatePlayerHistory('a', tournaments);
+
+  assert.deepStrictEqual(history.matches.map(m => m.fixtureId), ['f1', 'f2', 'f3']);
+  assert.deepStrictEqual(history.matches[2].opponentIds, ['c', 'd']);
+  assert.strictEqual(history.matches[2].side, 'team2');
+  assert.deepStrictEqual(history.winRateTrend.map(point => point.winRate), [100, 100, 66.7]);
+  assert.deepStrictEqual(history.partners[0], { playerId: 'b', played: 2, wins: 1, losses: 1, winRate: 50 });
+});
+
+// a & b beat c & d twice, e & f beat g & h three times, i & j and k & l
+// win one each, and m & n beat o & p in their only match
+const partnershipFixtures = [
+  fixture('f1', ['a', 'b'], ['c', 'd'], 'team1'),
+  fixture('f2', ['a', 'b'], ['c', 'd'], 'team1'),
+  fixture('f3', ['e', 'f'], ['g', 'h'], 'team1'),
+  fixture('f4', ['e', 'f'], ['g', 'h'], 'team1'),
+  fixture('f5', ['e', 'f'], ['g', 'h'], 'team1'),
+  fixture('f6', ['i', 'j'], ['k', 'l'], 'team1'),
+  fixture('f7', ['i', 'j'], ['k', 'l'], 'team2'),
+  fixture('f8', ['m', 'n'], ['o', 'p'], 'team1'),
+  { ...fixture('f9', ['o', 'p'], ['m', 'n'], null), status: 'pending' }
+];
+
+const pairsOf = records => records.map(record => record.players.join(''));
+
+test('ranks only partnerships with at least two matches together', () => {
+  const analytics = calculatePartnershipAnalytics(partnershipFixtures);
+  const ranked = [...analytics.bestPartnerships, ...analytics.worstPartnerships];
+
+  assert.strictEqual(analytics.minPartnershipMatches, 2);
+  assert.deepStrictEqual(analytics.partnerships.find(record => record.players.join('') === 'mn'), {
+    players: ['m', 'n'], played: 1, wins: 1, losses: 0, winRate: 100
+  });
+  assert.ok(!pairsOf(ranked).includes('mn'));
+  assert.ok(!pairsOf(ranked).includes('op'));
+});
+
+test('orders partnerships by win rate, then by matches played together', () => {
+  const analytics = calculatePartnershipAnalytics(partnershipFixtures);
+
+  // Equal win rates put the partnership with more matches first; a full tie
+  // keeps the order the partnerships first played in
+  assert.deepStrictEqual(pairsOf(analytics.bestPartnerships), ['ef', 'ab', 'ij', 'kl', 'gh']);
+  assert.deepStrictEqual(pairsOf(analytics.worstPartnerships), ['gh', 'cd', 'ij', 'kl', 'ef']);
+  assert.deepStrictEqual(analytics.bestPartnerships.map(record => record.winRate), [100, 100, 50, 50, 0]);
+});
@@ -0,0 +1,88 @@
+// Accounts, passwords and session tokens for the people running tournaments.
+// Each account has a role in every club it belongs to: organisers control the
+// club, scorers can enter scores for the fixtures they have been assigned,
+// and viewers can only look. Reading tournaments never needs an account, so
+// dashboards and live updates stay public.
+const crypto = require('crypto');
+
+const ROLES = ['organiser', 'scorer', 'viewer'];
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+const KEY_LENGTH = 64;
+
+function hashPassword(password, salt = crypto.randomBytes(16).toString('hex')) {
+  const hash = crypto.scryptSync(password, salt, KEY_LENGTH).toString('hex');
+  return { salt, hash };
+}
+
+function verifyPassword(password, user) {
+  const { hash } = hashPassword(password, user.salt);
+  return crypto.timingSafeEqual(Buffer.from(hash, 'hex'), Buffer.from(user.passwordHash, 'hex'));
+}
+
+function createToken() {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Reads "Authorization: Bearer <token>"
+function getBearerToken(req) {
+  const header = req.headers.authorization || '';
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+function normalizeRole(role) {
+  if (!ROLES.includes(role)) {
+    throw new Error(`role must be one of: ${ROLES.join(', ')}`);
+  }
+  return role;
+}
+
+// Checks a new account's details; the role is checked separately
+function normalizeCredentials({ username, password } = {}) {
+  const name = typeof username === 'string' ? username.trim() : '';
+  if (!/^[A-Za-z0-9._-]{3,32}$/.test(name)) {
+    throw new Error('username must be 3-32 letters, digits, dots, dashes or underscores');
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  return { username: name, password };
+}
+
+// What the client gets to see of an account
+function toPublicUser(user) {
+  return { id: user.id, username: user.username, memberships: user.memberships, createdAt: user.createdAt };
+}
+
+// The account's role in a club, or null when it is not a member
+function getClubRole(user, clubId) {
+  const membership = user && user.memberships.find(m => m.clubId === clubId);
+  return membership ? membership.role : null;
+}
+
+// Organisers may score any fixture of their club; scorers only those assigned to them
+function canScoreFixture(user, clubId, fixture) {
+  const role = getClubRole(user, clubId);
+  if (role === 'organiser') return true;
+  return role === 'scorer' && fixture.scorerId === user.id;
+}
+
+module.exports = {
+  ROLES,
+  SESSION_TTL_MS,
+  hashPassword,
+  verifyPassword,
+  createToken,
+  hashToken,
+  getBearerToken,
+  normalizeRole,
+  normalizeCredentials,
+  toPublicUser,
+  getClubRole,
+  canScoreFixture
+};
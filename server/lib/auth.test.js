@@ -0,0 +1,39 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { hashPassword, verifyPassword, normalizeCredentials, getClubRole, canScoreFixture } = require('./auth');
+
+test('verifies only the password that was hashed', () => {
+  const { salt, hash } = hashPassword('shuttlecock');
+  const user = { salt, passwordHash: hash };
+
+  assert.strictEqual(verifyPassword('shuttlecock', user), true);
+  assert.strictEqual(verifyPassword('Shuttlecock', user), false);
+});
+
+test('rejects unusable usernames and short passwords', () => {
+  assert.throws(() => normalizeCredentials({ username: 'a b', password: 'long enough' }), /username/);
+  assert.throws(() => normalizeCredentials({ username: 'umpire', password: 'short' }), /password/);
+  assert.deepStrictEqual(normalizeCredentials({ username: ' umpire ', password: 'long enough' }), {
+    username: 'umpire',
+    password: 'long enough'
+  });
+});
+
+test('lets scorers score only their own fixtures', () => {
+  const fixture = { scorerId: 's1' };
+  const member = (id, role) => ({ id, memberships: [{ clubId: 'c1', role }] });
+
+  assert.strictEqual(canScoreFixture(member('o1', 'organiser'), 'c1', fixture), true);
+  assert.strictEqual(canScoreFixture(member('s1', 'scorer'), 'c1', fixture), true);
+  assert.strictEqual(canScoreFixture(member('s2', 'scorer'), 'c1', fixture), false);
+  assert.strictEqual(canScoreFixture(member('v1', 'viewer'), 'c1', fixture), false);
+  assert.strictEqual(canScoreFixture(null, 'c1', fixture), false);
+});
+
+test('gives club roles only in the clubs an account belongs to', () => {
+  const organiser = { id: 'o1', memberships: [{ clubId: 'c1', role: 'organiser' }] };
+
+  assert.strictEqual(getClubRole(organiser, 'c1'), 'organiser');
+  assert.strictEqual(getClubRole(organiser, 'c2'), null);
+  assert.strictEqual(canScoreFixture(organiser, 'c2', { scorerId: null }), false);
+});
@@ -0,0 +1,267 @@
+// Knockout brackets for fixed doubles pairs. A bracket is a list of match
+// slots; each side of a slot holds a pair of player IDs, null while it waits
+// for an earlier result, or BYE. Winners (and, in double elimination, losers)
+// move on to the slots named by next/loserNext.
+
+const BYE = 'bye';
+
+// Seed order for a bracket of the given size, so that seeds 1 and 2 can only
+// meet in the final: [1, 8, 4, 5, 2, 7, 3, 6] for 8
+function getSeedOrder(size) {
+  let order = [1];
+  while (order.length < size) {
+    const nextSize = order.length * 2;
+    order = order.flatMap(seed => [seed, nextSize + 1 - seed]);
+  }
+  return order;
+}
+
+function createSlot(id, section, round, order) {
+  return { id, section, round, order, team1: null, team2: null, winner: null, fixtureId: null, next: null, loserNext: null };
+}
+
+// seededEntries are pairs, strongest first. Byes go to the top seeds.
+function createBracket(type, seededEntries) {
+  if (seededEntries.length < 2) {
+    throw new Error('A bracket needs at least 2 pairs');
+  }
+
+  const rounds = Math.ceil(Math.log2(seededEntries.length));
+  const size = 2 ** rounds;
+  const slots = [];
+
+  // Winners bracket. Double elimination interleaves losers rounds, so its
+  // later winners rounds are played one step further apart.
+  const winners = [];
+  for (let round = 1; round <= rounds; round++) {
+    const order = type === 'double' && round > 1 ? 2 * round - 2 : round;
+    const roundSlots = [];
+    for (let i = 0; i < size / 2 ** round; i++) {
+      roundSlots.push(createSlot(`W${round}-${i + 1}`, 'winners', round, order));
+    }
+    winners.push(roundSlots);
+    slots.push(...roundSlots);
+  }
+
+  getSeedOrder(size).forEach((seed, index) => {
+    const slot = winners[0][Math.floor(index / 2)];
+    slot[index % 2 === 0 ? 'team1' : 'team2'] = seededEntries[seed - 1] || BYE;
+  });
+
+  for (let round = 1; round < rounds; round++) {
+    winners[round - 1].forEach((slot, i) => {
+      slot.next = { slotId: winners[round][Math.floor(i / 2)].id, side: i % 2 === 0 ? 'team1' : 'team2' };
+    });
+  }
+
+  if (type === 'double') {
+    addLosersBracket(slots, winners, rounds);
+  }
+
+  const bracket = { type, slots };
+  settleByes(bracket);
+  return bracket;
+}
+
+// Losers of the first winners round play each other; every later winners
+// round drops its losers in against the survivors of the losers bracket,
+// in reverse order to put off rematches. The losers bracket winner meets the
+// winners bracket winner in the grand final. The winners bracket side has not
+// lost yet, so if it loses the grand final the two pairs play once more in
+// the reset slot; otherwise the reset is never played.
+function addLosersBracket(slots, winners, rounds) {
+  const grandFinal = createSlot('GF', 'final', 1, 2 * rounds);
+  const reset = createSlot('GF2', 'final', 2, 2 * rounds + 1);
+  grandFinal.resetSlotId = reset.id;
+  winners[rounds - 1][0].next = { slotId: grandFinal.id, side: 'team1' };
+
+  if (rounds === 1) {
+    winners[0][0].loserNext = { slotId: grandFinal.id, side: 'team2' };
+    slots.push(grandFinal, reset);
+    return;
+  }
+
+  let losersRound = 0;
+  let survivors = [];
+
+  const addLosersRound = count => {
+    losersRound += 1;
+    const roundSlots = [];
+    for (let i = 0; i < count; i++) {
+      roundSlots.push(createSlot(`L${losersRound}-${i + 1}`, 'losers', losersRound, losersRound + 1));
+    }
+    slots.push(...roundSlots);
+    return roundSlots;
+  };
+
+  // First losers round: pairs up the first winners round's losers
+  const firstRound = addLosersRound(winners[0].length / 2);
+  winners[0].forEach((slot, i) => {
+    slot.loserNext = { slotId: firstRound[Math.floor(i / 2)].id, side: i % 2 === 0 ? 'team1' : 'team2' };
+  });
+  survivors = firstRound;
+
+  for (let round = 2; round <= rounds; round++) {
+    if (round > 2) {
+      const consolidation = addLosersRound(survivors.length / 2);
+      survivors.forEach((slot, i) => {
+        slot.next = { slotId: consolidation[Math.floor(i / 2)].id, side: i % 2 === 0 ? 'team1' : 'team2' };
+      });
+      survivors = consolidation;
+    }
+
+    const dropIn = addLosersRound(survivors.length);
+    const droppers = round % 2 === 0 ? [...winners[round - 1]].reverse() : winners[round - 1];
+    survivors.forEach((slot, i) => {
+      slot.next = { slotId: dropIn[i].id, side: 'team1' };
+      droppers[i].loserNext = { slotId: dropIn[i].id, side: 'team2' };
+    });
+    survivors = dropIn;
+  }
+
+  survivors[0].next = { slotId: grandFinal.id, side: 'team2' };
+  grandFinal.order = losersRound + 2;
+  reset.order = losersRound + 3;
+  slots.push(grandFinal, reset);
+}
+
+function findSlot(bracket, slotId) {
+  return bracket.slots.find(slot => slot.id === slotId);
+}
+
+function otherSide(side) {
+  return side === 'team1' ? 'team2' : 'team1';
+}
+
+function place(bracket, target, entry) {
+  if (target) {
+    findSlot(bracket, target.slotId)[target.side] = entry;
+  }
+}
+
+// Settles every slot where a bye is drawn against a known side, repeating
+// until nothing changes, since a settled bye can create another
+function settleByes(bracket) {
+  let changed = true;
+  while (changed) {
+    changed = false;
+    bracket.slots.forEach(slot => {
+      if (slot.winner || slot.team1 === null || slot.team2 === null) return;
+      if (slot.team1 !== BYE && slot.team2 !== BYE) return;
+
+      const side = slot.team1 === BYE ? 'team2' : 'team1';
+      slot.winner = side;
+      place(bracket, slot.next, slot[side]);
+      place(bracket, slot.loserNext, BYE);
+      changed = true;
+    });
+  }
+}
+
+// Slots with both pairs known that still need a fixture
+function getPlayableSlots(bracket) {
+  return bracket.slots.filter(slot =>
+    !slot.winner && !slot.fixtureId && Array.isArray(slot.team1) && Array.isArray(slot.team2)
+  );
+}
+
+// Where a slot's pairs can go once it has a result, reset included
+function getOnwardTargets(slot) {
+  const reset = slot.resetSlotId
+    ? [{ slotId: slot.resetSlotId, side: 'team1' }, { slotId: slot.resetSlotId, side: 'team2' }]
+    : [];
+  return [slot.next, slot.loserNext, ...reset].filter(Boolean);
+}
+
+function recordResult(bracket, slotId, winner) {
+  const slot = findSlot(bracket, slotId);
+  slot.winner = winner;
+  place(bracket, slot.next, slot[winner]);
+  place(bracket, slot.loserNext, slot[otherSide(winner)]);
+
+  // Both pairs meet again when the losers bracket side takes the grand final
+  if (slot.resetSlotId && winner === 'team2') {
+    const reset = findSlot(bracket, slot.resetSlotId);
+    reset.team1 = slot.team1;
+    reset.team2 = slot.team2;
+  }
+  settleByes(bracket);
+}
+
+// Undoes a result so it can be corrected. Pairs it moved on are taken back
+// out, along with anything a bye moved on after them, and the IDs of pending
+// fixtures that no longer have both pairs are returned so they can be removed.
+// Throws if a later match that depends on the result has already been played.
+function retractResult(bracket, slotId) {
+  const removedFixtureIds = [];
+
+  const clearSide = target => {
+    if (!target) return;
+    const slot = findSlot(bracket, target.slotId);
+
+    if (slot.winner) {
+      if (slot.fixtureId) {
+        throw new Error(`Match ${slot.id} has already been played using this result`);
+      }
+      getOnwardTargets(slot).forEach(clearSide);
+      slot.winner = null;
+    } else if (slot.fixtureId) {
+      removedFixtureIds.push(slot.fixtureId);
+      slot.fixtureId = null;
+    }
+    slot[target.side] = null;
+  };
+
+  const slot = findSlot(bracket, slotId);
+  getOnwardTargets(slot).forEach(clearSide);
+  slot.winner = null;
+  return removedFixtureIds;
+}
+
+// The pair that won the final, or null while it is still being played. A
+// double elimination grand final lost by the winners bracket side is only
+// decided by the reset.
+// Fixtures for the slots whose pairs are both known, each linked to its slot.
+// Each goes in the first round after the group stage and after its players'
+// last planned match that still has a free court, so a bracket round with
+// more matches than courts runs on into the rounds after it.
+function createBracketFixtures(bracket, fixtures, courts, createFixture) {
+  const planned = [...fixtures];
+  const groupRounds = Math.max(0, ...fixtures.filter(f => f.group).map(f => f.round || 0));
+
+  return getPlayableSlots(bracket).map(slot => {
+    const players = [...slot.team1, ...slot.team2];
+    const playerRounds = planned
+      .filter(f => [...f.team1, ...f.team2].some(id => players.includes(id)))
+      .map(f => f.round || 0);
+    let round = Math.max(groupRounds, ...playerRounds) + 1;
+    while (planned.filter(f => f.round === round).length >= courts) round += 1;
+
+    const courtsInUse = planned.filter(f => f.round === round).map(f => f.court);
+    const court = Array.from({ length: courts }, (_, index) => index + 1).find(number => !courtsInUse.includes(number));
+    const fixture = { ...createFixture({ team1: [...slot.team1], team2: [...slot.team2] }), slotId: slot.id, round, court };
+    slot.fixtureId = fixture.id;
+    planned.push(fixture);
+    return fixture;
+  });
+}
+
+function getBracketWinner(bracket) {
+  const grandFinal = bracket.slots.find(slot => slot.section === 'final' && slot.round === 1);
+  const reset = grandFinal && grandFinal.resetSlotId && findSlot(bracket, grandFinal.resetSlotId);
+  const final = grandFinal
+    ? (reset && grandFinal.winner === 'team2' ? reset : grandFinal)
+    : bracket.slots.filter(slot => slot.section === 'winners').slice(-1)[0];
+  return final && final.winner ? final[final.winner] : null;
+}
+
+module.exports = {
+  BYE,
+  getSeedOrder,
+  createBracket,
+  getPlayableSlots,
+  createBracketFixtures,
+  recordResult,
+  retractResult,
+  getBracketWinner
+};
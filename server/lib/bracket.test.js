@@ -0,0 +1,147 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { BYE, getSeedOrder, createBracket, getPlayableSlots, createBracketFixtures, recordResult, retractResult, getBracketWinner } = require('./bracket');
+
+const createPairs = count => Array.from({ length: count }, (_, i) => [`p${i + 1}a`, `p${i + 1}b`]);
+
+const findSlot = (bracket, id) => bracket.slots.find(slot => slot.id === id);
+
+// Plays a slot the way the server does: give it a fixture, then record the result
+const play = (bracket, id, winner) => {
+  findSlot(bracket, id).fixtureId = `fixture-${id}`;
+  recordResult(bracket, id, winner);
+};
+
+test('keeps the top two seeds apart until the final', () => {
+  assert.deepStrictEqual(getSeedOrder(8), [1, 8, 4, 5, 2, 7, 3, 6]);
+
+  const pairs = createPairs(8);
+  const bracket = createBracket('single', pairs);
+  const firstRound = bracket.slots.filter(slot => slot.section === 'winners' && slot.round === 1);
+
+  assert.deepStrictEqual(firstRound.map(slot => [slot.team1, slot.team2]), [
+    [pairs[0], pairs[7]], [pairs[3], pairs[4]], [pairs[1], pairs[6]], [pairs[2], pairs[5]]
+  ]);
+  assert.deepStrictEqual(firstRound.map(slot => slot.next.slotId), ['W2-1', 'W2-1', 'W2-2', 'W2-2']);
+});
+
+test('gives byes to the top seeds and moves them on', () => {
+  const pairs = createPairs(5);
+  const bracket = createBracket('single', pairs);
+  const byes = bracket.slots.filter(slot => slot.team1 === BYE || slot.team2 === BYE);
+
+  assert.strictEqual(byes.length, 3);
+  assert.ok(byes.every(slot => slot.winner === 'team1'));
+  assert.deepStrictEqual(findSlot(bracket, 'W2-1').team1, pairs[0]);
+  assert.deepStrictEqual(getPlayableSlots(bracket).map(slot => slot.id), ['W1-2', 'W2-2']);
+});
+
+test('finishes a single elimination bracket at the final', () => {
+  const pairs = createPairs(4);
+  const bracket = createBracket('single', pairs);
+
+  play(bracket, 'W1-1', 'team1');
+  play(bracket, 'W1-2', 'team2');
+  assert.strictEqual(getBracketWinner(bracket), null);
+  assert.deepStrictEqual(getPlayableSlots(bracket).map(slot => slot.id), ['W2-1']);
+
+  play(bracket, 'W2-1', 'team2');
+  assert.deepStrictEqual(getBracketWinner(bracket), pairs[2]);
+  assert.deepStrictEqual(getPlayableSlots(bracket), []);
+});
+
+// Four pairs through to the grand final: seed 1 wins the winners bracket and
+// seed 2 comes back through the losers bracket
+const playToGrandFinal = () => {
+  const pairs = createPairs(4);
+  const bracket = createBracket('double', pairs);
+  play(bracket, 'W1-1', 'team1');
+  play(bracket, 'W1-2', 'team1');
+  play(bracket, 'W2-1', 'team1');
+  play(bracket, 'L1-1', 'team2');
+  play(bracket, 'L2-1', 'team2');
+  return { pairs, bracket };
+};
+
+test('sends losers into the losers bracket and its winner to the grand final', () => {
+  const { pairs, bracket } = playToGrandFinal();
+  const grandFinal = findSlot(bracket, 'GF');
+
+  assert.deepStrictEqual([grandFinal.team1, grandFinal.team2], [pairs[0], pairs[1]]);
+  assert.deepStrictEqual(getPlayableSlots(bracket).map(slot => slot.id), ['GF']);
+});
+
+test('ends double elimination when the unbeaten pair wins the grand final', () => {
+  const { pairs, bracket } = playToGrandFinal();
+
+  play(bracket, 'GF', 'team1');
+
+  assert.deepStrictEqual(getBracketWinner(bracket), pairs[0]);
+  assert.deepStrictEqual(getPlayableSlots(bracket), []);
+  assert.strictEqual(findSlot(bracket, 'GF2').team1, null);
+});
+
+test('plays a reset when the unbeaten pair loses the grand final', () => {
+  const { pairs, bracket } = playToGrandFinal();
+
+  play(bracket, 'GF', 'team2');
+  assert.strictEqual(getBracketWinner(bracket), null);
+  assert.deepStrictEqual(getPlayableSlots(bracket).map(slot => slot.id), ['GF2']);
+  assert.ok(findSlot(bracket, 'GF2').order > findSlot(bracket, 'GF').order);
+
+  play(bracket, 'GF2', 'team1');
+  assert.deepStrictEqual(getBracketWinner(bracket), pairs[0]);
+});
+
+test('retracts a result and the pending match it set up', () => {
+  const bracket = createBracket('single', createPairs(4));
+  play(bracket, 'W1-1', 'team1');
+  play(bracket, 'W1-2', 'team1');
+  findSlot(bracket, 'W2-1').fixtureId = 'fixture-W2-1';
+
+  const removed = retractResult(bracket, 'W1-1');
+
+  assert.deepStrictEqual(removed, ['fixture-W2-1']);
+  assert.strictEqual(findSlot(bracket, 'W1-1').winner, null);
+  assert.strictEqual(findSlot(bracket, 'W2-1').team1, null);
+  assert.strictEqual(findSlot(bracket, 'W2-1').fixtureId, null);
+});
+
+test('refuses to retract a result a later match was played on', () => {
+  const bracket = createBracket('single', createPairs(4));
+  play(bracket, 'W1-1', 'team1');
+  play(bracket, 'W1-2', 'team1');
+  play(bracket, 'W2-1', 'team1');
+
+  assert.throws(() => retractResult(bracket, 'W1-1'), /W2-1 has already been played/);
+});
+
+test('retracting the grand final takes back a pending reset', () => {
+  const { bracket } = playToGrandFinal();
+  play(bracket, 'GF', 'team2');
+  findSlot(bracket, 'GF2').fixtureId = 'fixture-GF2';
+
+  assert.deepStrictEqual(retractResult(bracket, 'GF'), ['fixture-GF2']);
+  assert.strictEqual(findSlot(bracket, 'GF2').team1, null);
+  assert.deepStrictEqual(getPlayableSlots(bracket).map(slot => slot.id), []);
+});
+
+test('spreads a bracket round with more matches than courts over later rounds', () => {
+  const bracket = createBracket('single', createPairs(16));
+  let nextId = 0;
+  const createFixture = pairs => ({ id: `f${++nextId}`, ...pairs, status: 'pending' });
+  const groupFixture = { id: 'g1', team1: ['x1', 'x2'], team2: ['x3', 'x4'], group: 'A', round: 2, court: 1, status: 'completed' };
+
+  const firstRound = createBracketFixtures(bracket, [groupFixture], 2, createFixture);
+  assert.strictEqual(firstRound.length, 8);
+  assert.deepStrictEqual(firstRound.map(f => f.round), [3, 3, 4, 4, 5, 5, 6, 6]);
+  assert.deepStrictEqual(firstRound.map(f => f.court), [1, 2, 1, 2, 1, 2, 1, 2]);
+  firstRound.forEach(fixture => assert.strictEqual(findSlot(bracket, fixture.slotId).fixtureId, fixture.id));
+
+  // Later matches take the first free court after their players' last match
+  ['W1-1', 'W1-2'].forEach(id => recordResult(bracket, id, 'team1'));
+  const first = createBracketFixtures(bracket, [groupFixture, ...firstRound], 2, createFixture);
+  ['W1-3', 'W1-4'].forEach(id => recordResult(bracket, id, 'team1'));
+  const second = createBracketFixtures(bracket, [groupFixture, ...firstRound, ...first], 2, createFixture);
+  assert.deepStrictEqual([...first, ...second].map(f => [f.slotId, f.round, f.court]), [['W2-1', 7, 1], ['W2-2', 7, 2]]);
+});
@@ -0,0 +1,100 @@
+// Groups fixtures into rounds that can be played at the same time, one match
+// per court, without any player appearing twice in a round.
+
+const DEFAULT_COURTS = 2;
+const MAX_COURTS = 12;
+const SEARCH_BUDGET = 2000;
+
+function normalizeCourts(courts = DEFAULT_COURTS) {
+  if (!Number.isInteger(courts) || courts < 1 || courts > MAX_COURTS) {
+    throw new Error(`must be a whole number between 1 and ${MAX_COURTS}`);
+  }
+  return courts;
+}
+
+function getFixturePlayers(fixture) {
+  return [...fixture.team1, ...fixture.team2];
+}
+
+// Picks the highest-ranked set of fixtures with no shared players, backtracking
+// when the top choices clash so that as many courts as possible are in use.
+// The search is capped so large fixture lists stay fast.
+function pickRound(ranked, courts) {
+  let best = [];
+  let budget = SEARCH_BUDGET;
+  const busy = new Set();
+  const chosen = [];
+
+  const search = start => {
+    if (chosen.length > best.length) best = [...chosen];
+    if (chosen.length === courts) return true;
+    if (--budget <= 0) return false;
+
+    for (let i = start; i < ranked.length; i++) {
+      const candidate = ranked[i];
+      if (candidate.players.some(id => busy.has(id))) continue;
+
+      candidate.players.forEach(id => busy.add(id));
+      chosen.push(candidate);
+      const done = search(i + 1);
+      chosen.pop();
+      candidate.players.forEach(id => busy.delete(id));
+      if (done) return true;
+    }
+    return false;
+  };
+
+  search(0);
+  return best;
+}
+
+// Fills each round, giving courts to the fixtures whose players have
+// waited longest since they last played, so rest is spread evenly. Ties fall
+// back to players who have played least, then to the order the fixtures were
+// generated in. Fixtures already played keep their slots; new rounds start
+// after the last of them, with rest counted from when each player last played.
+function scheduleRounds(fixtures, courts = DEFAULT_COURTS, playedFixtures = []) {
+  const remaining = fixtures.map((fixture, index) => ({ fixture, index }));
+  const lastPlayedRound = new Map();
+  const matchesPlayed = new Map();
+  const scheduled = [];
+  let round = 0;
+
+  playedFixtures.forEach(fixture => {
+    round = Math.max(round, fixture.round || 0);
+    getFixturePlayers(fixture).forEach(id => {
+      lastPlayedRound.set(id, Math.max(lastPlayedRound.get(id) || 0, fixture.round || 0));
+      matchesPlayed.set(id, (matchesPlayed.get(id) || 0) + 1);
+    });
+  });
+
+  while (remaining.length > 0) {
+    round += 1;
+
+    const ranked = remaining
+      .map(entry => {
+        const players = getFixturePlayers(entry.fixture);
+        return {
+          ...entry,
+          players,
+          rest: players.reduce((sum, id) => sum + round - (lastPlayedRound.get(id) || 0), 0),
+          played: players.reduce((sum, id) => sum + (matchesPlayed.get(id) || 0), 0)
+        };
+      })
+      .sort((a, b) => b.rest - a.rest || a.played - b.played || a.index - b.index);
+
+    const chosen = pickRound(ranked, courts);
+    chosen.forEach((candidate, courtIndex) => {
+      candidate.players.forEach(id => {
+        lastPlayedRound.set(id, round);
+        matchesPlayed.set(id, (matchesPlayed.get(id) || 0) + 1);
+      });
+      scheduled.push({ ...candidate.fixture, round, court: courtIndex + 1 });
+      remaining.splice(remaining.findIndex(entry => entry.index === candidate.index), 1);
+    });
+  }
+
+  return scheduled;
+}
+
+module.exports = { DEFAULT_COURTS, MAX_COURTS, normalizeCourts, scheduleRounds };
@@ -0,0 +1,70 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { normalizeCourts, scheduleRounds } = require('./courtScheduler');
+const { generateAmericanoMatches } = require('./rotations');
+const { generateFixtures } = require('./fixtureGenerator');
+
+const createPlayers = count => Array.from({ length: count }, (_, i) => `p${i + 1}`);
+
+const createTeams = sizes => Object.fromEntries(
+  sizes.map((size, team) => [`team${team + 1}`, Array.from({ length: size }, (_, i) => `t${team + 1}p${i + 1}`)])
+);
+
+const groupByRound = scheduled => scheduled.reduce((rounds, fixture) => {
+  (rounds[fixture.round] = rounds[fixture.round] || []).push(fixture);
+  return rounds;
+}, {});
+
+const assertValidRounds = (fixtures, scheduled, courts) => {
+  assert.strictEqual(scheduled.length, fixtures.length);
+
+  const rounds = groupByRound(scheduled);
+  Object.values(rounds).forEach(round => {
+    const players = round.flatMap(f => [...f.team1, ...f.team2]);
+    assert.strictEqual(new Set(players).size, players.length, `round ${round[0].round} repeats a player`);
+    assert.ok(round.length <= courts, `round ${round[0].round} uses ${round.length} courts`);
+    assert.deepStrictEqual(round.map(f => f.court).sort((a, b) => a - b), round.map((_, i) => i + 1));
+  });
+};
+
+test('never puts a player on two courts in one round', () => {
+  [[8, 2], [10, 2], [12, 3], [9, 1], [16, 4]].forEach(([count, courts]) => {
+    const { matches } = generateAmericanoMatches(createPlayers(count), 1);
+    assertValidRounds(matches, scheduleRounds(matches, courts), courts);
+  });
+
+  [[[6, 6], 3], [[5, 7], 2], [[4, 4, 4], 2]].forEach(([sizes, courts]) => {
+    const { matches } = generateFixtures(createTeams(sizes), 4, { seed: 1 });
+    assertValidRounds(matches, scheduleRounds(matches, courts), courts);
+  });
+});
+
+test('fills every court when the players allow it', () => {
+  // Four matches between eight players with no one in two of them
+  const fixtures = [
+    { team1: ['p1', 'p2'], team2: ['p3', 'p4'] },
+    { team1: ['p1', 'p3'], team2: ['p2', 'p4'] },
+    { team1: ['p5', 'p6'], team2: ['p7', 'p8'] },
+    { team1: ['p5', 'p7'], team2: ['p6', 'p8'] }
+  ];
+  const scheduled = scheduleRounds(fixtures, 2);
+
+  assertValidRounds(fixtures, scheduled, 2);
+  assert.deepStrictEqual(Object.values(groupByRound(scheduled)).map(round => round.length), [2, 2]);
+});
+
+test('schedules new rounds after the ones already played', () => {
+  const { matches } = generateAmericanoMatches(createPlayers(8), 1);
+  const scheduled = scheduleRounds(matches, 2);
+  const played = scheduled.filter(f => f.round <= 3);
+  const rescheduled = scheduleRounds(scheduled.filter(f => f.round > 3), 2, played);
+
+  assert.ok(rescheduled.every(f => f.round > 3));
+  assertValidRounds(matches, [...played, ...rescheduled], 2);
+});
+
+test('accepts whole numbers of courts up to the maximum', () => {
+  assert.strictEqual(normalizeCourts(), 2);
+  assert.strictEqual(normalizeCourts(12), 12);
+  [0, 13, 1.5, '2'].forEach(courts => assert.throws(() => normalizeCourts(courts), /whole number/));
+});
@@ -0,0 +1,550 @@
+const { createRng, shuffle } = require('./random');
+const { getTeamKeys } = require('./teamStrategies');
+
+// Team league fixture generation. Every match puts a pair from one team
+// against a pair from another. The generator first decides how many matches
+// each player gets (everyone on the same count, or within one of it), then
+// searches for matches that hit those counts exactly while avoiding repeated
+// partners and opponents. The counts are checked against what the team sizes
+// allow, and against how many different matches are left, before any matches
+// are built; the match search backtracks, but within a step budget, so a plan
+// it cannot finish in time is treated as impossible.
+// Everything random comes from the seed, so the same teams, settings and seed
+// always give the same matches.
+
+const DEFAULT_MATCHES_PER_PLAYER = 6;
+const MIN_MATCHES_PER_PLAYER = 2;
+const MAX_MATCHES_PER_PLAYER = 12;
+
+// Fresh searches tried per participation level before giving up on it
+const MAX_ATTEMPTS = 25;
+// Matches tried by one search before it gives up and starts again
+const SEARCH_STEPS = 2000;
+// Candidate matches weighed by all searches together, so planning never
+// holds the server up for more than a few seconds
+const SEARCH_BUDGET = 1500000;
+// Swap attempts per match in the repeat-reducing pass
+const IMPROVEMENT_STEPS_PER_MATCH = 60;
+
+// Penalties for the search: repeated partners matter most, then repeated
+// opponents, then uneven team matchups; rating gaps only break ties
+const PARTNER_REPEAT_COST = 100;
+const OPPONENT_REPEAT_COST = 30;
+const MATCHUP_COST = 10;
+const RATING_GAP_COST = 0.01;
+
+function normalizeMatchesPerPlayer(matchesPerPlayer = DEFAULT_MATCHES_PER_PLAYER) {
+  if (!Number.isInteger(matchesPerPlayer) || matchesPerPlayer < MIN_MATCHES_PER_PLAYER || matchesPerPlayer > MAX_MATCHES_PER_PLAYER) {
+    throw new Error(`must be a whole number between ${MIN_MATCHES_PER_PLAYER} and ${MAX_MATCHES_PER_PLAYER}`);
+  }
+  return matchesPerPlayer;
+}
+
+function pairKey(a, b) {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function combinationKey(pair1, pair2) {
+  return [pairKey(...pair1), pairKey(...pair2)].sort().join('-');
+}
+
+function increment(map, key, by = 1) {
+  map.set(key, (map.get(key) || 0) + by);
+}
+
+// Partner, opponent and matchup tallies for a set of matches
+function createHistory(matches, teamOf) {
+  const history = { partners: new Map(), opponents: new Map(), matchups: new Map(), combinations: new Set() };
+  matches.forEach(match => recordMatch(history, match, teamOf));
+  return history;
+}
+
+function recordMatch(history, match, teamOf, by = 1) {
+  increment(history.partners, pairKey(...match.team1), by);
+  increment(history.partners, pairKey(...match.team2), by);
+  match.team1.forEach(a => match.team2.forEach(b => increment(history.opponents, pairKey(a, b), by)));
+
+  const team1 = teamOf.get(match.team1[0]);
+  const team2 = teamOf.get(match.team2[0]);
+  if (team1 && team2) {
+    increment(history.matchups, pairKey(team1, team2), by);
+  }
+
+  if (by > 0) {
+    history.combinations.add(combinationKey(match.team1, match.team2));
+  } else {
+    history.combinations.delete(combinationKey(match.team1, match.team2));
+  }
+}
+
+// How many different matches each player, and the league as a whole, could
+// still play: every pair from their team against every pair from another
+// team, less the ones the fixed fixtures already used
+function countFreshMatches(teams, teamOf, fixedFixtures) {
+  const keys = getTeamKeys(teams);
+  const pairs = key => teams[key].length * (teams[key].length - 1) / 2;
+  const opposingPairs = key => keys.reduce((sum, other) => sum + (other === key ? 0 : pairs(other)), 0);
+  const players = Object.fromEntries(keys.flatMap(key => teams[key].map(id => [id, (teams[key].length - 1) * opposingPairs(key)])));
+  let total = keys.reduce((sum, key) => sum + pairs(key) * opposingPairs(key), 0) / 2;
+
+  const used = new Set();
+  fixedFixtures.forEach(match => {
+    const team1 = teamOf.get(match.team1[0]);
+    const team2 = teamOf.get(match.team2[0]);
+    const key = combinationKey(match.team1, match.team2);
+    if (!team1 || !team2 || team1 === team2 || teamOf.get(match.team1[1]) !== team1 ||
+      teamOf.get(match.team2[1]) !== team2 || used.has(key)) return;
+    used.add(key);
+    total -= 1;
+    [...match.team1, ...match.team2].forEach(id => { players[id] -= 1; });
+  });
+  return { players, total };
+}
+
+function countPlayed(matches, playerIds) {
+  const counts = Object.fromEntries(playerIds.map(id => [id, 0]));
+  matches.forEach(match => {
+    [...match.team1, ...match.team2].forEach(id => {
+      if (id in counts) counts[id] += 1;
+    });
+  });
+  return counts;
+}
+
+// A team plays d matches, and each match is between two teams, so the
+// per-team match counts must add up to an even number and no team can play
+// more matches than all the other teams together
+function isTeamPlanFeasible(teamMatches) {
+  const values = Object.values(teamMatches);
+  const total = values.reduce((sum, value) => sum + value, 0);
+  return total % 2 === 0 && values.every(value => value <= total - value);
+}
+
+// Target match counts that put every player between level and
+// level + spread, or null when the teams cannot be given such counts. A team
+// playing t matches fills 2t places, and nobody can be in more than t of
+// them, so each team can only play a range of match counts. The plan takes
+// the fewest matches each team needs, adds matches to the teams with room
+// until the teams can all be paired up, then hands each team's places out
+// to the players who would otherwise end up on fewest matches.
+function planTargets(teams, played, level, spread = 1) {
+  const keys = getTeamKeys(teams);
+  const low = {};
+  const high = {};
+  const range = {};
+
+  for (const key of keys) {
+    let fewest = 0;
+    let places = 0;
+    for (const id of teams[key]) {
+      if (played[id] > level + spread) return null;
+      low[id] = Math.max(level, played[id]) - played[id];
+      high[id] = level + spread - played[id];
+      fewest = Math.max(fewest, low[id]);
+      places += low[id];
+    }
+    fewest = Math.max(fewest, Math.ceil(places / 2));
+
+    const fits = matches => teams[key].reduce((sum, id) => sum + Math.min(high[id], matches), 0) >= 2 * matches;
+    if (!fits(fewest)) return null;
+    let most = fewest;
+    while (fits(most + 1)) most += 1;
+    range[key] = { fewest, most };
+  }
+
+  // Give teams with room one more match until the team plan works, starting
+  // with the team that plays least
+  const teamMatches = Object.fromEntries(keys.map(key => [key, range[key].fewest]));
+  while (!isTeamPlanFeasible(teamMatches)) {
+    const busiest = keys.reduce((best, key) => (teamMatches[key] > teamMatches[best] ? key : best));
+    const total = Object.values(teamMatches).reduce((sum, value) => sum + value, 0);
+    const needsOthers = teamMatches[busiest] > total - teamMatches[busiest];
+    const candidates = keys
+      .filter(key => teamMatches[key] < range[key].most && (!needsOthers || key !== busiest))
+      .sort((a, b) => teamMatches[a] - teamMatches[b]);
+
+    if (candidates.length === 0) return null;
+    teamMatches[candidates[0]] += 1;
+  }
+
+  const targets = {};
+  for (const key of keys) {
+    const need = Object.fromEntries(teams[key].map(id => [id, low[id]]));
+    let extra = 2 * teamMatches[key] - teams[key].reduce((sum, id) => sum + need[id], 0);
+    while (extra > 0) {
+      const id = teams[key]
+        .filter(player => need[player] < Math.min(high[player], teamMatches[key]))
+        .sort((a, b) => played[a] + need[a] - played[b] - need[b])[0];
+      need[id] += 1;
+      extra -= 1;
+    }
+    teams[key].forEach(id => { targets[id] = played[id] + need[id]; });
+  }
+
+  return { targets, teamMatches };
+}
+
+// Builds matches one at a time for the player with the most matches still
+// to play, trying the cheapest match that keeps the rest of the plan
+// possible first and backtracking when a choice leads to a dead end. The
+// search stops after SEARCH_STEPS matches have been tried, or once the
+// searches together have weighed SEARCH_BUDGET candidates; if it has not
+// finished by then it returns the longest run of matches it found.
+function buildMatches({ teams, teamOf, needs, teamMatches, history, ratings, rng, budget }) {
+  const keys = getTeamKeys(teams);
+  const order = shuffle(Object.keys(needs), rng);
+  const rank = new Map(order.map((id, index) => [id, index]));
+  const need = { ...needs };
+  const teamNeed = { ...teamMatches };
+  const matches = [];
+  const rating = id => ratings[id] || 0;
+  let steps = 0;
+  let longest = [];
+
+  const teamPlanHolds = (teamA, teamB) => {
+    teamNeed[teamA] -= 1;
+    teamNeed[teamB] -= 1;
+    const holds = isTeamPlanFeasible(teamNeed);
+    teamNeed[teamA] += 1;
+    teamNeed[teamB] += 1;
+    return holds;
+  };
+
+  // Players who need a match in every remaining match of their team must be
+  // in the next one their team plays
+  const tightPlayers = team => teams[team].filter(id => need[id] > teamNeed[team] - 1);
+  const playersHold = (tight, players) => tight.every(id => players.includes(id));
+
+  const remaining = () => Object.values(teamNeed).reduce((sum, value) => sum + value, 0) / 2;
+
+  // Every match the focus player could play next, cheapest first
+  const getCandidates = focus => {
+    const teamA = teamOf.get(focus);
+    const tight = Object.fromEntries(keys.map(key => [key, tightPlayers(key)]));
+    const candidates = [];
+
+    for (const partner of order) {
+      if (partner === focus || teamOf.get(partner) !== teamA || need[partner] <= 0) continue;
+      const pair = [focus, partner];
+      if (!playersHold(tight[teamA], pair)) continue;
+      const partnerCost = PARTNER_REPEAT_COST * (history.partners.get(pairKey(focus, partner)) || 0);
+
+      for (const teamB of keys) {
+        if (teamB === teamA || teamNeed[teamB] <= 0 || !teamPlanHolds(teamA, teamB)) continue;
+        const opponents = order.filter(id => teamOf.get(id) === teamB && need[id] > 0);
+
+        for (let i = 0; i < opponents.length; i++) {
+          for (let j = i + 1; j < opponents.length; j++) {
+            const opposing = [opponents[i], opponents[j]];
+            if (!playersHold(tight[teamB], opposing)) continue;
+            if (history.combinations.has(combinationKey(pair, opposing))) continue;
+
+            let cost = partnerCost +
+              PARTNER_REPEAT_COST * (history.partners.get(pairKey(...opposing)) || 0) +
+              MATCHUP_COST * (history.matchups.get(pairKey(teamA, teamB)) || 0) +
+              RATING_GAP_COST * Math.abs(rating(focus) + rating(partner) - rating(opposing[0]) - rating(opposing[1])) -
+              (need[partner] + need[opposing[0]] + need[opposing[1]]);
+            pair.forEach(a => opposing.forEach(b => {
+              cost += OPPONENT_REPEAT_COST * (history.opponents.get(pairKey(a, b)) || 0);
+            }));
+
+            candidates.push({ cost, pair, opposing, teamA, teamB });
+          }
+        }
+      }
+    }
+
+    // Sorting is stable, so equal costs keep the shuffled order
+    return candidates.sort((a, b) => a.cost - b.cost);
+  };
+
+  const play = (candidate, by) => {
+    [...candidate.pair, ...candidate.opposing].forEach(id => { need[id] -= by; });
+    teamNeed[candidate.teamA] -= by;
+    teamNeed[candidate.teamB] -= by;
+  };
+
+  const search = () => {
+    if (remaining() === 0) return true;
+    const focus = order
+      .filter(id => need[id] > 0)
+      .sort((a, b) => need[b] - need[a] || rank.get(a) - rank.get(b))[0];
+    if (!focus || budget.candidates <= 0) return false;
+
+    const candidates = getCandidates(focus);
+    budget.candidates -= candidates.length;
+    for (const candidate of candidates) {
+      if (steps >= SEARCH_STEPS) return false;
+      steps += 1;
+
+      // The earlier team is listed as team1
+      const match = keys.indexOf(candidate.teamA) < keys.indexOf(candidate.teamB)
+        ? { team1: candidate.pair, team2: candidate.opposing, teamKeys: [candidate.teamA, candidate.teamB] }
+        : { team1: candidate.opposing, team2: candidate.pair, teamKeys: [candidate.teamB, candidate.teamA] };
+      matches.push(match);
+      recordMatch(history, match, teamOf);
+      play(candidate, 1);
+      if (matches.length > longest.length) longest = [...matches];
+
+      if (search()) return true;
+
+      play(candidate, -1);
+      recordMatch(history, match, teamOf, -1);
+      matches.pop();
+    }
+    return false;
+  };
+
+  const complete = search();
+  if (!complete) {
+    // Leave the history describing the matches handed back
+    matches.forEach(match => recordMatch(history, match, teamOf, -1));
+    longest.forEach(match => recordMatch(history, match, teamOf));
+  }
+  return { matches: complete ? matches : longest, complete };
+}
+
+function getPartnerKeys(match) {
+  return [pairKey(...match.team1), pairKey(...match.team2)];
+}
+
+function getOpponentKeys(match) {
+  return match.team1.flatMap(a => match.team2.map(b => pairKey(a, b)));
+}
+
+function ratingGap(match, ratings) {
+  const side = pair => pair.reduce((sum, id) => sum + (ratings[id] || 0), 0);
+  return Math.abs(side(match.team1) - side(match.team2));
+}
+
+// Repeat penalty of the given partnerships and opponent pairings, history
+// included, plus the rating gaps of the given matches
+function localCost(history, partnerKeys, opponentKeys, matches, ratings) {
+  let cost = 0;
+  new Set(partnerKeys).forEach(key => {
+    const count = history.partners.get(key) || 0;
+    cost += PARTNER_REPEAT_COST * count * (count - 1);
+  });
+  new Set(opponentKeys).forEach(key => {
+    const count = history.opponents.get(key) || 0;
+    cost += OPPONENT_REPEAT_COST * count * (count - 1);
+  });
+  matches.forEach(match => { cost += RATING_GAP_COST * ratingGap(match, ratings); });
+  return cost;
+}
+
+// Swaps teammates between two generated matches whenever that lowers the
+// repeat penalty. Every player keeps the same number of matches.
+function improveMatches(matches, history, teamOf, ratings, rng) {
+  if (matches.length < 2) return;
+  const steps = matches.length * IMPROVEMENT_STEPS_PER_MATCH;
+
+  for (let step = 0; step < steps; step++) {
+    const first = matches[Math.floor(rng() * matches.length)];
+    const second = matches[Math.floor(rng() * matches.length)];
+    if (first === second) continue;
+
+    const sideA = rng() < 0.5 ? 'team1' : 'team2';
+    const indexA = rng() < 0.5 ? 0 : 1;
+    const player = first[sideA][indexA];
+    const sideB = teamOf.get(second.team1[0]) === teamOf.get(player) ? 'team1' : 'team2';
+    if (teamOf.get(second[sideB][0]) !== teamOf.get(player)) continue;
+
+    const indexB = rng() < 0.5 ? 0 : 1;
+    const other = second[sideB][indexB];
+    if ([...first.team1, ...first.team2].includes(other) || [...second.team1, ...second.team2].includes(player)) continue;
+
+    const swapped = [
+      { ...first, [sideA]: first[sideA].map(id => (id === player ? other : id)) },
+      { ...second, [sideB]: second[sideB].map(id => (id === other ? player : id)) }
+    ];
+    const partnerKeys = [first, second, ...swapped].flatMap(getPartnerKeys);
+    const opponentKeys = [first, second, ...swapped].flatMap(getOpponentKeys);
+    const before = localCost(history, partnerKeys, opponentKeys, [first, second], ratings);
+
+    recordMatch(history, first, teamOf, -1);
+    recordMatch(history, second, teamOf, -1);
+    const [newFirst, newSecond] = swapped;
+    const duplicate = history.combinations.has(combinationKey(newFirst.team1, newFirst.team2)) ||
+      history.combinations.has(combinationKey(newSecond.team1, newSecond.team2)) ||
+      combinationKey(newFirst.team1, newFirst.team2) === combinationKey(newSecond.team1, newSecond.team2);
+    recordMatch(history, newFirst, teamOf);
+    recordMatch(history, newSecond, teamOf);
+
+    if (!duplicate && localCost(history, partnerKeys, opponentKeys, swapped, ratings) < before) {
+      matches[matches.indexOf(first)] = newFirst;
+      matches[matches.indexOf(second)] = newSecond;
+    } else {
+      recordMatch(history, newFirst, teamOf, -1);
+      recordMatch(history, newSecond, teamOf, -1);
+      recordMatch(history, first, teamOf);
+      recordMatch(history, second, teamOf);
+    }
+  }
+}
+
+// Levels to try: the preferred one, then alternately one lower and one
+// higher. Levels never drop below what completed matches already force, and
+// go at most two above the preferred one.
+function getLevelOrder(preferred, lowest) {
+  const levels = [preferred];
+  for (let offset = 1; preferred - offset >= lowest || offset <= 2; offset++) {
+    if (preferred - offset >= lowest) levels.push(preferred - offset);
+    if (offset <= 2) levels.push(preferred + offset);
+  }
+  return levels;
+}
+
+function explainLevel(teams, level, reason, hasFixedFixtures) {
+  if (reason === 'teams') {
+    const sizes = getTeamKeys(teams).map(key => teams[key].length);
+    if (hasFixedFixtures) {
+      return `Around the matches already played or kept, teams of ${sizes.join(', ')} players cannot all reach ${level} or ${level + 1} matches, as every match takes two players from each of two different teams.`;
+    }
+    return `Every match takes two players from each of two different teams, so teams of ${sizes.join(', ')} players cannot all play ${level} or ${level + 1} matches.`;
+  }
+  return `There are not enough different pairings for everyone to play ${level} or ${level + 1} matches without repeating a match.`;
+}
+
+function describeCounts(counts) {
+  const { min, max } = describeSpread(counts);
+  return min === max ? `Everyone plays ${min} match${min === 1 ? '' : 'es'}` : `Players play ${min} to ${max} matches`;
+}
+
+function describeSpread(counts) {
+  const values = Object.values(counts);
+  return { min: Math.min(...values), max: Math.max(...values) };
+}
+
+// Generates the pending matches of a team league.
+//
+// teams maps team keys to player IDs. Fixed fixtures (completed results, or
+// pending matches being kept) count towards each player's matches and are
+// never repeated. Credits count as matches already played, so a late
+// arrival credited with the matches they missed gets a fair share of the
+// rest rather than a full schedule. Returns the new matches ({ team1, team2,
+// teamKeys }), the final match count of every player (credits included), and
+// a note explaining why the counts are further apart than one match, or
+// below matchesPerPlayer, when they have to be.
+function generateFixtures(teams, matchesPerPlayer, { ratings = {}, fixedFixtures = [], credits = {}, seed = 0 } = {}) {
+  const keys = getTeamKeys(teams);
+  const playerIds = keys.flatMap(key => teams[key]);
+  const teamOf = new Map(keys.flatMap(key => teams[key].map(id => [id, key])));
+  const countAll = matches => {
+    const counts = countPlayed([...fixedFixtures, ...matches], playerIds);
+    playerIds.forEach(id => { counts[id] += credits[id] || 0; });
+    return counts;
+  };
+  const played = countAll([]);
+  const mostPlayed = Math.max(0, ...Object.values(played));
+  const rng = createRng(seed);
+
+  // Everyone on matchesPerPlayer, or on one more match when completed
+  // results already put someone further ahead. A schedule that keeps
+  // everyone within one match is always preferred, at the level closest to
+  // that target, even when a wider spread would get players nearer to it.
+  // Only when no level allows that is a wider spread tried, the narrowest
+  // that works.
+  const preferred = Math.max(matchesPerPlayer, mostPlayed - 1);
+  const someoneShort = playerIds.some(id => played[id] < matchesPerPlayer);
+  const fresh = countFreshMatches(teams, teamOf, fixedFixtures);
+  const budget = { candidates: SEARCH_BUDGET };
+  let firstFailure = null;
+  let fallback = null;
+  let best = null;
+
+  // A spread as wide as every player's possible matches gives anyone a
+  // match who can have one
+  for (let spread = 1; !best && spread <= mostPlayed + playerIds.length && budget.candidates > 0; spread++) {
+    best = findSchedule(spread);
+  }
+
+  function findSchedule(spread) {
+    for (const level of getLevelOrder(Math.max(matchesPerPlayer, mostPlayed - spread), Math.max(0, mostPlayed - spread))) {
+      const fail = reason => {
+        if (spread === 1) firstFailure = firstFailure || { level, reason };
+      };
+      const plan = planTargets(teams, played, level, spread);
+      if (!plan) {
+        fail('teams');
+        continue;
+      }
+      // A plan without matches only "works" by leaving everyone short
+      if (someoneShort && Object.values(plan.teamMatches).every(count => count === 0)) continue;
+
+      // Plans needing more different matches than are left are never searched
+      const needs = Object.fromEntries(playerIds.map(id => [id, plan.targets[id] - played[id]]));
+      const matchCount = Object.values(plan.teamMatches).reduce((sum, count) => sum + count, 0) / 2;
+      if (matchCount > fresh.total || playerIds.some(id => needs[id] > fresh.players[id])) {
+        fail('pairings');
+        continue;
+      }
+
+      for (let attempt = 0; attempt < MAX_ATTEMPTS && budget.candidates > 0; attempt++) {
+        const history = createHistory(fixedFixtures, teamOf);
+        const { matches, complete } = buildMatches({ teams, teamOf, needs, teamMatches: plan.teamMatches, history, ratings, rng, budget });
+        const counts = countAll(matches);
+
+        if (complete) {
+          return { matches, counts, history, level, spread };
+        }
+
+        // Keep the fullest stuck attempt in case nothing works
+        const result = describeSpread(counts);
+        if (!fallback || result.max - result.min < fallback.max - fallback.min ||
+          (result.max - result.min === fallback.max - fallback.min && matches.length > fallback.matches.length)) {
+          fallback = { matches, counts, ...result };
+        }
+      }
+
+      fail('pairings');
+    }
+    return null;
+  }
+
+  if (best) {
+    const { matches, history, level } = best;
+    improveMatches(matches, history, teamOf, ratings, rng);
+    const counts = countAll(matches);
+    let note = null;
+    if (firstFailure) {
+      note = `${explainLevel(teams, firstFailure.level, firstFailure.reason, fixedFixtures.length > 0)} ${describeCounts(counts)} instead.`;
+    } else if (level > matchesPerPlayer) {
+      note = `Completed matches already put some players on ${mostPlayed}, so everyone plays at least ${level}.`;
+    }
+    return { matches, counts, ...describeSpread(counts), note };
+  }
+
+  const result = fallback || { matches: [], counts: played, ...describeSpread(played) };
+  const failure = firstFailure || { level: preferred, reason: 'pairings' };
+  return {
+    ...result,
+    note: `${explainLevel(teams, failure.level, failure.reason, fixedFixtures.length > 0)} ${describeCounts(result.counts)} instead.`
+  };
+}
+
+// Re-plans a league in progress after a roster change. Completed fixtures
+// stay and count towards each player, as do the pending fixtures keepPending
+// accepts; every other pending fixture is generated again for the current
+// teams. Kept fixtures can lock players into uneven counts, so when keeping
+// them leaves players further apart, or as far apart on fewer matches, than
+// re-planning every pending fixture would, they are re-planned too. Returns
+// the completed and kept fixtures alongside generateFixtures' result.
+function replanLeague(fixtures, teams, matchesPerPlayer, { keepPending = () => false, ...options } = {}) {
+  const completed = fixtures.filter(f => f.status === 'completed');
+  const plan = kept => ({
+    completed,
+    kept,
+    ...generateFixtures(teams, matchesPerPlayer, { ...options, fixedFixtures: [...completed, ...kept] })
+  });
+
+  const preferred = plan(fixtures.filter(f => f.status === 'pending' && keepPending(f)));
+  if (preferred.kept.length === 0 || preferred.max - preferred.min <= 1) return preferred;
+
+  const fresh = plan([]);
+  const spread = result => result.max - result.min;
+  const better = spread(fresh) < spread(preferred) || (spread(fresh) === spread(preferred) && fresh.min > preferred.min);
+  return better ? fresh : preferred;
+}
+
+module.exports = { normalizeMatchesPerPlayer, generateFixtures, planTargets, replanLeague };
@@ -0,0 +1,236 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { normalizeMatchesPerPlayer, generateFixtures, replanLeague } = require('./fixtureGenerator');
+
+const createTeams = sizes => Object.fromEntries(
+  sizes.map((size, team) => [`team${team + 1}`, Array.from({ length: size }, (_, i) => `t${team + 1}p${i + 1}`)])
+);
+
+const combinationKey = match => [match.team1, match.team2].map(pair => [...pair].sort().join(',')).sort().join('-');
+
+const assertValidMatches = (teams, matches) => {
+  const teamOf = new Map(Object.entries(teams).flatMap(([key, ids]) => ids.map(id => [id, key])));
+  matches.forEach(match => {
+    const [key1, key2] = match.teamKeys;
+    assert.notStrictEqual(key1, key2);
+    match.team1.forEach(id => assert.strictEqual(teamOf.get(id), key1));
+    match.team2.forEach(id => assert.strictEqual(teamOf.get(id), key2));
+    assert.strictEqual(new Set([...match.team1, ...match.team2]).size, 4);
+  });
+};
+
+test('gives every player the requested number of matches', () => {
+  [[[4, 4], 6], [[15, 15], 6], [[10, 10, 10], 6], [[4, 4, 4, 4], 5], [[6, 6], 7]].forEach(([sizes, matchesPerPlayer]) => {
+    const teams = createTeams(sizes);
+    const result = generateFixtures(teams, matchesPerPlayer, { seed: 1 });
+
+    assertValidMatches(teams, result.matches);
+    assert.strictEqual(result.min, matchesPerPlayer, `${sizes.join('v')} minimum`);
+    assert.ok(result.max - result.min <= 1, `${sizes.join('v')} spread`);
+    assert.strictEqual(result.note, null);
+  });
+});
+
+test('keeps uneven teams within one match of each other', () => {
+  const teams = createTeams([5, 6]);
+  const result = generateFixtures(teams, 4, { seed: 1 });
+
+  assert.strictEqual(result.min, 4);
+  assert.strictEqual(result.max, 5);
+});
+
+test('is reproducible from the seed', () => {
+  const teams = createTeams([6, 6]);
+  const first = generateFixtures(teams, 5, { seed: 7 });
+  const second = generateFixtures(teams, 5, { seed: 7 });
+
+  assert.deepStrictEqual(first, second);
+});
+
+test('never repeats a match', () => {
+  const teams = createTeams([4, 4]);
+  const fixedFixtures = [{ team1: ['t1p1', 't1p2'], team2: ['t2p1', 't2p2'] }];
+  const { matches } = generateFixtures(teams, 6, { seed: 3, fixedFixtures });
+  const keys = [...fixedFixtures, ...matches].map(combinationKey);
+
+  assert.strictEqual(new Set(keys).size, keys.length);
+});
+
+test('counts fixed fixtures towards each player', () => {
+  const teams = createTeams([4, 4]);
+  const fixedFixtures = [
+    { team1: ['t1p1', 't1p2'], team2: ['t2p1', 't2p2'] },
+    { team1: ['t1p3', 't1p4'], team2: ['t2p3', 't2p4'] }
+  ];
+  const result = generateFixtures(teams, 4, { seed: 3, fixedFixtures });
+
+  assert.strictEqual(result.matches.length, 6);
+  assert.strictEqual(result.min, 4);
+  assert.strictEqual(result.max, 4);
+});
+
+test('avoids repeated partners when there are enough players', () => {
+  const teams = createTeams([15, 15]);
+  const { matches } = generateFixtures(teams, 6, { seed: 5 });
+  const partners = matches.flatMap(match => [match.team1, match.team2]).map(pair => [...pair].sort().join(','));
+
+  assert.strictEqual(new Set(partners).size, partners.length);
+});
+
+test('explains why participation cannot be balanced', () => {
+  const result = generateFixtures(createTeams([5, 6]), 6, { seed: 1 });
+
+  assert.ok(result.min < 6);
+  assert.ok(result.max - result.min <= 1);
+  assert.match(result.note, /teams of 5, 6 players cannot all play 6 or 7 matches/);
+});
+
+test('explains when there are too few different pairings', () => {
+  const result = generateFixtures(createTeams([2, 2]), 6, { seed: 1 });
+
+  assert.strictEqual(result.matches.length, 1);
+  assert.match(result.note, /not enough different pairings/);
+});
+
+test('plans 40 players quickly', () => {
+  const started = Date.now();
+  const result = generateFixtures(createTeams([20, 20]), 10, { seed: 2 });
+
+  assert.strictEqual(result.min, 10);
+  assert.ok(result.max - result.min <= 1);
+  assert.ok(Date.now() - started < 5000);
+});
+
+test('gives credited players only the rest of their matches', () => {
+  const teams = createTeams([4, 4]);
+  const result = generateFixtures(teams, 4, { seed: 4, credits: { t1p1: 2 } });
+  const newcomerMatches = result.matches.filter(match => match.team1.includes('t1p1')).length;
+
+  assert.strictEqual(newcomerMatches, result.counts.t1p1 - 2);
+  assert.strictEqual(result.min, 4);
+  assert.strictEqual(result.max, 5);
+});
+
+test('gives uneven teams a schedule rather than no matches', () => {
+  // Two-player teams play every match, so against nine or ten they end up
+  // further ahead than against fewer
+  [[[2, 5], 3], [[3, 7], 3], [[4, 9], 3], [[2, 6], 3], [[7, 2], 3], [[2, 8], 3], [[2, 9], 4], [[2, 10], 4]].forEach(([sizes, widest]) => {
+    [2, 4, 6].forEach(matchesPerPlayer => {
+      const teams = createTeams(sizes);
+      const result = generateFixtures(teams, matchesPerPlayer, { seed: 1 });
+
+      assertValidMatches(teams, result.matches);
+      assert.ok(result.min >= 1, `${sizes.join('v')} at ${matchesPerPlayer} leaves someone without a match`);
+      assert.ok(result.max - result.min <= widest, `${sizes.join('v')} at ${matchesPerPlayer} spread`);
+      assert.ok(result.note);
+    });
+  });
+});
+
+test('keeps everyone within one match rather than nearer the target', () => {
+  [[[2, 4], 6, 1, 2], [[4, 5], 12, 4, 5], [[3, 4], 8, 3, 4]].forEach(([sizes, matchesPerPlayer, min, max]) => {
+    const result = generateFixtures(createTeams(sizes), matchesPerPlayer, { seed: 1 });
+
+    assert.strictEqual(result.min, min, `${sizes.join('v')} minimum`);
+    assert.strictEqual(result.max, max, `${sizes.join('v')} maximum`);
+    assert.match(result.note, new RegExp(`cannot all play ${matchesPerPlayer} or ${matchesPerPlayer + 1} matches`));
+  });
+});
+
+test('stops at the different pairings there are without a long search', () => {
+  const started = Date.now();
+  const result = generateFixtures(createTeams([3, 3]), 30, { seed: 1 });
+
+  assert.strictEqual(result.min, 6);
+  assert.strictEqual(result.max, 6);
+  assert.match(result.note, /not enough different pairings/);
+  assert.ok(Date.now() - started < 1000);
+});
+
+test('finds balanced schedules the cheapest-first choice misses', () => {
+  const result = generateFixtures(createTeams([3, 3]), 4, { seed: 1 });
+
+  assert.strictEqual(result.min, 4);
+  assert.strictEqual(result.max, 4);
+  assert.strictEqual(result.note, null);
+});
+
+test('plans a two-player team whose players have played different amounts', () => {
+  const teams = createTeams([2, 5]);
+  const fixedFixtures = [{ team1: ['t1p2', 'x'], team2: ['t2p1', 't2p2'] }];
+  const result = generateFixtures(teams, 4, { seed: 1, fixedFixtures });
+
+  assert.ok(result.matches.length > 0);
+  assert.strictEqual(result.counts.t1p2 - result.counts.t1p1, 1);
+});
+
+test('accepts whole numbers of matches per player from 2 to 12', () => {
+  assert.strictEqual(normalizeMatchesPerPlayer(), 6);
+  assert.strictEqual(normalizeMatchesPerPlayer(12), 12);
+  [0, 1, 13, 4.5, 'abc', '6', null].forEach(value => assert.throws(() => normalizeMatchesPerPlayer(value), /whole number/));
+});
+
+const countMatches = (fixtures, playerIds) => Object.fromEntries(
+  playerIds.map(id => [id, fixtures.filter(f => [...f.team1, ...f.team2].includes(id)).length])
+);
+
+// Plays the first few generated matches, then takes players out one by one,
+// re-planning like the withdraw-player route does
+const withdrawInTurn = (sizes, matchesPerPlayer, played, withdrawn) => {
+  const teams = createTeams(sizes);
+  let fixtures = generateFixtures(teams, matchesPerPlayer, { seed: 3 }).matches
+    .map((match, index) => ({ ...match, status: index < played ? 'completed' : 'pending' }));
+  const completed = fixtures.filter(f => f.status === 'completed');
+
+  return withdrawn.map(playerId => {
+    const key = Object.keys(teams).find(team => teams[team].includes(playerId));
+    teams[key] = teams[key].filter(id => id !== playerId);
+    const involvesPlayer = fixture => [...fixture.team1, ...fixture.team2].includes(playerId);
+    const result = replanLeague(fixtures, teams, matchesPerPlayer, { seed: 3, keepPending: f => !involvesPlayer(f) });
+
+    fixtures = [...result.completed, ...result.kept, ...result.matches.map(match => ({ ...match, status: 'pending' }))];
+    return { teams: JSON.parse(JSON.stringify(teams)), fixtures, completed, result, playerId };
+  });
+};
+
+test('re-plans around completed results when a player withdraws', () => {
+  const [{ teams, fixtures, completed, result, playerId }] = withdrawInTurn([5, 5], 4, 4, ['t1p5']);
+  const remaining = Object.values(teams).flat();
+  const counts = countMatches(fixtures, remaining);
+
+  assert.deepStrictEqual(result.completed, completed);
+  assertValidMatches(teams, result.matches);
+  assert.ok([...result.kept, ...result.matches].every(f => ![...f.team1, ...f.team2].includes(playerId)));
+  remaining.forEach(id => assert.strictEqual(counts[id], result.counts[id]));
+  assert.strictEqual(result.min, 4);
+  assert.ok(result.max - result.min <= 1);
+});
+
+test('keeps remaining players within reach of each other as teams shrink', () => {
+  [3, 4, 5, 6].forEach(matchesPerPlayer => {
+    [0, 2, 4].forEach(played => {
+      withdrawInTurn([5, 5], matchesPerPlayer, played, ['t1p5', 't1p4', 't1p3']).forEach(({ teams, completed, result }) => {
+        const label = `${teams.team1.length}v${teams.team2.length} at ${matchesPerPlayer} after ${played}`;
+
+        assert.deepStrictEqual(result.completed, completed, label);
+        assert.ok(result.min >= 1, `${label} leaves someone without a match`);
+        assert.ok(result.max - result.min <= 3, `${label} spread`);
+      });
+    });
+  });
+});
+
+test('re-plans kept matches too when keeping them leaves players further apart', () => {
+  const teams = createTeams([2, 5]);
+  const kept = [
+    { team1: ['t1p1', 't1p2'], team2: ['t2p1', 't2p2'], status: 'pending' },
+    { team1: ['t1p1', 't1p2'], team2: ['t2p1', 't2p3'], status: 'pending' },
+    { team1: ['t1p1', 't1p2'], team2: ['t2p2', 't2p3'], status: 'pending' }
+  ];
+  const keeping = generateFixtures(teams, 4, { seed: 1, fixedFixtures: kept });
+  const result = replanLeague(kept, teams, 4, { seed: 1, keepPending: () => true });
+
+  assert.strictEqual(keeping.max - keeping.min, 3);
+  assert.deepStrictEqual(result.kept, []);
+  assert.strictEqual(result.max - result.min, 2);
+});
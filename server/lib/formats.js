@@ -0,0 +1,44 @@
+// Team leagues play fixed teams against each other; individual formats
+// rotate partners every round and only rank players; knockout formats play
+// fixed pairs through a bracket.
+const TOURNAMENT_FORMATS = {
+  teams: { name: 'teams', label: 'Team league', individual: false, knockout: false },
+  americano: { name: 'americano', label: 'Americano', individual: true, knockout: false },
+  mexicano: { name: 'mexicano', label: 'Mexicano', individual: true, knockout: false },
+  singleElimination: { name: 'singleElimination', label: 'Single elimination', individual: false, knockout: true },
+  doubleElimination: { name: 'doubleElimination', label: 'Double elimination', individual: false, knockout: true },
+  groupsKnockout: { name: 'groupsKnockout', label: 'Groups then knockout', individual: false, knockout: true }
+};
+
+const DEFAULT_FORMAT = 'teams';
+
+// Own keys only, so names like "toString" are not formats
+function getFormat(name) {
+  return Object.prototype.hasOwnProperty.call(TOURNAMENT_FORMATS, name) ? TOURNAMENT_FORMATS[name] : null;
+}
+
+// Tournaments saved before formats existed are team leagues
+function getTournamentFormat(tournament) {
+  return getFormat(tournament.format || DEFAULT_FORMAT);
+}
+
+function isTeamLeague(tournament) {
+  return getTournamentFormat(tournament).name === 'teams';
+}
+
+function isIndividualFormat(tournament) {
+  return getTournamentFormat(tournament).individual;
+}
+
+function isKnockoutFormat(tournament) {
+  return getTournamentFormat(tournament).knockout;
+}
+
+module.exports = {
+  TOURNAMENT_FORMATS,
+  DEFAULT_FORMAT,
+  getFormat,
+  isTeamLeague,
+  isIndividualFormat,
+  isKnockoutFormat
+};
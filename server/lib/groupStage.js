@@ -0,0 +1,114 @@
+// Round-robin groups of fixed pairs that feed a knockout bracket.
+
+const GROUP_NAMES = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// Defaults to groups of about four pairs with the top two going through
+function normalizeGroupOptions(pairCount, { groupCount, advancePerGroup } = {}) {
+  const groups = groupCount === undefined ? Math.max(1, Math.round(pairCount / 4)) : groupCount;
+  const maxGroups = Math.min(GROUP_NAMES.length, Math.floor(pairCount / 2));
+  if (!Number.isInteger(groups) || groups < 1 || groups > maxGroups) {
+    throw new Error(`group count must be a whole number between 1 and ${maxGroups}`);
+  }
+
+  const advancing = advancePerGroup === undefined ? Math.min(2, Math.floor(pairCount / groups)) : advancePerGroup;
+  const smallestGroup = Math.floor(pairCount / groups);
+  if (!Number.isInteger(advancing) || advancing < 1 || advancing > smallestGroup) {
+    throw new Error(`pairs advancing per group must be a whole number between 1 and ${smallestGroup}`);
+  }
+  if (groups * advancing < 2) {
+    throw new Error('at least 2 pairs must reach the knockout stage');
+  }
+
+  return { groupCount: groups, advancePerGroup: advancing };
+}
+
+function getPairKey(pair) {
+  return [...pair].sort().join(',');
+}
+
+// Deals seeded pairs into groups in snake order (A B C C B A ...) so every
+// group gets a similar spread of seeds
+function createGroups(seededPairs, groupCount) {
+  const groups = Array.from({ length: groupCount }, (_, index) => ({ name: GROUP_NAMES[index], pairs: [] }));
+
+  seededPairs.forEach((pair, index) => {
+    const lap = Math.floor(index / groupCount);
+    const position = index % groupCount;
+    groups[lap % 2 === 0 ? position : groupCount - 1 - position].pairs.push(pair);
+  });
+
+  return groups;
+}
+
+// Every pair in a group plays every other pair once
+function generateGroupMatches(groups) {
+  return groups.flatMap(group => {
+    const matches = [];
+    for (let i = 0; i < group.pairs.length; i++) {
+      for (let j = i + 1; j < group.pairs.length; j++) {
+        matches.push({ team1: group.pairs[i], team2: group.pairs[j], group: group.name });
+      }
+    }
+    return matches;
+  });
+}
+
+// Group table ranked by wins, then point difference, then points scored
+function calculatePairStandings(pairs, fixtures) {
+  const rows = new Map(pairs.map(pair => [getPairKey(pair), {
+    pair,
+    played: 0,
+    wins: 0,
+    losses: 0,
+    pointsFor: 0,
+    pointsAgainst: 0,
+    pointDifference: 0
+  }]));
+
+  fixtures
+    .filter(fixture => fixture.status === 'completed')
+    .forEach(fixture => {
+      ['team1', 'team2'].forEach(side => {
+        const row = rows.get(getPairKey(fixture[side]));
+        if (!row) return;
+
+        const opponent = side === 'team1' ? 'team2' : 'team1';
+        row.played += 1;
+        row.wins += fixture.winner === side ? 1 : 0;
+        row.losses += fixture.winner === side ? 0 : 1;
+        row.pointsFor += fixture[`${side}Score`] || 0;
+        row.pointsAgainst += fixture[`${opponent}Score`] || 0;
+        row.pointDifference = row.pointsFor - row.pointsAgainst;
+      });
+    });
+
+  return [...rows.values()].sort((a, b) =>
+    b.wins - a.wins || b.pointDifference - a.pointDifference || b.pointsFor - a.pointsFor
+  );
+}
+
+// Knockout seeding from the group tables: all group winners first, then all
+// runners-up, and so on. With standard bracket seeding this keeps pairs from
+// the same group apart in the first knockout round.
+function seedFromGroups(groups, fixtures, advancePerGroup) {
+  const tables = groups.map(group => calculatePairStandings(group.pairs, fixtures.filter(f => f.group === group.name)));
+  const seeded = [];
+
+  for (let place = 0; place < advancePerGroup; place++) {
+    tables.forEach(table => {
+      if (table[place]) {
+        seeded.push(table[place].pair);
+      }
+    });
+  }
+  return seeded;
+}
+
+module.exports = {
+  normalizeGroupOptions,
+  getPairKey,
+  createGroups,
+  generateGroupMatches,
+  calculatePairStandings,
+  seedFromGroups
+};
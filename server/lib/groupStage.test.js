@@ -0,0 +1,58 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { normalizeGroupOptions, createGroups, generateGroupMatches, calculatePairStandings, seedFromGroups } = require('./groupStage');
+
+const createPairs = count => Array.from({ length: count }, (_, i) => [`p${i + 1}a`, `p${i + 1}b`]);
+
+const result = (team1, team2, team1Score, team2Score, group) => ({
+  team1, team2, team1Score, team2Score, group, status: 'completed', winner: team1Score > team2Score ? 'team1' : 'team2'
+});
+
+test('defaults to groups of about four with two going through', () => {
+  assert.deepStrictEqual(normalizeGroupOptions(8), { groupCount: 2, advancePerGroup: 2 });
+  assert.deepStrictEqual(normalizeGroupOptions(6, { groupCount: 3 }), { groupCount: 3, advancePerGroup: 2 });
+  assert.throws(() => normalizeGroupOptions(6, { groupCount: 4 }), /between 1 and 3/);
+  assert.throws(() => normalizeGroupOptions(6, { groupCount: 2, advancePerGroup: 4 }), /between 1 and 3/);
+  assert.throws(() => normalizeGroupOptions(2, { groupCount: 1, advancePerGroup: 1 }), /at least 2 pairs/);
+});
+
+test('deals seeds into groups in snake order', () => {
+  const pairs = createPairs(6);
+  const groups = createGroups(pairs, 3);
+
+  assert.deepStrictEqual(groups.map(group => group.name), ['A', 'B', 'C']);
+  assert.deepStrictEqual(groups.map(group => group.pairs), [
+    [pairs[0], pairs[5]], [pairs[1], pairs[4]], [pairs[2], pairs[3]]
+  ]);
+});
+
+test('plays every pair in a group against every other once', () => {
+  const groups = createGroups(createPairs(7), 2);
+  const matches = generateGroupMatches(groups);
+
+  // Seeds 1, 4 and 5 in A; 2, 3, 6 and 7 in B
+  assert.strictEqual(matches.filter(m => m.group === 'A').length, 3);
+  assert.strictEqual(matches.filter(m => m.group === 'B').length, 6);
+});
+
+test('ranks a group by wins, then point difference, then points scored', () => {
+  const [a, b, c] = createPairs(3);
+  const table = calculatePairStandings([a, b, c], [
+    result(a, b, 21, 10),
+    result(b, c, 21, 19),
+    result(c, a, 21, 15),
+    { team1: a, team2: c, status: 'pending' }
+  ]);
+
+  // Everyone won once; point differences are a +5, c +4 and b -9
+  assert.deepStrictEqual(table.map(row => row.pair), [a, c, b]);
+  assert.deepStrictEqual(table.map(row => row.played), [2, 2, 2]);
+});
+
+test('seeds group winners first, then runners-up', () => {
+  const pairs = createPairs(4);
+  const groups = createGroups(pairs, 2);
+  const fixtures = [result(pairs[0], pairs[3], 10, 21, 'A'), result(pairs[1], pairs[2], 21, 10, 'B')];
+
+  assert.deepStrictEqual(seedFromGroups(groups, fixtures, 2), [pairs[3], pairs[1], pairs[0], pairs[2]]);
+});
@@ -0,0 +1,88 @@
+// Tournament events pushed to open dashboards over Server-Sent Events. Each
+// client subscribes to one club, or to one tournament within it, and is only
+// sent that club's or tournament's events.
+// Each event gets the next ID and the most recent ones are kept, so a client
+// that reconnects with the last ID it saw catches up on what it missed. When
+// that is no longer possible (the events have been dropped, or the server has
+// restarted) the client is told to resync and reload everything instead.
+
+const MAX_BUFFERED_EVENTS = 200;
+const RETRY_MS = 3000;
+// Comment lines keep idle connections from being closed by proxies
+const HEARTBEAT_MS = 25000;
+
+function inScope(scope, event) {
+  return (!scope.clubId || event.clubId === scope.clubId) &&
+    (!scope.tournamentId || event.tournamentId === scope.tournamentId);
+}
+
+function createEventHub({ bufferSize = MAX_BUFFERED_EVENTS, heartbeatMs = HEARTBEAT_MS } = {}) {
+  const buffer = [];
+  // Each open response and the scope it subscribed to
+  const clients = new Map();
+  let lastId = 0;
+
+  const write = (res, event) => {
+    res.write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  function publish(type, data = {}) {
+    const event = { id: ++lastId, type, at: new Date().toISOString(), ...data };
+    buffer.push(event);
+    if (buffer.length > bufferSize) {
+      buffer.shift();
+    }
+    clients.forEach((scope, res) => {
+      if (inScope(scope, event)) write(res, event);
+    });
+    return event;
+  }
+
+  // Events after lastEventId, or null when some of them are gone
+  function eventsSince(lastEventId) {
+    if (lastEventId > lastId) return null;
+    const missed = buffer.filter(event => event.id > lastEventId);
+    return missed.length === lastId - lastEventId ? missed : null;
+  }
+
+  // Streams the events in scope ({ clubId, tournamentId }) to one client.
+  // Browsers send Last-Event-ID when they reconnect by themselves; a fresh
+  // connection can pass ?lastEventId=.
+  function subscribe(req, res, scope = {}) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    const lastEventId = Number(req.headers['last-event-id'] || req.query.lastEventId);
+    if (Number.isInteger(lastEventId) && lastEventId >= 0) {
+      const missed = eventsSince(lastEventId);
+      if (missed) {
+        missed.filter(event => inScope(scope, event)).forEach(event => write(res, event));
+      } else {
+        write(res, { id: lastId, type: 'resync', at: new Date().toISOString() });
+      }
+    } else {
+      // Tell a new client where the stream stands without replaying it
+      write(res, { id: lastId, type: 'connected', at: new Date().toISOString() });
+    }
+
+    clients.set(res, scope);
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), heartbeatMs);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      clients.delete(res);
+    });
+  }
+
+  return {
+    publish,
+    subscribe,
+    eventsSince,
+    clientCount: () => clients.size
+  };
+}
+
+module.exports = { createEventHub };
@@ -0,0 +1,64 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { EventEmitter } = require('node:events');
+const { createEventHub } = require('./liveEvents');
+
+// A stand-in request and response that collect the events written to them
+const connect = (hub, scope, lastEventId) => {
+  const req = Object.assign(new EventEmitter(), {
+    headers: {},
+    query: lastEventId === undefined ? {} : { lastEventId: String(lastEventId) }
+  });
+  const chunks = [];
+  const res = { writeHead: () => {}, write: chunk => chunks.push(chunk) };
+  hub.subscribe(req, res, scope);
+
+  return {
+    events: () => chunks
+      .filter(chunk => chunk.startsWith('id:'))
+      .map(chunk => JSON.parse(chunk.slice(chunk.indexOf('data: ') + 6))),
+    close: () => req.emit('close')
+  };
+};
+
+test('sends each client only the events of its club or tournament', () => {
+  const hub = createEventHub();
+  const club = connect(hub, { clubId: 'c1' });
+  const otherClub = connect(hub, { clubId: 'c2' });
+  const tournament = connect(hub, { clubId: 'c1', tournamentId: 't1' });
+
+  hub.publish('player.created', { clubId: 'c1', playerId: 'p1' });
+  hub.publish('score.submitted', { clubId: 'c1', tournamentId: 't1', fixtureId: 'f1' });
+  hub.publish('score.submitted', { clubId: 'c1', tournamentId: 't2', fixtureId: 'f2' });
+  hub.publish('player.created', { clubId: 'c2', playerId: 'p2' });
+
+  const received = client => client.events().map(event => event.playerId || event.fixtureId || event.type);
+  assert.deepStrictEqual(received(club), ['connected', 'p1', 'f1', 'f2']);
+  assert.deepStrictEqual(received(otherClub), ['connected', 'p2']);
+  assert.deepStrictEqual(received(tournament), ['connected', 'f1']);
+  assert.strictEqual(hub.clientCount(), 3);
+
+  [club, otherClub, tournament].forEach(client => client.close());
+  assert.strictEqual(hub.clientCount(), 0);
+});
+
+test('replays only missed events in scope on reconnect', () => {
+  const hub = createEventHub();
+  hub.publish('player.created', { clubId: 'c1', playerId: 'p1' });
+  hub.publish('player.created', { clubId: 'c2', playerId: 'p2' });
+  hub.publish('player.created', { clubId: 'c1', playerId: 'p3' });
+
+  const client = connect(hub, { clubId: 'c1' }, 1);
+  assert.deepStrictEqual(client.events().map(event => event.playerId), ['p3']);
+  client.close();
+});
+
+test('asks a client to resync when the events it missed are gone', () => {
+  const hub = createEventHub({ bufferSize: 1 });
+  hub.publish('player.created', { clubId: 'c1', playerId: 'p1' });
+  hub.publish('player.created', { clubId: 'c1', playerId: 'p2' });
+
+  const client = connect(hub, { clubId: 'c1' }, 0);
+  assert.deepStrictEqual(client.events().map(event => event.type), ['resync']);
+  client.close();
+});
@@ -0,0 +1,94 @@
+// Doubles Elo ratings.
+// A pair's strength is the mean of its players' ratings. The pair's rating
+// change follows the usual Elo formula and is then split between partners:
+// on a win the lower-rated partner gains more, on a loss the higher-rated
+// partner drops more.
+
+const INITIAL_RATINGS = {
+  beginner: 1300,
+  intermediate: 1500,
+  advanced: 1700
+};
+
+const K_FACTOR = 32;
+// New players move faster until their rating settles
+const PROVISIONAL_K_FACTOR = 48;
+const PROVISIONAL_MATCHES = 10;
+
+function initialRating(skillLevel) {
+  return INITIAL_RATINGS[skillLevel] || INITIAL_RATINGS.beginner;
+}
+
+function expectedScore(rating, opponentRating) {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+function pairRating(pair, ratings) {
+  return pair.reduce((sum, id) => sum + ratings[id].rating, 0) / pair.length;
+}
+
+// Works out each player's rating change for a completed fixture.
+// `ratings` maps player ID to { rating, ratedMatches }.
+function calculateRatingChanges(fixture, ratings) {
+  const changes = {};
+  const team1Rating = pairRating(fixture.team1, ratings);
+  const team2Rating = pairRating(fixture.team2, ratings);
+
+  [['team1', fixture.team1, team1Rating, team2Rating], ['team2', fixture.team2, team2Rating, team1Rating]]
+    .forEach(([side, pair, rating, opponentRating]) => {
+      const won = fixture.winner === side;
+      const pairChange = (won ? 1 : 0) - expectedScore(rating, opponentRating);
+      const pairTotal = pair.reduce((sum, id) => sum + ratings[id].rating, 0);
+
+      pair.forEach(id => {
+        const partnerRating = pairTotal - ratings[id].rating;
+        const share = 2 * (won ? partnerRating : ratings[id].rating) / pairTotal;
+        const k = ratings[id].ratedMatches < PROVISIONAL_MATCHES ? PROVISIONAL_K_FACTOR : K_FACTOR;
+        changes[id] = Math.round(k * pairChange * share * 10) / 10;
+      });
+    });
+
+  return changes;
+}
+
+function roundRating(rating) {
+  return Math.round(rating * 10) / 10;
+}
+
+// A player's rating and history after one fixture's change is added.
+// details are stored on the history entry (fixtureId, tournamentId, ratedAt).
+function addRatingChange(player, change, details) {
+  const rating = roundRating(player.rating + change);
+  return {
+    rating,
+    ratingHistory: [...player.ratingHistory, { rating, change, ...details }]
+  };
+}
+
+// A player's rating and history after one fixture's change is taken back off.
+// Matches rated since then are not re-rated: their changes were worked out
+// from a rating that included this one, and they stand as they were. The
+// ratings recorded after it all move by the same amount, so the history still
+// adds up to the current rating. This is an approximation of replaying every
+// later match.
+function removeRatingChange(player, fixtureId, change) {
+  const index = player.ratingHistory.findIndex(entry => entry.fixtureId === fixtureId);
+
+  return {
+    rating: roundRating(player.rating - change),
+    ratingHistory: index === -1
+      ? player.ratingHistory
+      : player.ratingHistory
+        .filter((_, i) => i !== index)
+        .map((entry, i) => (i < index ? entry : { ...entry, rating: roundRating(entry.rating - change) }))
+  };
+}
+
+module.exports = {
+  INITIAL_RATINGS,
+  initialRating,
+  expectedScore,
+  calculateRatingChanges,
+  addRatingChange,
+  removeRatingChange
+};
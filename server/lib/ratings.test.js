@@ -0,0 +1,71 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { expectedScore, calculateRatingChanges, addRatingChange, removeRatingChange } = require('./ratings');
+
+const rate = (ratings, ratedMatches = 20) =>
+  Object.fromEntries(Object.entries(ratings).map(([id, rating]) => [id, { rating, ratedMatches }]));
+
+const fixture = { id: 'f1', team1: ['a', 'b'], team2: ['c', 'd'], winner: 'team1' };
+
+test('expects even pairs to share the points', () => {
+  assert.strictEqual(expectedScore(1500, 1500), 0.5);
+  assert.ok(Math.abs(expectedScore(1700, 1500) + expectedScore(1500, 1700) - 1) < 1e-9);
+  assert.ok(expectedScore(1700, 1500) > 0.7);
+});
+
+test('moves even pairs by half the K factor', () => {
+  const ratings = { a: 1500, b: 1500, c: 1500, d: 1500 };
+
+  assert.deepStrictEqual(calculateRatingChanges(fixture, rate(ratings)), { a: 16, b: 16, c: -16, d: -16 });
+  // Provisional players move faster
+  assert.deepStrictEqual(calculateRatingChanges(fixture, rate(ratings, 3)), { a: 24, b: 24, c: -24, d: -24 });
+});
+
+test('splits the pair change between partners by rating', () => {
+  const changes = calculateRatingChanges(fixture, rate({ a: 1700, b: 1300, c: 1500, d: 1500 }));
+
+  // The lower-rated winner gains more and the higher-rated loser would drop more
+  assert.ok(changes.b > changes.a);
+  assert.strictEqual(changes.c, changes.d);
+  assert.ok(Math.abs(changes.a + changes.b + changes.c + changes.d) < 0.2);
+
+  const lost = calculateRatingChanges({ ...fixture, winner: 'team2' }, rate({ a: 1700, b: 1300, c: 1500, d: 1500 }));
+  assert.ok(lost.a < lost.b && lost.b < 0);
+});
+
+test('gives an upset more than an expected win', () => {
+  const favourites = rate({ a: 1700, b: 1700, c: 1400, d: 1400 });
+  const upset = calculateRatingChanges({ ...fixture, winner: 'team2' }, favourites);
+  const expected = calculateRatingChanges(fixture, favourites);
+
+  assert.ok(upset.c > expected.a);
+  assert.ok(upset.a < expected.c);
+});
+
+test('takes back a rating change it added', () => {
+  const player = { rating: 1500, ratingHistory: [] };
+  const rated = addRatingChange(player, 12.3, { fixtureId: 'f1', tournamentId: 't1' });
+
+  assert.strictEqual(rated.rating, 1512.3);
+  assert.deepStrictEqual(rated.ratingHistory, [{ rating: 1512.3, change: 12.3, fixtureId: 'f1', tournamentId: 't1' }]);
+  assert.deepStrictEqual(removeRatingChange(rated, 'f1', 12.3), player);
+});
+
+test('shifts later history when an earlier change is taken back', () => {
+  let player = { rating: 1500, ratingHistory: [] };
+  [['f1', 10.4], ['f2', -7.2], ['f3', 5.1]].forEach(([fixtureId, change]) => {
+    player = addRatingChange(player, change, { fixtureId });
+  });
+
+  const reversed = removeRatingChange(player, 'f2', -7.2);
+
+  assert.strictEqual(reversed.rating, 1515.5);
+  assert.deepStrictEqual(reversed.ratingHistory.map(entry => [entry.fixtureId, entry.rating, entry.change]), [
+    ['f1', 1510.4, 10.4],
+    ['f3', 1515.5, 5.1]
+  ]);
+
+  // Taking the rest back returns to the starting rating
+  const cleared = removeRatingChange(removeRatingChange(reversed, 'f3', 5.1), 'f1', 10.4);
+  assert.deepStrictEqual(cleared, { rating: 1500, ratingHistory: [] });
+});
@@ -0,0 +1,114 @@
+// Completed results on the players who played them: lifetime match counts and
+// ratings. A result that is amended or reopened is taken back off first, so
+// the players end up as if only the corrected result had been played. Players
+// are read and saved through the playerRepository passed in.
+
+const { calculateRatingChanges, addRatingChange, removeRatingChange } = require('./ratings');
+const { retractResult } = require('./bracket');
+
+// Adds (direction 1) or reverses (direction -1) a fixture's result on the players' lifetime stats
+function applyFixtureToPlayerStats(fixture, direction, playerRepository) {
+  const winningTeam = fixture.winner === 'team1' ? fixture.team1 : fixture.team2;
+  const losingTeam = fixture.winner === 'team1' ? fixture.team2 : fixture.team1;
+
+  winningTeam.forEach(playerId => {
+    const player = playerRepository.findById(playerId);
+    if (player) {
+      player.matchesPlayed += direction;
+      player.matchesWon += direction;
+      playerRepository.update(player);
+    }
+  });
+
+  losingTeam.forEach(playerId => {
+    const player = playerRepository.findById(playerId);
+    if (player) {
+      player.matchesPlayed += direction;
+      playerRepository.update(player);
+    }
+  });
+}
+
+// Rates a completed fixture and keeps each player's change on the fixture so it can be reversed
+function applyFixtureToRatings(fixture, tournamentId, playerRepository) {
+  const fixturePlayers = [...fixture.team1, ...fixture.team2].map(id => playerRepository.findById(id));
+  if (fixturePlayers.some(player => !player)) {
+    return;
+  }
+
+  const ratings = Object.fromEntries(fixturePlayers.map(player => [
+    player.id,
+    { rating: player.rating, ratedMatches: player.ratingHistory.length }
+  ]));
+  const changes = calculateRatingChanges(fixture, ratings);
+  const ratedAt = new Date().toISOString();
+
+  fixturePlayers.forEach(player => {
+    Object.assign(player, addRatingChange(player, changes[player.id], { fixtureId: fixture.id, tournamentId, ratedAt }));
+    playerRepository.update(player);
+  });
+
+  fixture.ratingChanges = changes;
+}
+
+// Later matches keep the changes they were rated with; see removeRatingChange
+function reverseFixtureRatings(fixture, playerRepository) {
+  Object.entries(fixture.ratingChanges || {}).forEach(([playerId, change]) => {
+    const player = playerRepository.findById(playerId);
+    if (player) {
+      Object.assign(player, removeRatingChange(player, fixture.id, change));
+      playerRepository.update(player);
+    }
+  });
+
+  delete fixture.ratingChanges;
+}
+
+// Counts a newly completed (or corrected) result towards its players
+function applyFixtureResult(fixture, tournamentId, playerRepository) {
+  applyFixtureToPlayerStats(fixture, 1, playerRepository);
+  applyFixtureToRatings(fixture, tournamentId, playerRepository);
+}
+
+// Takes a result back off the players before it is amended or reopened.
+// Results restored from an export were never applied here, so there is
+// nothing to take back.
+function reverseFixtureResult(fixture, playerRepository) {
+  if (fixture.imported) {
+    delete fixture.imported;
+    return;
+  }
+  applyFixtureToPlayerStats(fixture, -1, playerRepository);
+  reverseFixtureRatings(fixture, playerRepository);
+}
+
+// Takes back whatever a knockout result set up so that it can be corrected.
+// Returns an error message, leaving the tournament untouched, when a later
+// match has already been played on the strength of it.
+function retractKnockoutResult(tournament, fixture) {
+  if (fixture.slotId) {
+    const bracket = JSON.parse(JSON.stringify(tournament.bracket));
+    let removedFixtureIds;
+    try {
+      removedFixtureIds = retractResult(bracket, fixture.slotId);
+    } catch (error) {
+      return `${error.message}; correct that match first`;
+    }
+
+    tournament.bracket = bracket;
+    tournament.fixtures = tournament.fixtures.filter(f => !removedFixtureIds.includes(f.id));
+    return null;
+  }
+
+  // Group results decide the knockout seeding, so the bracket is rebuilt
+  if (fixture.group && tournament.bracket) {
+    if (tournament.fixtures.some(f => f.slotId && f.status === 'completed')) {
+      return 'The knockout stage has already started; group results can no longer change';
+    }
+    tournament.fixtures = tournament.fixtures.filter(f => !f.slotId);
+    tournament.bracket = null;
+  }
+  return null;
+}
+
+module.exports = { applyFixtureResult, reverseFixtureResult, retractKnockoutResult };
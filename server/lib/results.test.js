@@ -0,0 +1,100 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { applyFixtureResult, reverseFixtureResult, retractKnockoutResult } = require('./results');
+const { createBracket, createBracketFixtures, recordResult } = require('./bracket');
+
+// A stand-in player repository over copies of the given players
+const createRepository = players => {
+  const store = new Map(players.map(player => [player.id, JSON.parse(JSON.stringify(player))]));
+  return {
+    findById: id => store.get(id) || null,
+    update: player => store.set(player.id, player),
+    stats: () => Object.fromEntries(Array.from(store.values(), p => [p.id, [p.matchesPlayed, p.matchesWon, p.rating]]))
+  };
+};
+
+const players = ['a', 'b', 'c', 'd'].map((id, index) => ({
+  id,
+  matchesPlayed: 10 + index,
+  matchesWon: 5,
+  rating: 1480 + 15 * index,
+  ratingHistory: [{ rating: 1480 + 15 * index, change: 4.2, fixtureId: 'earlier' }]
+}));
+
+const completed = (id, winner) => ({
+  id,
+  team1: ['a', 'b'],
+  team2: ['c', 'd'],
+  status: 'completed',
+  team1Score: winner === 'team1' ? 21 : 15,
+  team2Score: winner === 'team1' ? 15 : 21,
+  winner
+});
+
+test('leaves players as if only the amended result was played', () => {
+  const repository = createRepository(players);
+  const fixture = completed('f1', 'team1');
+  applyFixtureResult(fixture, 't1', repository);
+  assert.notDeepStrictEqual(repository.stats(), createRepository(players).stats());
+
+  reverseFixtureResult(fixture, repository);
+  Object.assign(fixture, { winner: 'team2', team1Score: 15, team2Score: 21 });
+  applyFixtureResult(fixture, 't1', repository);
+
+  const corrected = createRepository(players);
+  applyFixtureResult(completed('f1', 'team2'), 't1', corrected);
+  assert.deepStrictEqual(repository.stats(), corrected.stats());
+});
+
+test('returns players exactly to where they were when a result is reopened', () => {
+  const repository = createRepository(players);
+  const fixture = completed('f1', 'team2');
+  applyFixtureResult(fixture, 't1', repository);
+  reverseFixtureResult(fixture, repository);
+
+  players.forEach(player => assert.deepStrictEqual(repository.findById(player.id), player));
+  assert.strictEqual(fixture.ratingChanges, undefined);
+});
+
+test('takes back nothing for a result restored from an export', () => {
+  const repository = createRepository(players);
+  const fixture = { ...completed('f1', 'team1'), imported: true };
+  reverseFixtureResult(fixture, repository);
+
+  assert.deepStrictEqual(repository.stats(), createRepository(players).stats());
+  assert.strictEqual(fixture.imported, undefined);
+});
+
+test('retracts a knockout result and what it set up before reversing it', () => {
+  const pairs = [['a', 'b'], ['c', 'd'], ['e', 'f'], ['g', 'h']];
+  const everyone = pairs.flat().map(id => ({ id, matchesPlayed: 0, matchesWon: 0, rating: 1500, ratingHistory: [] }));
+  const repository = createRepository(everyone);
+  const before = repository.stats();
+  let nextId = 0;
+  const createFixture = teams => ({ id: `f${++nextId}`, ...teams, status: 'pending' });
+
+  const tournament = { bracket: createBracket('single', pairs), fixtures: [] };
+  tournament.fixtures.push(...createBracketFixtures(tournament.bracket, [], 2, createFixture));
+  const play = (fixture, winner) => {
+    Object.assign(fixture, { status: 'completed', winner, team1Score: 21, team2Score: 10 });
+    applyFixtureResult(fixture, 't1', repository);
+    recordResult(tournament.bracket, fixture.slotId, winner);
+    tournament.fixtures.push(...createBracketFixtures(tournament.bracket, tournament.fixtures, 2, createFixture));
+  };
+  const [semi1, semi2] = tournament.fixtures;
+  play(semi1, 'team1');
+  play(semi2, 'team1');
+  const final = tournament.fixtures.find(f => f.status === 'pending');
+  assert.ok(final);
+
+  // Reopening the first semi-final takes back its result and the final it fed
+  assert.strictEqual(retractKnockoutResult(tournament, semi1), null);
+  reverseFixtureResult(semi1, repository);
+  assert.ok(!tournament.fixtures.includes(final));
+  semi1.team1.concat(semi1.team2).forEach(id => assert.deepStrictEqual(repository.stats()[id], before[id]));
+
+  // Once the final is played, its semi-finals can no longer change
+  play(semi1, 'team2');
+  play(tournament.fixtures.find(f => f.status === 'pending'), 'team1');
+  assert.match(retractKnockoutResult(tournament, semi2), /correct that match first/);
+});
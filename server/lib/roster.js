@@ -0,0 +1,229 @@
+// Player details and whole-roster import and export, so a club's players can
+// be edited in place and moved between deployments.
+
+const SKILL_LEVELS = ['beginner', 'intermediate', 'advanced'];
+
+// Columns of an exported roster, in order; imports need only name and skillLevel
+const ROSTER_FIELDS = ['name', 'skillLevel', 'rating', 'matchesPlayed', 'matchesWon'];
+
+const ROSTER_FORMATS = ['csv', 'json'];
+
+function normalizePlayerName(name) {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed || trimmed.length > 60) {
+    throw new Error('name must be 1-60 characters');
+  }
+  return trimmed;
+}
+
+function normalizeSkillLevel(skillLevel) {
+  const level = typeof skillLevel === 'string' ? skillLevel.trim().toLowerCase() : '';
+  if (!SKILL_LEVELS.includes(level)) {
+    throw new Error('skill level must be beginner, intermediate, or advanced');
+  }
+  return level;
+}
+
+// The fields a PATCH may change; anything left out stays as it is
+function normalizePlayerUpdate(body) {
+  const update = {};
+  if (body.name !== undefined) update.name = normalizePlayerName(body.name);
+  if (body.skillLevel !== undefined) update.skillLevel = normalizeSkillLevel(body.skillLevel);
+  if (body.archived !== undefined) {
+    if (typeof body.archived !== 'boolean') {
+      throw new Error('archived must be true or false');
+    }
+    update.archived = body.archived;
+  }
+  if (Object.keys(update).length === 0) {
+    throw new Error('nothing to update; send name, skillLevel or archived');
+  }
+  return update;
+}
+
+function normalizeFormat(format) {
+  const value = typeof format === 'string' ? format.toLowerCase() : '';
+  if (!ROSTER_FORMATS.includes(value)) {
+    throw new Error('format must be csv or json');
+  }
+  return value;
+}
+
+// Same player for duplicate detection: names differing only in case or spacing
+function nameKey(name) {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// RFC 4180 CSV: quoted fields may hold commas, doubled quotes and line breaks
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no players
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+function toCsvField(value) {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows) {
+  return rows.map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Turns an uploaded roster into plain entries; headers are matched without
+// regard to case so spreadsheets edited by hand still import
+function parseRoster(content, format) {
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new Error('the file is empty');
+  }
+
+  if (format === 'json') {
+    let data;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new Error('the file is not valid JSON');
+    }
+    const entries = Array.isArray(data) ? data : data && data.players;
+    if (!Array.isArray(entries)) {
+      throw new Error('JSON rosters must be a list of players or have a players list');
+    }
+    return entries;
+  }
+
+  // A file of only blank rows has no header at all
+  const [header = [], ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+  const columns = header.map(cell => ROSTER_FIELDS.find(field => field.toLowerCase() === cell.trim().toLowerCase()));
+  if (!columns.includes('name') || !columns.includes('skillLevel')) {
+    throw new Error('CSV rosters need a header row with name and skillLevel columns');
+  }
+  return rows.map(cells => Object.fromEntries(
+    columns
+      .map((field, index) => [field, (cells[index] || '').trim()])
+      .filter(([field, value]) => field && value !== '')
+  ));
+}
+
+function normalizeCount(value, label) {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`${label} must be a whole number of 0 or more`);
+  }
+  return count;
+}
+
+// Validates one imported player. Stats are optional so a plain list of names
+// and levels imports as new players.
+function normalizeRosterEntry(entry) {
+  if (!entry || typeof entry !== 'object') {
+    throw new Error('each player must be an object');
+  }
+  const player = {
+    name: normalizePlayerName(entry.name),
+    skillLevel: normalizeSkillLevel(entry.skillLevel)
+  };
+
+  if (entry.rating !== undefined && entry.rating !== null && entry.rating !== '') {
+    const rating = Number(entry.rating);
+    if (!Number.isFinite(rating) || rating <= 0) {
+      throw new Error('rating must be a positive number');
+    }
+    player.rating = Math.round(rating * 10) / 10;
+  }
+  const matchesPlayed = entry.matchesPlayed === undefined || entry.matchesPlayed === '' ? 0 : normalizeCount(entry.matchesPlayed, 'matchesPlayed');
+  const matchesWon = entry.matchesWon === undefined || entry.matchesWon === '' ? 0 : normalizeCount(entry.matchesWon, 'matchesWon');
+  if (matchesWon > matchesPlayed) {
+    throw new Error('matchesWon cannot be more than matchesPlayed');
+  }
+  return { ...player, matchesPlayed, matchesWon };
+}
+
+// Sorts an import into players to add, duplicates of the roster (including
+// archived players, which are hidden from it) or of an earlier line, and lines
+// that cannot be imported. Rows count from 1 for the
+// first player, so they match the order shown in a spreadsheet's data rows.
+function planRosterImport(entries, existingPlayers) {
+  const taken = new Map(existingPlayers.map(player => [nameKey(player.name), player.archivedAt ? 'archived' : 'roster']));
+  const additions = [];
+  const duplicates = [];
+  const invalid = [];
+
+  entries.forEach((entry, index) => {
+    const row = index + 1;
+    let player;
+    try {
+      player = normalizeRosterEntry(entry);
+    } catch (error) {
+      invalid.push({ row, error: error.message });
+      return;
+    }
+
+    const key = nameKey(player.name);
+    if (taken.has(key)) {
+      duplicates.push({ row, name: player.name, duplicateOf: taken.get(key) });
+      return;
+    }
+    taken.set(key, 'file');
+    additions.push({ row, ...player });
+  });
+
+  return { additions, duplicates, invalid };
+}
+
+function exportRoster(players, format) {
+  const entries = players.map(player => Object.fromEntries(ROSTER_FIELDS.map(field => [field, player[field]])));
+  if (format === 'json') {
+    return JSON.stringify({ players: entries }, null, 2);
+  }
+  return toCsv([ROSTER_FIELDS, ...entries.map(entry => ROSTER_FIELDS.map(field => entry[field]))]);
+}
+
+module.exports = {
+  SKILL_LEVELS,
+  ROSTER_FIELDS,
+  normalizePlayerName,
+  normalizeSkillLevel,
+  normalizePlayerUpdate,
+  normalizeFormat,
+  parseCsv,
+  toCsv,
+  parseRoster,
+  normalizeRosterEntry,
+  planRosterImport,
+  exportRoster
+};
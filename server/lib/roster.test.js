@@ -0,0 +1,49 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { parseRoster, planRosterImport, exportRoster } = require('./roster');
+
+test('reads quoted CSV fields and matches headers in any case', () => {
+  const csv = 'Name,SKILLLEVEL,notes\r\n"Smith, Jo",Advanced,"said ""hi"""\r\n\r\nAl,beginner,\r\n';
+
+  assert.deepStrictEqual(parseRoster(csv, 'csv'), [
+    { name: 'Smith, Jo', skillLevel: 'Advanced' },
+    { name: 'Al', skillLevel: 'beginner' }
+  ]);
+  assert.throws(() => parseRoster('player,level\nAl,beginner', 'csv'), /header row/);
+  assert.throws(() => parseRoster(',,,\r\n,,,\r\n', 'csv'), /header row/);
+});
+
+test('sorts an import into additions, duplicates and unusable lines', () => {
+  const plan = planRosterImport(
+    [
+      { name: 'New Player', skillLevel: 'intermediate' },
+      { name: 'jo  SMITH', skillLevel: 'beginner' },
+      { name: 'new player', skillLevel: 'advanced' },
+      { name: 'Lee', skillLevel: 'expert' },
+      { name: 'Kim', skillLevel: 'beginner', matchesPlayed: 2, matchesWon: 3 },
+      { name: 'Ray Old', skillLevel: 'advanced' }
+    ],
+    [{ name: 'Jo Smith' }, { name: 'Ray Old', archivedAt: '2026-01-05T10:00:00.000Z' }]
+  );
+
+  assert.deepStrictEqual(plan.additions, [
+    { row: 1, name: 'New Player', skillLevel: 'intermediate', matchesPlayed: 0, matchesWon: 0 }
+  ]);
+  assert.deepStrictEqual(plan.duplicates, [
+    { row: 2, name: 'jo  SMITH', duplicateOf: 'roster' },
+    { row: 3, name: 'new player', duplicateOf: 'file' },
+    { row: 6, name: 'Ray Old', duplicateOf: 'archived' }
+  ]);
+  assert.deepStrictEqual(plan.invalid.map(line => line.row), [4, 5]);
+});
+
+test('exports a roster that imports back unchanged', () => {
+  const players = [{ id: 'p1', name: 'Smith, Jo', skillLevel: 'advanced', rating: 1612.5, matchesPlayed: 9, matchesWon: 6 }];
+
+  ['csv', 'json'].forEach(format => {
+    const { additions } = planRosterImport(parseRoster(exportRoster(players, format), format), []);
+    assert.deepStrictEqual(additions, [
+      { row: 1, name: 'Smith, Jo', skillLevel: 'advanced', rating: 1612.5, matchesPlayed: 9, matchesWon: 6 }
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+const { createRng, shuffle } = require('./random');
+
+// Partner rotations for the individual formats. Matches are returned as
+// { team1: [id, id], team2: [id, id] } pairings; the caller turns them into
+// fixtures.
+
+// Largest set of matches that can be made from leftover pairs, two pairs
+// with no player in common per match. Returns the matches and the pairs that
+// could not be placed.
+function pairUpLeftovers(pairs) {
+  const target = Math.floor(pairs.length / 2);
+  let best = [];
+
+  const search = (remaining, matched) => {
+    if (matched.length > best.length) best = [...matched];
+    if (best.length === target || matched.length + Math.floor(remaining.length / 2) <= best.length) return;
+
+    const [pair, ...rest] = remaining;
+    rest.forEach((other, index) => {
+      if (!other.some(id => pair.includes(id))) {
+        search(rest.filter((_, i) => i !== index), [...matched, { team1: pair, team2: other }]);
+      }
+    });
+    search(rest, matched);
+  };
+
+  search(pairs, []);
+  const placed = new Set(best.flatMap(match => [match.team1, match.team2]));
+  return { matches: best, unplaced: pairs.filter(pair => !placed.has(pair)) };
+}
+
+// Round-robin of partnerships using the circle method: with one fixed player
+// and the rest rotating, every player partners every other player exactly
+// once. Pairs are then matched up two at a time within each rotation. When a
+// rotation has an odd pair out, the leftovers are matched with each other at
+// the end wherever they share no players. An odd number of partnerships
+// always leaves one pair over; it plays two of the players with fewest
+// matches, who partner each other for a second time.
+//
+// Everyone ends up on playerIds.length - 1 matches, plus one for the players
+// in repeatedPairs.
+function generateAmericanoMatches(playerIds, seed) {
+  const rng = createRng(seed);
+  const circle = shuffle(playerIds, rng);
+  if (circle.length % 2 === 1) {
+    circle.push(null);
+  }
+
+  const matches = [];
+  const leftoverPairs = [];
+  const size = circle.length;
+
+  for (let rotation = 0; rotation < size - 1; rotation++) {
+    const pairs = [];
+    for (let i = 0; i < size / 2; i++) {
+      const pair = [circle[i], circle[size - 1 - i]];
+      if (!pair.includes(null)) {
+        pairs.push(pair);
+      }
+    }
+
+    for (let i = 0; i + 1 < pairs.length; i += 2) {
+      matches.push({ team1: pairs[i], team2: pairs[i + 1] });
+    }
+    if (pairs.length % 2 === 1) {
+      leftoverPairs.push(pairs[pairs.length - 1]);
+    }
+
+    // Keep the first player fixed and rotate everyone else one place
+    circle.splice(1, 0, circle.pop());
+  }
+
+  const leftovers = pairUpLeftovers(leftoverPairs);
+  matches.push(...leftovers.matches);
+
+  const repeatedPairs = [];
+  leftovers.unplaced.forEach(pair => {
+    const played = Object.fromEntries(playerIds.map(id => [id, 0]));
+    matches.forEach(match => [...match.team1, ...match.team2].forEach(id => { played[id] += 1; }));
+    const standIns = shuffle(playerIds.filter(id => !pair.includes(id)), rng)
+      .sort((a, b) => played[a] - played[b])
+      .slice(0, 2);
+    matches.push({ team1: pair, team2: standIns });
+    repeatedPairs.push(standIns);
+  });
+
+  return { matches, repeatedPairs };
+}
+
+// Number of Mexicano rounds that gives each player roughly matchesPerPlayer
+// matches when only matchesPerRound matches fit in a round
+function countMexicanoRounds(playerCount, matchesPerPlayer, matchesPerRound) {
+  return Math.max(1, Math.ceil((playerCount * matchesPerPlayer) / (4 * matchesPerRound)));
+}
+
+// One Mexicano round. ranking lists players best first (ratings for the
+// opening round, standings after that). Players who have played least are
+// picked to play; each group of four neighbours in the ranking then plays
+// 1st & 4th against 2nd & 3rd.
+function generateMexicanoRound(ranking, matchesPerRound, matchesPlayed = {}) {
+  const rankIndex = new Map(ranking.map((id, index) => [id, index]));
+  const playing = [...ranking]
+    .sort((a, b) => (matchesPlayed[a] || 0) - (matchesPlayed[b] || 0) || rankIndex.get(a) - rankIndex.get(b))
+    .slice(0, matchesPerRound * 4)
+    .sort((a, b) => rankIndex.get(a) - rankIndex.get(b));
+
+  const matches = [];
+  for (let i = 0; i + 3 < playing.length; i += 4) {
+    const [first, second, third, fourth] = playing.slice(i, i + 4);
+    matches.push({ team1: [first, fourth], team2: [second, third] });
+  }
+  return matches;
+}
+
+module.exports = { generateAmericanoMatches, countMexicanoRounds, generateMexicanoRound };
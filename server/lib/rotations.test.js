@@ -0,0 +1,77 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { generateAmericanoMatches, countMexicanoRounds, generateMexicanoRound } = require('./rotations');
+
+const createPlayers = count => Array.from({ length: count }, (_, i) => `p${i + 1}`);
+
+const pairKey = pair => [...pair].sort().join(',');
+
+const countMatches = (playerIds, matches) => {
+  const counts = Object.fromEntries(playerIds.map(id => [id, 0]));
+  matches.forEach(match => [...match.team1, ...match.team2].forEach(id => { counts[id] += 1; }));
+  return counts;
+};
+
+test('has every player partner every other player', () => {
+  for (let count = 4; count <= 13; count++) {
+    const playerIds = createPlayers(count);
+    const { matches } = generateAmericanoMatches(playerIds, 1);
+    const partnered = new Set(matches.flatMap(match => [pairKey(match.team1), pairKey(match.team2)]));
+
+    playerIds.forEach((a, i) => playerIds.slice(i + 1).forEach(b => {
+      assert.ok(partnered.has(pairKey([a, b])), `${count} players: ${a} & ${b}`);
+    }));
+    matches.forEach(match => assert.strictEqual(new Set([...match.team1, ...match.team2]).size, 4));
+  }
+});
+
+test('gives each player one match fewer than the number of players', () => {
+  [4, 5, 8, 9, 12, 13].forEach(count => {
+    const playerIds = createPlayers(count);
+    const { matches, repeatedPairs } = generateAmericanoMatches(playerIds, 1);
+
+    assert.deepStrictEqual(repeatedPairs, []);
+    Object.values(countMatches(playerIds, matches)).forEach(played => assert.strictEqual(played, count - 1));
+  });
+});
+
+test('adds one match for a repeated pair when partnerships do not divide into matches', () => {
+  [6, 7, 10, 11].forEach(count => {
+    const playerIds = createPlayers(count);
+    const { matches, repeatedPairs } = generateAmericanoMatches(playerIds, 3);
+    const counts = countMatches(playerIds, matches);
+
+    assert.strictEqual(repeatedPairs.length, 1, `${count} players`);
+    assert.strictEqual(matches.length, Math.ceil((count * (count - 1)) / 4));
+    playerIds.forEach(id => {
+      assert.strictEqual(counts[id], count - 1 + (repeatedPairs[0].includes(id) ? 1 : 0), `${count} players: ${id}`);
+    });
+  });
+});
+
+test('repeats the same Americano rotation for the same seed', () => {
+  const playerIds = createPlayers(10);
+
+  assert.deepStrictEqual(generateAmericanoMatches(playerIds, 7), generateAmericanoMatches(playerIds, 7));
+  assert.notDeepStrictEqual(generateAmericanoMatches(playerIds, 7), generateAmericanoMatches(playerIds, 8));
+});
+
+test('plays enough Mexicano rounds for the requested matches', () => {
+  assert.strictEqual(countMexicanoRounds(8, 4, 2), 4);
+  assert.strictEqual(countMexicanoRounds(10, 3, 2), 4);
+  assert.strictEqual(countMexicanoRounds(4, 1, 1), 1);
+});
+
+test('draws a Mexicano round from the ranking, sitting out those who played most', () => {
+  const ranking = createPlayers(10);
+
+  assert.deepStrictEqual(generateMexicanoRound(ranking, 2), [
+    { team1: ['p1', 'p4'], team2: ['p2', 'p3'] },
+    { team1: ['p5', 'p8'], team2: ['p6', 'p7'] }
+  ]);
+
+  const played = { p1: 1, p2: 1, p3: 1, p4: 1, p5: 1, p6: 1, p7: 1, p8: 1 };
+  assert.deepStrictEqual(generateMexicanoRound(ranking, 1, played), [
+    { team1: ['p1', 'p10'], team2: ['p2', 'p9'] }
+  ]);
+});
@@ -0,0 +1,165 @@
+// Badminton scoring rules engine.
+// Mirrored by client/src/utils/scoring.ts so the score dialog can validate
+// before submitting - keep the two in sync.
+
+const DEFAULT_SCORING_RULES = {
+  pointsToWin: 21,
+  winBy: 2,
+  maxPoints: 30,
+  bestOf: 1
+};
+
+const SCORING_PRESETS = {
+  bestOf1: { ...DEFAULT_SCORING_RULES },
+  bestOf3: { ...DEFAULT_SCORING_RULES, bestOf: 3 },
+  short15: { pointsToWin: 15, winBy: 2, maxPoints: 21, bestOf: 1 }
+};
+
+// Fills in defaults and rejects rule sets that could never produce a winner
+function normalizeRules(input = {}) {
+  const rules = { ...DEFAULT_SCORING_RULES, ...input };
+
+  if (!Number.isInteger(rules.pointsToWin) || rules.pointsToWin < 1) {
+    throw new Error('pointsToWin must be a positive whole number');
+  }
+  if (!Number.isInteger(rules.winBy) || rules.winBy < 1) {
+    throw new Error('winBy must be a positive whole number');
+  }
+  if (rules.maxPoints !== null && (!Number.isInteger(rules.maxPoints) || rules.maxPoints < rules.pointsToWin)) {
+    throw new Error('maxPoints must be null or at least pointsToWin');
+  }
+  if (![1, 3, 5].includes(rules.bestOf)) {
+    throw new Error('bestOf must be 1, 3 or 5');
+  }
+
+  return {
+    pointsToWin: rules.pointsToWin,
+    winBy: rules.winBy,
+    maxPoints: rules.maxPoints,
+    bestOf: rules.bestOf
+  };
+}
+
+// Returns null for a legal completed game, otherwise the reason it is not
+function validateGame(game, rules) {
+  const { team1, team2 } = game;
+
+  if (!Number.isInteger(team1) || !Number.isInteger(team2) || team1 < 0 || team2 < 0) {
+    return 'Scores must be non-negative whole numbers';
+  }
+  if (team1 === team2) {
+    return 'A game cannot end in a tie';
+  }
+
+  const winning = Math.max(team1, team2);
+  const losing = Math.min(team1, team2);
+
+  if (winning < rules.pointsToWin) {
+    return `The winning side must reach ${rules.pointsToWin} points`;
+  }
+  if (rules.maxPoints !== null && winning > rules.maxPoints) {
+    return `A game is capped at ${rules.maxPoints} points`;
+  }
+  if (winning === rules.pointsToWin) {
+    return winning - losing >= rules.winBy || winning === rules.maxPoints
+      ? null
+      : `A game must be won by ${rules.winBy} points`;
+  }
+
+  // Past the target score play continues until one side leads by winBy,
+  // or the first to reach the cap takes it.
+  if (winning - losing === rules.winBy) {
+    return null;
+  }
+  if (winning === rules.maxPoints && winning - losing < rules.winBy) {
+    return null;
+  }
+  return `${winning}-${losing} is not a possible final score`;
+}
+
+function validateMatch(games, rules) {
+  const errors = [];
+  const gamesToWin = Math.ceil(rules.bestOf / 2);
+  const gamesWon = { team1: 0, team2: 0 };
+  let winner = null;
+
+  if (!Array.isArray(games) || games.length === 0) {
+    return { valid: false, errors: ['At least one game score is required'], winner, gamesWon };
+  }
+  if (games.length > rules.bestOf) {
+    errors.push(`A best of ${rules.bestOf} match has at most ${rules.bestOf} games`);
+  }
+
+  games.forEach((game, index) => {
+    if (winner) {
+      errors.push(`Game ${index + 1} was played after the match was already decided`);
+      return;
+    }
+
+    const gameError = validateGame(game, rules);
+    if (gameError) {
+      errors.push(`Game ${index + 1}: ${gameError}`);
+      return;
+    }
+
+    const gameWinner = game.team1 > game.team2 ? 'team1' : 'team2';
+    gamesWon[gameWinner]++;
+    if (gamesWon[gameWinner] === gamesToWin) {
+      winner = gameWinner;
+    }
+  });
+
+  if (!winner && errors.length === 0) {
+    errors.push(`The match is not finished - a side needs ${gamesToWin} game${gamesToWin > 1 ? 's' : ''} to win`);
+  }
+
+  return { valid: errors.length === 0, errors, winner, gamesWon };
+}
+
+const isScore = value => Number.isInteger(value) && value >= 0;
+const isGame = game => game && isScore(game.team1) && isScore(game.team2);
+
+// Checks the shape of the umpire's running score. The rallies themselves
+// are replayed by the umpire screen; the final games are validated in full
+// when the result is submitted.
+function normalizeLiveScore(input = {}, fixture) {
+  const { log, games, current, server = null } = input;
+  const players = [...fixture.team1, ...fixture.team2];
+
+  if (!Array.isArray(log)) {
+    throw new Error('log must be a list of umpire entries');
+  }
+  log.forEach(entry => {
+    const valid = entry && (
+      (entry.type === 'start' && players.includes(entry.server) && players.includes(entry.receiver)) ||
+      (entry.type === 'rally' && ['team1', 'team2'].includes(entry.winner))
+    );
+    if (!valid) {
+      throw new Error('every entry must start a game with two of the match players or give a rally to team1 or team2');
+    }
+  });
+  if (!Array.isArray(games) || !games.every(isGame) || !isGame(current)) {
+    throw new Error('games and current must be scores of non-negative whole numbers');
+  }
+  if (server !== null && !players.includes(server)) {
+    throw new Error('server must be one of the match players');
+  }
+
+  return {
+    log: log.map(entry => (entry.type === 'start'
+      ? { type: 'start', server: entry.server, receiver: entry.receiver }
+      : { type: 'rally', winner: entry.winner })),
+    games: games.map(game => ({ team1: game.team1, team2: game.team2 })),
+    current: { team1: current.team1, team2: current.team2 },
+    server
+  };
+}
+
+module.exports = {
+  DEFAULT_SCORING_RULES,
+  SCORING_PRESETS,
+  normalizeRules,
+  validateGame,
+  validateMatch,
+  normalizeLiveScore
+};
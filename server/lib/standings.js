@@ -0,0 +1,126 @@
+// Individual standings built only from a tournament's own completed fixtures.
+// Players are ordered by each tiebreaker in turn; a tiebreaker only separates
+// players who are still level on every earlier one.
+
+const TIEBREAKERS = {
+  wins: row => row.wins,
+  winPercentage: row => row.winPercentage,
+  // Mini-league among the tied players: wins minus losses in fixtures where
+  // they faced each other
+  headToHead: (row, tiedIds, fixtures) => fixtures.reduce((balance, fixture) => {
+    const side = fixture.team1.includes(row.playerId) ? 'team1' : fixture.team2.includes(row.playerId) ? 'team2' : null;
+    if (!side) return balance;
+    const opponents = side === 'team1' ? fixture.team2 : fixture.team1;
+    if (!opponents.some(id => tiedIds.includes(id))) return balance;
+    return balance + (fixture.winner === side ? 1 : -1);
+  }, 0),
+  gameDifference: row => row.gamesFor - row.gamesAgainst,
+  pointDifference: row => row.pointDifference,
+  pointsFor: row => row.pointsFor
+};
+
+const DEFAULT_TIEBREAKERS = ['wins', 'winPercentage', 'headToHead', 'gameDifference', 'pointDifference', 'pointsFor'];
+
+function normalizeTiebreakers(input) {
+  if (input === undefined || input === null) {
+    return [...DEFAULT_TIEBREAKERS];
+  }
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new Error('Tiebreakers must be a non-empty list');
+  }
+  const unknown = input.filter(name => !Object.prototype.hasOwnProperty.call(TIEBREAKERS, name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown tiebreakers: ${unknown.join(', ')}. Use: ${Object.keys(TIEBREAKERS).join(', ')}`);
+  }
+  return [...new Set(input)];
+}
+
+function getFixtureGames(fixture) {
+  return fixture.games && fixture.games.length > 0
+    ? fixture.games
+    : [{ team1: fixture.team1Score || 0, team2: fixture.team2Score || 0 }];
+}
+
+function calculateStandings(playerIds, fixtures, tiebreakers = DEFAULT_TIEBREAKERS) {
+  const completedFixtures = fixtures.filter(f => f.status === 'completed');
+  const rows = new Map(playerIds.map(playerId => [playerId, {
+    playerId,
+    played: 0,
+    wins: 0,
+    losses: 0,
+    winPercentage: 0,
+    gamesFor: 0,
+    gamesAgainst: 0,
+    pointsFor: 0,
+    pointsAgainst: 0,
+    pointDifference: 0
+  }]));
+
+  completedFixtures.forEach(fixture => {
+    const games = getFixtureGames(fixture);
+
+    ['team1', 'team2'].forEach(side => {
+      const opponentSide = side === 'team1' ? 'team2' : 'team1';
+      fixture[side].forEach(playerId => {
+        const row = rows.get(playerId);
+        if (!row) return;
+
+        row.played++;
+        if (fixture.winner === side) {
+          row.wins++;
+        } else {
+          row.losses++;
+        }
+        games.forEach(game => {
+          row.pointsFor += game[side];
+          row.pointsAgainst += game[opponentSide];
+          if (game[side] > game[opponentSide]) {
+            row.gamesFor++;
+          } else {
+            row.gamesAgainst++;
+          }
+        });
+      });
+    });
+  });
+
+  rows.forEach(row => {
+    row.winPercentage = row.played > 0 ? Math.round((row.wins / row.played) * 1000) / 10 : 0;
+    row.pointDifference = row.pointsFor - row.pointsAgainst;
+  });
+
+  const groups = rankGroup([...rows.values()], tiebreakers, completedFixtures);
+
+  // Players level on every tiebreaker share a rank
+  let position = 1;
+  return groups.flatMap(group => {
+    const ranked = group.map(row => ({ ...row, rank: position, tied: group.length > 1 }));
+    position += group.length;
+    return ranked;
+  });
+}
+
+// Returns the rows split into ordered groups of players that no tiebreaker could separate
+function rankGroup(rows, tiebreakers, fixtures) {
+  if (rows.length <= 1 || tiebreakers.length === 0) {
+    return [rows];
+  }
+
+  const [tiebreaker, ...rest] = tiebreakers;
+  const tiedIds = rows.map(row => row.playerId);
+  const scored = rows.map(row => ({ row, value: TIEBREAKERS[tiebreaker](row, tiedIds, fixtures) }));
+  scored.sort((a, b) => b.value - a.value);
+
+  const groups = [];
+  scored.forEach(({ row, value }, index) => {
+    if (index > 0 && value === scored[index - 1].value) {
+      groups[groups.length - 1].push(row);
+    } else {
+      groups.push([row]);
+    }
+  });
+
+  return groups.flatMap(group => rankGroup(group, rest, fixtures));
+}
+
+module.exports = { TIEBREAKERS, DEFAULT_TIEBREAKERS, normalizeTiebreakers, calculateStandings };
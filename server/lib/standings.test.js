@@ -0,0 +1,109 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { calculateStandings, normalizeTiebreakers } = require('./standings');
+
+const result = (team1, team2, team1Score, team2Score) => ({
+  status: 'completed',
+  team1,
+  team2,
+  team1Score,
+  team2Score,
+  winner: team1Score > team2Score ? 'team1' : 'team2'
+});
+
+const playerIdsOf = fixtures => [...new Set(fixtures.flatMap(f => [...f.team1, ...f.team2]))];
+
+const rowsFor = (standings, ids) => ids.map(id => standings.find(row => row.playerId === id));
+
+// The order the given players appear in the standings
+const orderOf = (standings, ids) => standings.map(row => row.playerId).filter(id => ids.includes(id));
+
+test('puts the winner of a two-way tie first on head-to-head', () => {
+  // a and b both win one and lose one; a beat b, though b has the better point difference
+  const fixtures = [
+    result(['a', 'x1'], ['b', 'x2'], 21, 19),
+    result(['b', 'x3'], ['x4', 'x5'], 21, 5),
+    result(['x6', 'x7'], ['a', 'x8'], 21, 19)
+  ];
+  const standings = calculateStandings(playerIdsOf(fixtures), fixtures);
+  const [a, b] = rowsFor(standings, ['a', 'b']);
+
+  assert.strictEqual(a.wins, b.wins);
+  assert.ok(b.pointDifference > a.pointDifference);
+  assert.deepStrictEqual(orderOf(standings, ['a', 'b']), ['a', 'b']);
+  assert.strictEqual(b.rank, a.rank + 1);
+  assert.strictEqual(a.tied, false);
+});
+
+test('uses the next tiebreaker when two tied players never met', () => {
+  const fixtures = [
+    result(['a', 'x1'], ['x2', 'x3'], 21, 15),
+    result(['x4', 'x5'], ['a', 'x6'], 21, 20),
+    result(['b', 'x7'], ['x8', 'x9'], 21, 10),
+    result(['x10', 'x11'], ['b', 'x12'], 21, 12)
+  ];
+  const standings = calculateStandings(playerIdsOf(fixtures), fixtures);
+
+  // a: +6 -1 = +5, b: +11 -9 = +2
+  assert.deepStrictEqual(orderOf(standings, ['a', 'b']), ['a', 'b']);
+});
+
+test('orders a three-way tie by the mini-league among the tied players', () => {
+  // a, b and c all win two of four; a beat both others and b beat c
+  const fixtures = [
+    result(['a', 'x1'], ['b', 'x2'], 21, 19),
+    result(['a', 'x3'], ['c', 'x4'], 21, 19),
+    result(['b', 'x5'], ['c', 'x6'], 21, 19),
+    result(['x7', 'x8'], ['a', 'x9'], 21, 5),
+    result(['x10', 'x11'], ['a', 'x12'], 21, 5),
+    result(['b', 'x13'], ['x14', 'x15'], 21, 19),
+    result(['x16', 'x17'], ['b', 'x18'], 21, 19),
+    result(['c', 'x19'], ['x20', 'x21'], 21, 1),
+    result(['c', 'x22'], ['x23', 'x24'], 21, 1)
+  ];
+  const standings = calculateStandings(playerIdsOf(fixtures), fixtures);
+  const [a, b, c] = rowsFor(standings, ['a', 'b', 'c']);
+
+  assert.deepStrictEqual([a.wins, b.wins, c.wins], [2, 2, 2]);
+  assert.ok(c.pointDifference > b.pointDifference && b.pointDifference > a.pointDifference);
+  assert.deepStrictEqual(orderOf(standings, ['a', 'b', 'c']), ['a', 'b', 'c']);
+  assert.deepStrictEqual([a.rank + 1, a.rank + 2], [b.rank, c.rank]);
+});
+
+test('falls back to game and point difference when head-to-head goes round in a circle', () => {
+  // a beat b, b beat c and c beat a, so the mini-league leaves all three level
+  const fixtures = [
+    result(['a', 'x1'], ['b', 'x2'], 21, 10),
+    result(['b', 'x3'], ['c', 'x4'], 21, 19),
+    result(['c', 'x5'], ['a', 'x6'], 21, 18)
+  ];
+  const standings = calculateStandings(playerIdsOf(fixtures), fixtures);
+
+  // Point difference a: +11 -3 = +8, c: -2 +3 = +1, b: -11 +2 = -9
+  assert.deepStrictEqual(orderOf(standings, ['a', 'b', 'c']), ['a', 'c', 'b']);
+  assert.ok(rowsFor(standings, ['a', 'b', 'c']).every(row => !row.tied));
+});
+
+test('shares a rank between players no tiebreaker separates', () => {
+  const fixtures = [result(['a', 'b'], ['c', 'd'], 21, 10)];
+  const standings = calculateStandings(['a', 'b', 'c', 'd'], fixtures);
+
+  assert.deepStrictEqual(standings.map(row => [row.rank, row.tied]), [[1, true], [1, true], [3, true], [3, true]]);
+});
+
+test('applies the tiebreakers in the order given', () => {
+  const fixtures = [
+    result(['a', 'x1'], ['b', 'x2'], 21, 19),
+    result(['b', 'x3'], ['x4', 'x5'], 21, 5),
+    result(['x6', 'x7'], ['a', 'x8'], 21, 19)
+  ];
+  const standings = calculateStandings(playerIdsOf(fixtures), fixtures, ['wins', 'pointDifference', 'headToHead']);
+
+  assert.deepStrictEqual(orderOf(standings, ['a', 'b']), ['b', 'a']);
+});
+
+test('rejects unknown or empty tiebreaker lists', () => {
+  assert.deepStrictEqual(normalizeTiebreakers(['wins', 'wins', 'pointsFor']), ['wins', 'pointsFor']);
+  assert.throws(() => normalizeTiebreakers([]), /non-empty/);
+  assert.throws(() => normalizeTiebreakers(['wins', 'luck']), /Unknown tiebreakers: luck/);
+});
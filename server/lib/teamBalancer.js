@@ -0,0 +1,173 @@
+const { createRng, shuffle } = require('./random');
+const { initialRating } = require('./ratings');
+
+// Strength is the player's rating, or the starting rating for their skill
+// level if they have not been rated yet
+function getPlayerStrength(player) {
+  return typeof player.rating === 'number' ? player.rating : initialRating(player.skillLevel);
+}
+
+function teamStrength(team) {
+  return team.reduce((sum, player) => sum + getPlayerStrength(player), 0);
+}
+
+// Rosters up to this size are split by exhaustive search (C(20, 10) = 184,756 splits)
+const EXACT_SEARCH_LIMIT = 20;
+
+// Splits players into teams (sizes differing by at most one) with the
+// smallest possible difference in total strength. Two teams are split
+// exactly for small rosters; more teams are balanced greedily and then
+// improved by swaps. The seed only decides between equally balanced splits,
+// so the same seed and roster always give the same teams.
+function balanceTeams(players, seed, teamCount = 2) {
+  const rng = createRng(seed);
+
+  // Shuffle first so the stable sort below breaks strength ties by seed
+  const ordered = shuffle(players, rng)
+    .sort((a, b) => getPlayerStrength(b) - getPlayerStrength(a));
+
+  if (teamCount > 2) {
+    return Object.fromEntries(
+      multiSplit(ordered, teamCount).map((team, index) => [`team${index + 1}`, team.map(p => p.id)])
+    );
+  }
+
+  const split = ordered.length <= EXACT_SEARCH_LIMIT
+    ? exactSplit(ordered)
+    : greedySplit(ordered);
+
+  return {
+    team1: split.team1.map(p => p.id),
+    team2: split.team2.map(p => p.id)
+  };
+}
+
+function exactSplit(ordered) {
+  const team1Size = Math.ceil(ordered.length / 2);
+  const strengths = ordered.map(getPlayerStrength);
+  const total = strengths.reduce((sum, strength) => sum + strength, 0);
+  let best = null;
+  let bestGap = Infinity;
+  const chosen = [];
+
+  function search(index, sum) {
+    if (bestGap === 0) return;
+    if (chosen.length === team1Size) {
+      const gap = Math.abs(total - 2 * sum);
+      if (gap < bestGap) {
+        bestGap = gap;
+        best = [...chosen];
+      }
+      return;
+    }
+    if (ordered.length - index < team1Size - chosen.length) return;
+
+    chosen.push(index);
+    search(index + 1, sum + strengths[index]);
+    chosen.pop();
+    search(index + 1, sum);
+  }
+
+  search(0, 0);
+
+  const team1Indexes = new Set(best);
+  return {
+    team1: ordered.filter((_, index) => team1Indexes.has(index)),
+    team2: ordered.filter((_, index) => !team1Indexes.has(index))
+  };
+}
+
+function greedySplit(ordered) {
+  const team1Size = Math.ceil(ordered.length / 2);
+  const team2Size = ordered.length - team1Size;
+  const team1 = [];
+  const team2 = [];
+
+  // Greedy start: strongest remaining player joins the weaker team with room
+  ordered.forEach(player => {
+    const team1HasRoom = team1.length < team1Size;
+    const team2HasRoom = team2.length < team2Size;
+    if (team1HasRoom && (!team2HasRoom || teamStrength(team1) <= teamStrength(team2))) {
+      team1.push(player);
+    } else {
+      team2.push(player);
+    }
+  });
+
+  // Improve with single swaps until no swap narrows the gap
+  let improved = true;
+  while (improved) {
+    improved = false;
+    const gap = teamStrength(team1) - teamStrength(team2);
+
+    for (let i = 0; i < team1.length && !improved; i++) {
+      for (let j = 0; j < team2.length && !improved; j++) {
+        const delta = getPlayerStrength(team1[i]) - getPlayerStrength(team2[j]);
+        if (Math.abs(gap - 2 * delta) < Math.abs(gap)) {
+          [team1[i], team2[j]] = [team2[j], team1[i]];
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return { team1, team2 };
+}
+
+function multiSplit(ordered, teamCount) {
+  const teams = Array.from({ length: teamCount }, () => []);
+  const sizes = teams.map((_, index) =>
+    Math.floor(ordered.length / teamCount) + (index < ordered.length % teamCount ? 1 : 0)
+  );
+
+  // Greedy start: strongest remaining player joins the weakest team with room
+  ordered.forEach(player => {
+    const open = teams
+      .map((team, index) => index)
+      .filter(index => teams[index].length < sizes[index]);
+    const weakest = open.reduce((best, index) =>
+      teamStrength(teams[index]) < teamStrength(teams[best]) ? index : best
+    );
+    teams[weakest].push(player);
+  });
+
+  // Improve with single swaps between any two teams until no swap narrows
+  // the gap between them
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let a = 0; a < teamCount && !improved; a++) {
+      for (let b = a + 1; b < teamCount && !improved; b++) {
+        const gap = teamStrength(teams[a]) - teamStrength(teams[b]);
+        for (let i = 0; i < teams[a].length && !improved; i++) {
+          for (let j = 0; j < teams[b].length && !improved; j++) {
+            const delta = getPlayerStrength(teams[a][i]) - getPlayerStrength(teams[b][j]);
+            if (Math.abs(gap - 2 * delta) < Math.abs(gap)) {
+              [teams[a][i], teams[b][j]] = [teams[b][j], teams[a][i]];
+              improved = true;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return teams;
+}
+
+// Fixed doubles pairs for the knockout formats: the strongest player partners
+// the weakest, the second strongest the second weakest, and so on. Pairs are
+// returned strongest first, ready for seeding.
+function balancePairs(players) {
+  const ordered = [...players].sort((a, b) => getPlayerStrength(b) - getPlayerStrength(a));
+  const pairs = [];
+  for (let i = 0; i < ordered.length / 2; i++) {
+    pairs.push([ordered[i], ordered[ordered.length - 1 - i]]);
+  }
+
+  return pairs
+    .sort((a, b) => teamStrength(b) - teamStrength(a))
+    .map(pair => pair.map(p => p.id));
+}
+
+module.exports = { balanceTeams, balancePairs, getPlayerStrength, teamStrength, exactSplit, greedySplit, multiSplit };
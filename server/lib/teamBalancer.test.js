@@ -0,0 +1,112 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { balanceTeams, exactSplit, greedySplit, multiSplit, teamStrength } = require('./teamBalancer');
+
+const createPlayers = ratings => ratings.map((rating, i) => ({ id: `p${i + 1}`, rating }));
+
+const gapOf = (team1, team2) => Math.abs(teamStrength(team1) - teamStrength(team2));
+
+// Smallest gap over every split into sizes ceil(n/2) and floor(n/2)
+const bestGap = players => {
+  const team1Size = Math.ceil(players.length / 2);
+  let best = Infinity;
+  for (let mask = 0; mask < 1 << players.length; mask++) {
+    const team1 = players.filter((_, i) => mask & (1 << i));
+    if (team1.length === team1Size) {
+      best = Math.min(best, gapOf(team1, players.filter((_, i) => !(mask & (1 << i)))));
+    }
+  }
+  return best;
+};
+
+// True when swapping any one player between two teams would narrow their gap
+const canImproveBySwap = (teamA, teamB) => {
+  const gap = teamStrength(teamA) - teamStrength(teamB);
+  return teamA.some(a => teamB.some(b => Math.abs(gap - 2 * (a.rating - b.rating)) < Math.abs(gap)));
+};
+
+// Ratings the greedy start and single swaps split 20 apart; an exact split is level
+const GREEDY_MISSES = [
+  1250, 1210, 1200, 1190, 1170, 1160, 1160, 1120, 1080, 1080,
+  1080, 1080, 1050, 1030, 1030, 1010, 1000, 1000, 1000, 1000
+];
+
+test('splits small rosters exactly', () => {
+  [
+    [1190, 1160, 1160, 1110, 1080, 1050, 1040, 1000],
+    [1190, 1170, 1140, 1120, 1110, 1110, 1090, 1080, 1060, 1030],
+    [1300, 1200, 1100, 1050, 1000, 950, 900],
+    [1500, 1000, 1000, 1000, 1000, 1000]
+  ].forEach(ratings => {
+    const players = createPlayers(ratings);
+    const { team1, team2 } = exactSplit(players);
+
+    assert.strictEqual(team1.length, Math.ceil(players.length / 2));
+    assert.strictEqual(team2.length, Math.floor(players.length / 2));
+    assert.strictEqual(gapOf(team1, team2), bestGap(players), ratings.join(','));
+  });
+});
+
+test('leaves no single swap that narrows a greedy split', () => {
+  [GREEDY_MISSES, [1400, 1300, 1250, 1100, 1100, 1050, 1000, 980, 950, 900, 880]].forEach(ratings => {
+    const players = createPlayers(ratings);
+    const { team1, team2 } = greedySplit(players);
+
+    assert.strictEqual(team1.length, Math.ceil(players.length / 2));
+    assert.strictEqual(team2.length, Math.floor(players.length / 2));
+    assert.strictEqual(new Set([...team1, ...team2].map(p => p.id)).size, players.length);
+    assert.ok(!canImproveBySwap(team1, team2));
+  });
+});
+
+test('balances three or more teams without a swap that narrows any pair of them', () => {
+  [[12, 3], [13, 3], [14, 4], [21, 5]].forEach(([count, teamCount]) => {
+    const players = createPlayers(Array.from({ length: count }, (_, i) => 900 + ((i * 37) % 11) * 30));
+    const teams = multiSplit(players, teamCount);
+    const sizes = teams.map(team => team.length);
+
+    assert.strictEqual(teams.length, teamCount);
+    assert.ok(Math.max(...sizes) - Math.min(...sizes) <= 1, `${count} players in ${teamCount} teams`);
+    assert.strictEqual(new Set(teams.flat().map(p => p.id)).size, count);
+    teams.forEach((teamA, a) => teams.slice(a + 1).forEach(teamB => assert.ok(!canImproveBySwap(teamA, teamB))));
+  });
+});
+
+test('keeps team sizes within one of each other', () => {
+  for (let count = 4; count <= 25; count++) {
+    [2, 3, 4].forEach(teamCount => {
+      const players = createPlayers(Array.from({ length: count }, (_, i) => 1000 + (i % 5) * 50));
+      const sizes = Object.values(balanceTeams(players, 1, teamCount)).map(ids => ids.length);
+
+      assert.strictEqual(sizes.length, teamCount);
+      assert.strictEqual(sizes.reduce((sum, size) => sum + size, 0), count);
+      assert.ok(Math.max(...sizes) - Math.min(...sizes) <= 1, `${count} players in ${teamCount} teams`);
+    });
+  }
+});
+
+test('gives the same teams for the same seed', () => {
+  // Equal ratings leave every split equally balanced, so only the seed decides
+  const players = createPlayers(Array(12).fill(1000));
+
+  [2, 3].forEach(teamCount => {
+    assert.deepStrictEqual(balanceTeams(players, 42, teamCount), balanceTeams(players, 42, teamCount));
+    assert.notDeepStrictEqual(balanceTeams(players, 42, teamCount), balanceTeams(players, 43, teamCount));
+  });
+});
+
+test('searches exactly up to 20 players and greedily beyond', () => {
+  const idGap = (players, { team1, team2 }) => {
+    const byId = ids => ids.map(id => players.find(p => p.id === id));
+    return gapOf(byId(team1), byId(team2));
+  };
+  const players = createPlayers(GREEDY_MISSES);
+  const greedy = greedySplit(players);
+
+  assert.strictEqual(gapOf(greedy.team1, greedy.team2), 20);
+  assert.strictEqual(idGap(players, balanceTeams(players, 1)), 0);
+
+  // One more player and the greedy split is kept, though an exact split would be level
+  const larger = createPlayers([...GREEDY_MISSES, 1080]);
+  assert.strictEqual(idGap(larger, balanceTeams(larger, 1)), 20);
+});
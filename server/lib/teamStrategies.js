@@ -0,0 +1,162 @@
+const { balanceTeams } = require('./teamBalancer');
+const { createRng, shuffle } = require('./random');
+
+// Every strategy resolves to { team1: [playerId], team2: [playerId], ... }
+// with one list per team and each selected player on exactly one team.
+
+const DEFAULT_TEAM_COUNT = 2;
+const MAX_TEAM_COUNT = 8;
+
+// team1, team2, ... teamN
+function createTeamKeys(teamCount) {
+  return Array.from({ length: teamCount }, (_, index) => `team${index + 1}`);
+}
+
+// Team keys in team order (team10 after team9)
+function getTeamKeys(teams) {
+  return Object.keys(teams).sort((a, b) => parseInt(a.slice(4), 10) - parseInt(b.slice(4), 10));
+}
+
+// Every team needs at least one doubles pair
+function normalizeTeamCount(value, playerCount) {
+  const teamCount = value === undefined ? DEFAULT_TEAM_COUNT : value;
+  const maxTeams = Math.min(MAX_TEAM_COUNT, Math.floor(playerCount / 2));
+  if (!Number.isInteger(teamCount) || teamCount < 2 || teamCount > maxTeams) {
+    throw new Error(`team count must be a whole number between 2 and ${Math.max(2, maxTeams)}`);
+  }
+  return teamCount;
+}
+
+const balancedStrategy = {
+  name: 'balanced',
+  async formTeams(players, { seed, teamCount }) {
+    return balanceTeams(players, seed, teamCount);
+  }
+};
+
+const randomStrategy = {
+  name: 'random',
+  async formTeams(players, { seed, teamCount = DEFAULT_TEAM_COUNT }) {
+    const shuffled = shuffle(players, createRng(seed));
+    const keys = createTeamKeys(teamCount);
+
+    // Deal the shuffled players out like cards
+    return Object.fromEntries(keys.map((key, teamIndex) => [
+      key,
+      shuffled.filter((_, index) => index % teamCount === teamIndex).map(p => p.id)
+    ]));
+  }
+};
+
+const manualStrategy = {
+  name: 'manual',
+  async formTeams(players, { manualTeams, teamCount }) {
+    if (!manualTeams) {
+      throw new Error('Manual team assignments are required');
+    }
+    return validateTeams(manualTeams, players, teamCount);
+  }
+};
+
+const aiStrategy = {
+  name: 'ai',
+  async formTeams(players, { matchesPerPlayer, seed, teamCount = DEFAULT_TEAM_COUNT, aiProvider }) {
+    if (!aiProvider) {
+      return balanceTeams(players, seed, teamCount);
+    }
+
+    try {
+      const text = await aiProvider.generate(buildTeamPrompt(players, matchesPerPlayer, teamCount));
+      const teamData = JSON.parse(text.replace(/```json\n?|\n?```/g, ''));
+      return validateTeams(teamData, players, teamCount);
+    } catch (error) {
+      console.error(`AI team creation (${aiProvider.name}) failed, using fallback:`, error.message);
+      // Fallback: deterministic skill-weighted balancing
+      return balanceTeams(players, seed, teamCount);
+    }
+  }
+};
+
+const TEAM_STRATEGIES = {
+  ai: aiStrategy,
+  balanced: balancedStrategy,
+  manual: manualStrategy,
+  random: randomStrategy
+};
+
+function buildTeamPrompt(players, matchesPerPlayer, teamCount = DEFAULT_TEAM_COUNT) {
+  const keys = createTeamKeys(teamCount);
+
+  return `
+    Create balanced teams for a badminton doubles tournament from these players:
+    ${players.map(p => `${p.name} (${p.skillLevel}, id: ${p.id})`).join('\n    ')}
+    
+    Rules:
+    1. Split into exactly ${teamCount} teams
+    2. Balance skill levels across teams
+    3. Each team should have similar total skill distribution
+    4. Consider that each player should get approximately ${matchesPerPlayer} matches
+    5. Create teams that allow for diverse pairings and avoid repetitive matchups
+    6. CRITICAL: Ensure ALL players get fair playing time - the difference in number of matches between any two players MUST be at most 1 match (e.g., if some players get 6 matches, no player should get fewer than 5 or more than 7)
+    7. Optimize team composition to enable balanced match distribution where every player participates in a similar number of matches
+    8. Every player must appear in exactly one team. Players may share a name, so identify them by id.
+    9. Return only the team assignments in this JSON format:
+    {
+      ${keys.map(key => `"${key}": ["player_id", ...]`).join(',\n      ')}
+    }
+    `;
+}
+
+// Throws unless the teams are team1..teamN, use every player's ID exactly
+// once and can all field a doubles pair. teamCount, when given, must match N.
+function validateTeams(teams, players, teamCount) {
+  if (!teams || typeof teams !== 'object') {
+    throw new Error('Teams must be an object of player lists');
+  }
+
+  const keys = getTeamKeys(teams);
+  const expectedKeys = createTeamKeys(teamCount || keys.length);
+  if (keys.length < 2 || keys.join() !== expectedKeys.join() || keys.some(key => !Array.isArray(teams[key]))) {
+    throw new Error(`Teams must have ${expectedKeys.join(', ')} player lists`);
+  }
+
+  const expectedIds = new Set(players.map(p => p.id));
+  const seenIds = new Set();
+
+  keys.flatMap(key => teams[key]).forEach(id => {
+    if (!expectedIds.has(id)) {
+      throw new Error(`Unknown player id in teams: ${id}`);
+    }
+    if (seenIds.has(id)) {
+      throw new Error(`Player ${id} is assigned more than once`);
+    }
+    seenIds.add(id);
+  });
+
+  if (seenIds.size !== expectedIds.size) {
+    const missing = [...expectedIds].filter(id => !seenIds.has(id));
+    throw new Error(`Players missing from teams: ${missing.join(', ')}`);
+  }
+
+  if (keys.some(key => teams[key].length < 2)) {
+    throw new Error('Each team needs at least 2 players');
+  }
+
+  return Object.fromEntries(keys.map(key => [key, [...teams[key]]]));
+}
+
+function getTeamStrategy(name) {
+  return Object.prototype.hasOwnProperty.call(TEAM_STRATEGIES, name) ? TEAM_STRATEGIES[name] : null;
+}
+
+module.exports = {
+  TEAM_STRATEGIES,
+  DEFAULT_TEAM_COUNT,
+  MAX_TEAM_COUNT,
+  createTeamKeys,
+  getTeamKeys,
+  normalizeTeamCount,
+  getTeamStrategy,
+  validateTeams,
+  buildTeamPrompt
+};
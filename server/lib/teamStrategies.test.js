@@ -0,0 +1,58 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { getTeamStrategy, validateTeams } = require('./teamStrategies');
+const { balanceTeams } = require('./teamBalancer');
+const { createStubProvider } = require('./aiProviders');
+
+const players = ['p1', 'p2', 'p3', 'p4', 'p5', 'p6'].map((id, i) => ({
+  id,
+  name: `Player ${i + 1}`,
+  skillLevel: i < 2 ? 'advanced' : 'intermediate',
+  rating: 1700 - 40 * i
+}));
+
+// A provider whose answer is replaced, to stand in for a model that gets it wrong
+const answering = text => ({ name: 'fake', generate: async () => text });
+
+test('accepts teams that use every player once', () => {
+  const teams = { team1: ['p1', 'p3', 'p5'], team2: ['p2', 'p4', 'p6'] };
+  assert.deepStrictEqual(validateTeams(teams, players, 2), teams);
+});
+
+test('rejects duplicate, missing and unknown player IDs', () => {
+  assert.throws(() => validateTeams({ team1: ['p1', 'p2', 'p3'], team2: ['p3', 'p4', 'p5', 'p6'] }, players), /p3 is assigned more than once/);
+  assert.throws(() => validateTeams({ team1: ['p1', 'p2', 'p3'], team2: ['p4', 'p5'] }, players), /missing from teams: p6/);
+  assert.throws(() => validateTeams({ team1: ['p1', 'p2', 'p3'], team2: ['p4', 'p5', 'p7'] }, players), /Unknown player id in teams: p7/);
+  assert.throws(() => validateTeams({ team1: ['p1', 'p2', 'p3'], team3: ['p4', 'p5', 'p6'] }, players), /team1, team2/);
+  assert.throws(() => validateTeams({ team1: ['p1', 'p2', 'p3', 'p4', 'p5'], team2: ['p6'] }, players), /at least 2 players/);
+});
+
+test('uses the teams the AI provider returns', async () => {
+  const teams = await getTeamStrategy('ai').formTeams(players, { matchesPerPlayer: 4, seed: 1, teamCount: 3, aiProvider: createStubProvider() });
+  assert.deepStrictEqual(teams, { team1: ['p1', 'p4'], team2: ['p2', 'p5'], team3: ['p3', 'p6'] });
+});
+
+test('falls back to balanced teams when the AI provider fails', async () => {
+  const balanced = balanceTeams(players, 7, 2);
+  const failing = [
+    { name: 'down', generate: async () => { throw new Error('unavailable'); } },
+    answering('not json'),
+    answering(JSON.stringify({ team1: ['p1', 'p2', 'p3'], team2: ['p3', 'p4', 'p5'] }))
+  ];
+
+  const { error } = console;
+  console.error = () => {};
+  try {
+    for (const aiProvider of failing) {
+      const teams = await getTeamStrategy('ai').formTeams(players, { matchesPerPlayer: 4, seed: 7, teamCount: 2, aiProvider });
+      assert.deepStrictEqual(teams, balanced, aiProvider.name);
+    }
+  } finally {
+    console.error = error;
+  }
+});
+
+test('knows only its own strategies', () => {
+  assert.strictEqual(getTeamStrategy('balanced').name, 'balanced');
+  ['toString', 'constructor', 'unknown'].forEach(name => assert.strictEqual(getTeamStrategy(name), null));
+});
@@ -0,0 +1,340 @@
+// Tournament downloads: fixtures, standings and team stats as spreadsheets, the
+// whole tournament as JSON that can be restored, and its rounds as a calendar.
+
+const { toCsv } = require('./roster');
+const { getFormat } = require('./formats');
+const { normalizeRules } = require('./scoring');
+const { normalizeTiebreakers } = require('./standings');
+const { normalizeCourts } = require('./courtScheduler');
+const { validateTeams } = require('./teamStrategies');
+
+// Marks a JSON file as a tournament export, so other JSON is turned away
+const EXPORT_KIND = 'badminton-tournament';
+
+const DEFAULT_ROUND_MINUTES = 20;
+
+function formatGames(games) {
+  return (games || []).map(game => `${game.team1}-${game.team2}`).join(' ');
+}
+
+function teamLabel(key) {
+  return `Team ${key.slice(4)}`;
+}
+
+function fixturesToCsv(tournament, getName) {
+  const names = ids => ids.map(getName).join(' & ');
+  return toCsv([
+    ['Match', 'Round', 'Court', 'Group', 'Team 1', 'Team 2', 'Status', 'Games', 'Team 1 Points', 'Team 2 Points', 'Winner', 'Completed At'],
+    ...tournament.fixtures.map(fixture => [
+      fixture.matchNumber,
+      fixture.round || '',
+      fixture.court || '',
+      fixture.group || '',
+      names(fixture.team1),
+      names(fixture.team2),
+      fixture.status,
+      formatGames(fixture.games),
+      fixture.team1Score ?? '',
+      fixture.team2Score ?? '',
+      fixture.winner ? names(fixture[fixture.winner]) : '',
+      fixture.completedAt || ''
+    ])
+  ]);
+}
+
+function standingsToCsv(standings, getName) {
+  return toCsv([
+    ['Rank', 'Player', 'Played', 'Wins', 'Losses', 'Win %', 'Games For', 'Games Against', 'Points For', 'Points Against', 'Point Difference'],
+    ...standings.map(row => [
+      row.rank,
+      getName(row.playerId),
+      row.played,
+      row.wins,
+      row.losses,
+      row.winPercentage,
+      row.gamesFor,
+      row.gamesAgainst,
+      row.pointsFor,
+      row.pointsAgainst,
+      row.pointDifference
+    ])
+  ]);
+}
+
+function teamStatsToCsv(teamStats, getName) {
+  return toCsv([
+    ['Rank', 'Team', 'Players', 'Played', 'Wins', 'Losses', 'Points For', 'Points Against', 'Point Difference'],
+    ...Object.entries(teamStats)
+      .sort(([, a], [, b]) => a.rank - b.rank)
+      .map(([key, row]) => [
+        row.rank,
+        teamLabel(key),
+        row.players.map(getName).join('; '),
+        row.played,
+        row.wins,
+        row.losses,
+        row.pointsFor,
+        row.pointsAgainst,
+        row.pointDifference
+      ])
+  ]);
+}
+
+// Everything needed to restore the tournament elsewhere, including the players
+// it names so they can be recreated where they do not exist
+function tournamentToJson(tournament, players, schemaVersion) {
+  return JSON.stringify({
+    kind: EXPORT_KIND,
+    schemaVersion,
+    exportedAt: new Date().toISOString(),
+    tournament,
+    players
+  }, null, 2);
+}
+
+function isObject(value) {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isPlayerIdList(value) {
+  return Array.isArray(value) && value.every(id => typeof id === 'string');
+}
+
+function isScore(value) {
+  return Number.isInteger(value) && value >= 0;
+}
+
+// A fixture is two pairs of different players, pending or with a full result
+function checkFixture(fixture, playerIds) {
+  if (!isObject(fixture) || typeof fixture.id !== 'string') {
+    return 'a fixture has no ID';
+  }
+  const { team1, team2 } = fixture;
+  if (!isPlayerIdList(team1) || !isPlayerIdList(team2) || team1.length !== 2 || team2.length !== 2) {
+    return `fixture ${fixture.id} is not two pairs`;
+  }
+  if (new Set([...team1, ...team2]).size !== 4) {
+    return `fixture ${fixture.id} names a player twice`;
+  }
+  if ([...team1, ...team2].some(id => !playerIds.has(id))) {
+    return `fixture ${fixture.id} names a player who is not in the tournament`;
+  }
+  for (const field of ['round', 'court', 'matchNumber']) {
+    if (fixture[field] !== undefined && fixture[field] !== null && !(Number.isInteger(fixture[field]) && fixture[field] > 0)) {
+      return `fixture ${fixture.id} has an invalid ${field}`;
+    }
+  }
+  if (fixture.games !== undefined && !(Array.isArray(fixture.games) && fixture.games.every(game => isObject(game) && isScore(game.team1) && isScore(game.team2)))) {
+    return `fixture ${fixture.id} has invalid games`;
+  }
+  if (fixture.status === 'completed') {
+    if (!['team1', 'team2'].includes(fixture.winner) || !isScore(fixture.team1Score) || !isScore(fixture.team2Score)) {
+      return `fixture ${fixture.id} is completed without a full result`;
+    }
+  } else if (fixture.status !== 'pending') {
+    return `fixture ${fixture.id} is neither pending nor completed`;
+  }
+  return null;
+}
+
+// Checks an uploaded export holds a whole tournament whose players all come
+// with it, so nothing is saved from a file that cannot be restored
+function normalizeTournamentImport(data, latestVersion) {
+  if (!isObject(data) || data.kind !== EXPORT_KIND) {
+    throw new Error('this is not a tournament export');
+  }
+  if (!Number.isInteger(data.schemaVersion) || data.schemaVersion > latestVersion) {
+    throw new Error('it was exported by a newer version of the app');
+  }
+
+  const { tournament, players } = data;
+  if (!isObject(tournament) || typeof tournament.id !== 'string' || !isPlayerIdList(tournament.playerIds) || !Array.isArray(tournament.fixtures)) {
+    throw new Error('the tournament is incomplete');
+  }
+  if (!['active', 'completed'].includes(tournament.status)) {
+    throw new Error('the tournament is neither active nor completed');
+  }
+  if (tournament.lastMatchNumber !== undefined && !(Number.isInteger(tournament.lastMatchNumber) && tournament.lastMatchNumber >= 0)) {
+    throw new Error('the last match number is not a whole number');
+  }
+  if (!Array.isArray(players) || players.some(p => !isObject(p) || typeof p.id !== 'string' || typeof p.name !== 'string')) {
+    throw new Error('the players are incomplete');
+  }
+
+  const exportedIds = new Set(players.map(p => p.id));
+  if (exportedIds.size !== players.length) {
+    throw new Error('a player appears twice');
+  }
+  if (tournament.playerIds.some(id => !exportedIds.has(id))) {
+    throw new Error('some players in the tournament are missing from the export');
+  }
+
+  // Knockout and rotation formats have no teams; a team league's players
+  // each play for one team
+  const tournamentIds = new Set(tournament.playerIds);
+  if (tournament.teams !== undefined && tournament.teams !== null) {
+    const teams = isObject(tournament.teams) ? Object.values(tournament.teams) : null;
+    if (!teams || !teams.every(isPlayerIdList)) {
+      throw new Error('the teams are incomplete');
+    }
+    const members = teams.flat();
+    if (members.some(id => !tournamentIds.has(id)) || new Set(members).size !== members.length) {
+      throw new Error('a team names a player who is not in the tournament, or a player is in two teams');
+    }
+  }
+
+  const fixtureIds = new Set();
+  const matchNumbers = new Set();
+  for (const fixture of tournament.fixtures) {
+    const problem = checkFixture(fixture, tournamentIds);
+    if (problem) {
+      throw new Error(problem);
+    }
+    if (fixtureIds.has(fixture.id)) {
+      throw new Error(`fixture ${fixture.id} appears twice`);
+    }
+    if (fixture.matchNumber && matchNumbers.has(fixture.matchNumber)) {
+      throw new Error(`match ${fixture.matchNumber} appears twice`);
+    }
+    fixtureIds.add(fixture.id);
+    matchNumbers.add(fixture.matchNumber);
+  }
+
+  return { schemaVersion: data.schemaVersion, tournament, players };
+}
+
+// Puts an imported tournament's settings through the checks a new tournament
+// gets, once it has been migrated, so a file the app could not have written
+// is turned away instead of breaking the club's tournament list later
+function normalizeImportedSettings(tournament) {
+  const format = getFormat(tournament.format);
+  if (!format) {
+    throw new Error(`the format ${tournament.format} is unknown`);
+  }
+
+  const check = (label, normalize) => {
+    try {
+      return normalize();
+    } catch (error) {
+      throw new Error(`the ${label} are invalid: ${error.message}`);
+    }
+  };
+  const scoringRules = check('scoring rules', () => normalizeRules(tournament.scoringRules));
+  const tiebreakers = check('tiebreakers', () => normalizeTiebreakers(tournament.tiebreakers));
+  const courts = check('courts', () => normalizeCourts(tournament.courts));
+
+  const withdrawn = tournament.withdrawnPlayerIds || [];
+  if (!isPlayerIdList(withdrawn)) {
+    throw new Error('the withdrawn players are incomplete');
+  }
+
+  // A team league's players still taking part each play for one team
+  let teams = null;
+  if (format.name === 'teams') {
+    const activePlayers = tournament.playerIds.filter(id => !withdrawn.includes(id)).map(id => ({ id }));
+    teams = check('teams', () => validateTeams(tournament.teams, activePlayers));
+  } else if (tournament.teams !== undefined && tournament.teams !== null) {
+    throw new Error(`a ${format.label} tournament has no teams`);
+  }
+
+  return { ...tournament, format: format.name, scoringRules, tiebreakers, courts, teams };
+}
+
+// The restored copy of an imported tournament. Fixtures get new IDs, so the
+// copy shares nothing with the original when both are in one deployment.
+// Imported results were never applied to this deployment's player stats or
+// ratings, so they carry no rating changes and are marked imported, which
+// keeps reopening or amending them from reversing anything.
+function restoreTournament(tournament, { id, clubId, createId }) {
+  const fixtureIds = new Map(tournament.fixtures.map(fixture => [fixture.id, createId()]));
+  const fixtures = tournament.fixtures.map(({ ratingChanges, ...fixture }) => ({
+    ...fixture,
+    id: fixtureIds.get(fixture.id),
+    ...(fixture.status === 'completed' ? { imported: true } : {})
+  }));
+  const bracket = tournament.bracket && {
+    ...tournament.bracket,
+    slots: tournament.bracket.slots.map(slot => ({ ...slot, fixtureId: slot.fixtureId ? fixtureIds.get(slot.fixtureId) || null : null }))
+  };
+
+  return { ...tournament, id, clubId, fixtures, ...(bracket ? { bracket } : {}) };
+}
+
+function normalizeSchedule({ start, minutes }) {
+  const startAt = new Date(start);
+  if (!start || Number.isNaN(startAt.getTime())) {
+    throw new Error('start must be a date and time');
+  }
+  const roundMinutes = minutes === undefined || minutes === '' ? DEFAULT_ROUND_MINUTES : Number(minutes);
+  if (!Number.isInteger(roundMinutes) || roundMinutes < 5 || roundMinutes > 240) {
+    throw new Error('minutes per round must be a whole number from 5 to 240');
+  }
+  return { startAt, roundMinutes };
+}
+
+// iCalendar text values escape backslashes, semicolons, commas and newlines
+function escapeText(text) {
+  return String(text).replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function formatDateTime(date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Lines longer than 75 characters continue on the next line after a space
+function foldLine(line) {
+  const parts = [];
+  for (let i = 0; i < line.length; i += 74) {
+    parts.push(line.slice(i, i + 74));
+  }
+  return parts.join('\r\n ');
+}
+
+// One event per scheduled match: round N starts (N - 1) rounds after the start
+function scheduleToICalendar(tournament, getName, { startAt, roundMinutes }) {
+  const title = tournament.name || 'Badminton tournament';
+  const stamp = formatDateTime(new Date());
+  const events = tournament.fixtures
+    .filter(fixture => fixture.round)
+    .flatMap(fixture => {
+      const start = new Date(startAt.getTime() + (fixture.round - 1) * roundMinutes * 60000);
+      const end = new Date(start.getTime() + roundMinutes * 60000);
+      const sides = `${fixture.team1.map(getName).join(' & ')} v ${fixture.team2.map(getName).join(' & ')}`;
+      const result = fixture.status === 'completed'
+        ? `Result: ${formatGames(fixture.games) || `${fixture.team1Score}-${fixture.team2Score}`}`
+        : 'Not played yet';
+      return [
+        'BEGIN:VEVENT',
+        `UID:${fixture.id}@${EXPORT_KIND}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${formatDateTime(start)}`,
+        `DTEND:${formatDateTime(end)}`,
+        `SUMMARY:${escapeText(`Round ${fixture.round}${fixture.court ? `, Court ${fixture.court}` : ''}: ${sides}`)}`,
+        `DESCRIPTION:${escapeText(`${title}\n${result}`)}`,
+        ...(fixture.court ? [`LOCATION:${escapeText(`Court ${fixture.court}`)}`] : []),
+        'END:VEVENT'
+      ];
+    });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${EXPORT_KIND}//EN`,
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(title)}`,
+    ...events,
+    'END:VCALENDAR'
+  ].map(foldLine).join('\r\n') + '\r\n';
+}
+
+module.exports = {
+  fixturesToCsv,
+  standingsToCsv,
+  teamStatsToCsv,
+  tournamentToJson,
+  normalizeTournamentImport,
+  normalizeImportedSettings,
+  restoreTournament,
+  normalizeSchedule,
+  scheduleToICalendar
+};
@@ -0,0 +1,108 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { fixturesToCsv, normalizeTournamentImport, normalizeImportedSettings, restoreTournament, scheduleToICalendar } = require('./tournamentExport');
+const { DEFAULT_TIEBREAKERS } = require('./standings');
+
+const tournament = {
+  id: 't1',
+  name: 'Club Night',
+  status: 'active',
+  playerIds: ['a', 'b', 'c', 'd'],
+  fixtures: [
+    { id: 'f1', matchNumber: 3, team1: ['a', 'b'], team2: ['c', 'd'], round: 1, court: 1, status: 'completed', games: [{ team1: 21, team2: 19 }], team1Score: 21, team2Score: 19, winner: 'team1' },
+    { id: 'f2', matchNumber: 5, team1: ['a', 'c'], team2: ['b', 'd'], round: 2, court: 1, status: 'pending', games: [] }
+  ]
+};
+const names = { a: 'Ann', b: 'Bo, Jr', c: 'Cy', d: 'Di' };
+const getName = id => names[id];
+
+test('writes fixtures with their match numbers and player names instead of IDs', () => {
+  const [header, first] = fixturesToCsv(tournament, getName).trim().split('\r\n');
+
+  assert.ok(header.startsWith('Match,Round,Court'));
+  assert.strictEqual(first, '3,1,1,,"Ann & Bo, Jr",Cy & Di,completed,21-19,21,19,"Ann & Bo, Jr",');
+});
+
+test('puts each round after the one before in the calendar', () => {
+  const ics = scheduleToICalendar(tournament, getName, { startAt: new Date('2024-03-05T19:00:00Z'), roundMinutes: 15 });
+
+  assert.match(ics, /DTSTART:20240305T190000Z\r\nDTEND:20240305T191500Z/);
+  assert.match(ics, /DTSTART:20240305T191500Z/);
+  assert.ok(ics.includes('SUMMARY:Round 1\\, Court 1: Ann & Bo\\, Jr v Cy & Di'));
+  assert.ok(ics.split('\r\n').every(line => line.length <= 75));
+});
+
+test('refuses exports that leave out players the tournament names', () => {
+  const data = { kind: 'badminton-tournament', schemaVersion: 7, tournament, players: [{ id: 'a', name: 'Ann' }] };
+
+  assert.throws(() => normalizeTournamentImport(data, 7), /missing/);
+  assert.throws(() => normalizeTournamentImport({ ...data, schemaVersion: 8 }, 7), /newer/);
+  assert.throws(() => normalizeTournamentImport({ players: [] }, 7), /not a tournament export/);
+});
+
+test('checks every fixture and team before a restore', () => {
+  const players = ['a', 'b', 'c', 'd'].map(id => ({ id, name: names[id] }));
+  const data = { kind: 'badminton-tournament', schemaVersion: 7, tournament, players };
+  const withFixture = changes => ({
+    ...data,
+    tournament: { ...data.tournament, fixtures: [{ ...tournament.fixtures[0], ...changes }] }
+  });
+
+  assert.doesNotThrow(() => normalizeTournamentImport(data, 7));
+  assert.throws(() => normalizeTournamentImport({ ...data, tournament: { ...data.tournament, status: 'paused' } }, 7), /neither active nor completed/);
+  assert.throws(() => normalizeTournamentImport({ ...data, tournament: { ...data.tournament, teams: { team1: ['a', 'b'], team2: ['b', 'c'] } } }, 7), /two teams/);
+  assert.throws(() => normalizeTournamentImport(withFixture({ team2: ['c'] }), 7), /not two pairs/);
+  assert.throws(() => normalizeTournamentImport(withFixture({ team2: ['a', 'd'] }), 7), /names a player twice/);
+  assert.throws(() => normalizeTournamentImport(withFixture({ status: 'done' }), 7), /neither pending nor completed/);
+  assert.throws(() => normalizeTournamentImport(withFixture({ winner: null }), 7), /without a full result/);
+  assert.throws(() => normalizeTournamentImport(withFixture({ games: [{ team1: '21' }] }), 7), /invalid games/);
+  assert.throws(() => normalizeTournamentImport(withFixture({ round: 0 }), 7), /invalid round/);
+  assert.throws(() => normalizeTournamentImport(withFixture({ matchNumber: -1 }), 7), /invalid matchNumber/);
+  assert.throws(() => normalizeTournamentImport({
+    ...data,
+    tournament: { ...data.tournament, fixtures: [tournament.fixtures[0], { ...tournament.fixtures[1], matchNumber: 3 }] }
+  }, 7), /match 3 appears twice/);
+});
+
+test('checks an imported tournament\'s settings like a new tournament\'s', () => {
+  const league = { ...tournament, format: 'teams', courts: 1, teams: { team1: ['a', 'b'], team2: ['c', 'd'] } };
+
+  const settings = normalizeImportedSettings(league);
+  assert.deepStrictEqual(settings.tiebreakers, DEFAULT_TIEBREAKERS);
+  assert.strictEqual(settings.scoringRules.pointsToWin, 21);
+  assert.throws(() => normalizeImportedSettings({ ...league, format: 'foo' }), /format foo is unknown/);
+  assert.throws(() => normalizeImportedSettings({ ...league, format: 'toString' }), /format toString is unknown/);
+  assert.throws(() => normalizeImportedSettings({ ...league, tiebreakers: ['bogus'] }), /tiebreakers are invalid/);
+  assert.throws(() => normalizeImportedSettings({ ...league, scoringRules: { bestOf: 2 } }), /scoring rules are invalid/);
+  assert.throws(() => normalizeImportedSettings({ ...league, courts: 0 }), /courts are invalid/);
+  assert.throws(() => normalizeImportedSettings({ ...league, teams: { team1: ['a', 'b'], team3: ['c', 'd'] } }), /teams are invalid/);
+  assert.throws(() => normalizeImportedSettings({ ...league, teams: null }), /teams are invalid/);
+  assert.throws(() => normalizeImportedSettings({ ...league, format: 'americano' }), /Americano tournament has no teams/);
+
+  // A withdrawn player has left their team
+  assert.doesNotThrow(() => normalizeImportedSettings({
+    ...league,
+    playerIds: [...league.playerIds, 'e'],
+    withdrawnPlayerIds: ['e']
+  }));
+});
+
+test('restores with new fixture IDs and results that reverse nothing', () => {
+  let next = 0;
+  const original = {
+    ...tournament,
+    fixtures: [{ ...tournament.fixtures[0], ratingChanges: { a: 8, b: 8, c: -8, d: -8 } }, tournament.fixtures[1]],
+    bracket: { type: 'single', slots: [{ id: 'W1-1', fixtureId: 'f1' }, { id: 'W2-1', fixtureId: null }] }
+  };
+  const restored = restoreTournament(original, { id: 't2', clubId: 'c1', createId: () => `new${++next}` });
+
+  assert.strictEqual(restored.id, 't2');
+  assert.strictEqual(restored.clubId, 'c1');
+  assert.deepStrictEqual(restored.fixtures.map(f => f.id), ['new1', 'new2']);
+  assert.deepStrictEqual(restored.fixtures.map(f => f.matchNumber), [3, 5]);
+  assert.strictEqual(restored.fixtures[0].ratingChanges, undefined);
+  assert.strictEqual(restored.fixtures[0].imported, true);
+  assert.strictEqual(restored.fixtures[1].imported, undefined);
+  assert.deepStrictEqual(restored.bracket.slots.map(slot => slot.fixtureId), ['new1', null]);
+  assert.strictEqual(original.fixtures[0].id, 'f1');
+});